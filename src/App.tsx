@@ -12,6 +12,7 @@ import { ProtectedRoute } from './features/auth/components/ProtectedRoute';
 import { AppLayout } from './components/common/Layout/AppLayout';
 import { ToastProvider } from './components/common/Toast/ToastProvider';
 import { routes } from './config/routes';
+import { Permission } from './config/permissions';
 import { LoginPage } from './pages/Login';
 import { DashboardPage } from './pages/Dashboard';
 import { LoadingSpinner } from './components/common/Loading/LoadingSpinner';
@@ -93,6 +94,22 @@ const PaymentViewPage = createLazyComponent(
   () => import('./pages/Payments/PaymentViewPage'),
   'PaymentViewPage'
 );
+const CustomerListPage = createLazyComponent(
+  () => import('./pages/Customers/CustomerListPage'),
+  'CustomerListPage'
+);
+const CustomerViewPage = createLazyComponent(
+  () => import('./pages/Customers/CustomerViewPage'),
+  'CustomerViewPage'
+);
+const AuditLogPage = createLazyComponent(
+  () => import('./pages/Audit/AuditLogPage'),
+  'AuditLogPage'
+);
+const AdminUsersPage = createLazyComponent(
+  () => import('./pages/AdminUsers/AdminUsersPage'),
+  'AdminUsersPage'
+);
 const SettingsPage = createLazyComponent(
   () => import('./pages/Settings/SettingsPage'),
   'SettingsPage'
@@ -108,11 +125,12 @@ const PreferencesPage = createLazyComponent(
  */
 interface ProtectedLayoutRouteProps {
   children: ReactNode;
+  permission?: Permission;
 }
 
-const ProtectedLayoutRouteComponent = memo(({ children }: ProtectedLayoutRouteProps) => {
+const ProtectedLayoutRouteComponent = memo(({ children, permission }: ProtectedLayoutRouteProps) => {
   return (
-    <ProtectedRoute>
+    <ProtectedRoute permission={permission}>
       <AppLayout>
         <Suspense fallback={<LoadingSpinner fullScreen />}>{children}</Suspense>
       </AppLayout>
@@ -160,7 +178,7 @@ function App() {
                   <Route
                     path={routes.licenses.create}
                     element={
-                      <ProtectedLayoutRoute>
+                      <ProtectedLayoutRoute permission="licenses.manage">
                         <LicenseCreatePage />
                       </ProtectedLayoutRoute>
                     }
@@ -176,7 +194,7 @@ function App() {
                   <Route
                     path={routes.licenses.edit(':id')}
                     element={
-                      <ProtectedLayoutRoute>
+                      <ProtectedLayoutRoute permission="licenses.manage">
                         <LicenseEditPage />
                       </ProtectedLayoutRoute>
                     }
@@ -184,7 +202,7 @@ function App() {
                   <Route
                     path={routes.licenses.increaseUserLimit}
                     element={
-                      <ProtectedLayoutRoute>
+                      <ProtectedLayoutRoute permission="licenses.manage">
                         <IncreaseUserLimitPage />
                       </ProtectedLayoutRoute>
                     }
@@ -192,7 +210,7 @@ function App() {
                   <Route
                     path={routes.licenses.reactivate}
                     element={
-                      <ProtectedLayoutRoute>
+                      <ProtectedLayoutRoute permission="licenses.manage">
                         <ReactivateLicensePage />
                       </ProtectedLayoutRoute>
                     }
@@ -240,7 +258,7 @@ function App() {
                   <Route
                     path={routes.payments.create}
                     element={
-                      <ProtectedLayoutRoute>
+                      <ProtectedLayoutRoute permission="payments.create">
                         <PaymentCreatePage />
                       </ProtectedLayoutRoute>
                     }
@@ -253,6 +271,38 @@ function App() {
                       </ProtectedLayoutRoute>
                     }
                   />
+                  <Route
+                    path={routes.customers.list}
+                    element={
+                      <ProtectedLayoutRoute>
+                        <CustomerListPage />
+                      </ProtectedLayoutRoute>
+                    }
+                  />
+                  <Route
+                    path={`${routes.customers.list}/:phone`}
+                    element={
+                      <ProtectedLayoutRoute>
+                        <CustomerViewPage />
+                      </ProtectedLayoutRoute>
+                    }
+                  />
+                  <Route
+                    path={routes.audit}
+                    element={
+                      <ProtectedLayoutRoute>
+                        <AuditLogPage />
+                      </ProtectedLayoutRoute>
+                    }
+                  />
+                  <Route
+                    path={routes.adminUsers}
+                    element={
+                      <ProtectedLayoutRoute permission="admins.manage">
+                        <AdminUsersPage />
+                      </ProtectedLayoutRoute>
+                    }
+                  />
                   <Route
                     path={routes.settings}
                     element={
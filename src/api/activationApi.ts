@@ -1,10 +1,12 @@
 import { baseApi } from './baseApi';
-import { Activation } from '../types/license.types';
+import { Activation, HardwareBinding, TransferActivationInput } from '../types/license.types';
 import { PaginationParams, FilterParams } from '../types/api.types';
 
 interface GetActivationsParams extends PaginationParams, FilterParams {
   licenseId?: number;
   isActive?: boolean;
+  // Only activations last seen (last validation, or activation if never validated) before this ISO date
+  validatedBefore?: string;
   sortBy?: string;
   sortOrder?: 'asc' | 'desc';
 }
@@ -33,6 +35,9 @@ interface ActivationWithLicense extends Activation {
   };
 }
 
+// Tags refreshed after a batch of deactivations
+export const DEACTIVATION_TAGS = ['Activation', 'License', 'Audit'] as const;
+
 export const activationApi = baseApi.injectEndpoints({
   endpoints: (builder) => ({
     getActivations: builder.query<GetActivationsResponse, GetActivationsParams>({
@@ -43,6 +48,7 @@ export const activationApi = baseApi.injectEndpoints({
           pageSize: params.limit,
           licenseId: params.licenseId,
           isActive: params.isActive,
+          validatedBefore: params.validatedBefore,
           search: params.search,
           sortBy: params.sortBy,
           sortOrder: params.sortOrder,
@@ -65,7 +71,32 @@ export const activationApi = baseApi.injectEndpoints({
         url: `/admin/activations/${id}`,
         method: 'DELETE',
       }),
-      invalidatesTags: (_result, _error, id) => [{ type: 'Activation', id }, 'Activation'],
+      // License is included because deactivating frees a seat of the license's user limit
+      invalidatesTags: (_result, _error, id) => [{ type: 'Activation', id }, 'Activation', 'License', 'Audit'],
+    }),
+    // Same request as deactivateActivation, but invalidates nothing: bulk callers invalidate
+    // DEACTIVATION_TAGS once when the batch ends instead of refetching after every item
+    deactivateActivationInBatch: builder.mutation<void, number>({
+      query: (id) => ({
+        url: `/admin/activations/${id}`,
+        method: 'DELETE',
+      }),
+    }),
+    transferActivation: builder.mutation<HardwareBinding, { id: number; data: TransferActivationInput }>({
+      query: ({ id, data }) => ({
+        url: `/admin/activations/${id}/transfer`,
+        method: 'POST',
+        body: data,
+      }),
+      transformResponse: (response: { data: HardwareBinding }) => response.data,
+      // License is included because license details embed the activation list
+      invalidatesTags: (_result, _error, { id }) => [{ type: 'Activation', id }, 'Activation', 'License', 'Audit'],
+    }),
+    // Every hardware ID the license has been bound to, newest first
+    getHardwareHistory: builder.query<HardwareBinding[], number>({
+      query: (licenseId) => `/admin/licenses/${licenseId}/hardware-history`,
+      transformResponse: (response: { data: HardwareBinding[] }) => response.data,
+      providesTags: ['Activation'],
     }),
   }),
 });
@@ -74,4 +105,7 @@ export const {
   useGetActivationsQuery,
   useGetActivationByIdQuery,
   useDeactivateActivationMutation,
+  useDeactivateActivationInBatchMutation,
+  useTransferActivationMutation,
+  useGetHardwareHistoryQuery,
 } = activationApi;
\ No newline at end of file
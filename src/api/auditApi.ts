@@ -0,0 +1,50 @@
+import { baseApi } from './baseApi';
+import { AuditLogEntry, AuditEntityType, AuditAction } from '../types/audit.types';
+import { PaginationParams } from '../types/api.types';
+
+export interface GetAuditLogsParams extends PaginationParams {
+  entityType?: AuditEntityType;
+  entityId?: number;
+  action?: AuditAction;
+  actor?: string;
+  startDate?: string;
+  endDate?: string;
+}
+
+interface GetAuditLogsResponse {
+  entries: AuditLogEntry[];
+  pagination: {
+    page: number;
+    pageSize: number;
+    totalItems: number;
+    totalPages: number;
+  };
+}
+
+export const auditApi = baseApi.injectEndpoints({
+  endpoints: (builder) => ({
+    getAuditLogs: builder.query<GetAuditLogsResponse, GetAuditLogsParams>({
+      query: (params) => ({
+        url: '/admin/audit-logs',
+        params: {
+          page: params.page,
+          pageSize: params.limit,
+          entityType: params.entityType,
+          entityId: params.entityId,
+          action: params.action,
+          actor: params.actor,
+          startDate: params.startDate,
+          endDate: params.endDate,
+          sortBy: params.sortBy,
+          sortOrder: params.sortOrder,
+        },
+      }),
+      transformResponse: (response: { data: GetAuditLogsResponse }) => response.data,
+      providesTags: ['Audit'],
+      // Performance optimization: Audit entries never change once written; new ones arrive via tag invalidation
+      keepUnusedDataFor: 300,
+    }),
+  }),
+});
+
+export const { useGetAuditLogsQuery } = auditApi;
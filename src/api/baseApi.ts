@@ -1,8 +1,13 @@
-import { createApi, fetchBaseQuery } from '@reduxjs/toolkit/query/react';
+import { createApi } from '@reduxjs/toolkit/query/react';
 import { RootState, store } from '../store';
 import { config } from '../config/env';
 import { isTokenExpired } from '../utils/jwtUtils';
 import { logout } from '../features/auth/slice/authSlice';
+import { refreshAccessToken } from './tokenRefresh';
+import { createHttpBaseQuery, HttpBaseQuery, HttpError } from './httpClient';
+import { loadCachedResponse, saveCachedResponse } from './offlineCache';
+import { enqueueMutation, isOutboxEndpoint, withIdempotencyKey } from './outbox';
+import { mutationQueued } from '../features/offline/slice/offlineSlice';
 
 /**
  * Handle session expiry - logout and redirect to login
@@ -22,68 +27,165 @@ const handleSessionExpiry = () => {
   }
 };
 
-// Custom base query with token expiry checking and 401 handling
-const baseQueryWithAuth = fetchBaseQuery({
+// Refresh proactively when the access token has less than this left, so requests don't race expiry
+const REFRESH_THRESHOLD_MS = 60 * 1000;
+
+/**
+ * Login, two-factor and health endpoints are called without a session.
+ * RTK Query endpoint names follow pattern: 'api/endpointName' or 'reducerPath/endpointName'
+ */
+const isPublicEndpoint = (endpoint: string): boolean => {
+  const name = endpoint.toLowerCase();
+  return name.includes('login') || name.includes('health');
+};
+
+/**
+ * Check whether the current access token is expired or about to expire.
+ * Performance optimization: Use cached tokenExpiry from state instead of decoding JWT
+ */
+const isAccessTokenStale = (state: RootState): boolean => {
+  const { token, tokenExpiry } = state.auth;
+  if (!token) return false;
+  if (tokenExpiry) {
+    return Date.now() >= new Date(tokenExpiry).getTime() - REFRESH_THRESHOLD_MS;
+  }
+  // Fallback to JWT decoding if expiry not cached (shouldn't happen in normal flow)
+  return isTokenExpired(token);
+};
+
+const ERROR_SESSION_EXPIRED = 'Your session has expired. Please log in again.';
+const INFO_QUEUED = "You're offline. The change was saved and will be sent when the connection returns.";
+
+const baseQueryWithAuth = createHttpBaseQuery({
   baseUrl: config.apiBaseUrl,
   prepareHeaders: (headers, { getState, endpoint }) => {
-    // Get auth state
-    const state = getState() as RootState;
-    const { token, tokenExpiry } = state.auth;
-
-    // Check if this is a login or health endpoint (no auth required)
-    // RTK Query endpoint names follow pattern: 'api/endpointName' or 'reducerPath/endpointName'
-    // For injected endpoints from authApi, it might be 'api/login' or similar
     // Performance: Only check if endpoint is a string (most common case)
-    if (typeof endpoint === 'string' && (endpoint.toLowerCase().includes('login') || endpoint.toLowerCase().includes('health'))) {
+    if (typeof endpoint === 'string' && isPublicEndpoint(endpoint)) {
       // Remove any existing authorization header for login/health endpoints
       headers.delete('authorization');
       headers.delete('Authorization');
       return headers;
     }
 
-    // Performance optimization: Use cached tokenExpiry from state instead of decoding JWT
-    // This avoids expensive base64 decoding and JSON parsing on every request
+    // Expiry is handled by baseQueryWithReauth, which refreshes the token before we get here
+    const { token } = (getState() as RootState).auth;
     if (token) {
-      // Check expiration using cached expiry time (much faster than decoding JWT)
-      if (tokenExpiry) {
-        const expiryTime = new Date(tokenExpiry).getTime();
-        const currentTime = Date.now();
-        // Add 5 second buffer for clock skew
-        if (currentTime >= expiryTime - 5000) {
-          handleSessionExpiry();
-          return headers;
-        }
-      } else {
-        // Fallback to JWT decoding if expiry not cached (shouldn't happen in normal flow)
-        if (isTokenExpired(token)) {
-          handleSessionExpiry();
-          return headers;
-        }
-      }
-
-      // Add auth header
       headers.set('authorization', `Bearer ${token}`);
     }
     return headers;
   },
 });
 
-// Wrapper to handle 401 errors
-const baseQueryWithReauth: typeof baseQueryWithAuth = async (args, api, extraOptions) => {
+/**
+ * Base query with silent token refresh.
+ *
+ * - Near expiry: refreshes before sending the request
+ * - On 401: refreshes and retries the request once
+ * - Concurrent requests wait on the same refresh (see refreshAccessToken)
+ * - Logs out only when the server rejects the refresh token
+ */
+const baseQueryWithReauth: HttpBaseQuery = async (args, api, extraOptions) => {
+  if (isPublicEndpoint(api.endpoint)) {
+    return baseQueryWithAuth(args, api, extraOptions);
+  }
+
+  if (isAccessTokenStale(api.getState() as RootState)) {
+    const refreshResult = await refreshAccessToken();
+    if (refreshResult === 'rejected') {
+      handleSessionExpiry();
+      return { error: { status: 401, data: { message: ERROR_SESSION_EXPIRED }, requestId: null } };
+    }
+  }
+
+  const tokenUsed = (api.getState() as RootState).auth.token;
   const result = await baseQueryWithAuth(args, api, extraOptions);
-  
+
   // Handle 401 Unauthorized responses
-  if (result.error && 'status' in result.error && result.error.status === 401) {
-    handleSessionExpiry();
+  if (result.error?.status === 401) {
+    // Another request may have refreshed the token while this one was in flight
+    const currentToken = (api.getState() as RootState).auth.token;
+    const refreshResult = currentToken !== tokenUsed ? 'refreshed' : await refreshAccessToken();
+
+    if (refreshResult === 'refreshed') {
+      return baseQueryWithAuth(args, api, extraOptions);
+    }
+    if (refreshResult === 'rejected') {
+      handleSessionExpiry();
+    }
+  }
+
+  return result;
+};
+
+const isNetworkError = (error: HttpError | undefined): boolean =>
+  error?.status === 'FETCH_ERROR' || error?.status === 'TIMEOUT_ERROR';
+
+/**
+ * Base query with offline support.
+ *
+ * - Queries: successful responses are persisted (see offlineCache); when the network is down the
+ *   last persisted response is returned instead of an error, so pages keep showing data
+ * - Outbox mutations: when offline, the request is queued for replay (see outbox) and the caller
+ *   gets a QUEUED error. Only requests that never reached the server are queued; a timed-out POST
+ *   may have been applied, so it fails normally instead of risking a duplicate.
+ */
+const baseQueryWithOffline: HttpBaseQuery = async (args, api, extraOptions) => {
+  const userId = (api.getState() as RootState).auth.user?.id;
+  if (userId === undefined) {
+    return baseQueryWithReauth(args, api, extraOptions);
+  }
+  const isQueueable = api.type === 'mutation' && isOutboxEndpoint(api.endpoint);
+  // The first attempt and any queued replay share one idempotency key
+  const requestArgs = typeof args === 'string' ? { url: args } : args;
+  const fetchArgs = isQueueable ? withIdempotencyKey(requestArgs) : requestArgs;
+  // Returns null if the outbox can't be written (e.g. IndexedDB unavailable), so the request fails normally
+  const queueMutation = async () => {
+    try {
+      await enqueueMutation(userId, api.endpoint, fetchArgs);
+    } catch (error) {
+      console.error('Failed to queue offline mutation:', error);
+      return null;
+    }
+    api.dispatch(mutationQueued());
+    return { error: { status: 'QUEUED' as const, data: { message: INFO_QUEUED }, requestId: null } };
+  };
+
+  // Performance: Skip the request (and its retries) when the browser knows it's offline
+  if (!navigator.onLine) {
+    const queued = isQueueable ? await queueMutation() : null;
+    if (queued) {
+      return queued;
+    }
+    if (api.type === 'query' && api.queryCacheKey) {
+      const cached = await loadCachedResponse(userId, api.queryCacheKey);
+      if (cached !== undefined) {
+        return { data: cached };
+      }
+    }
   }
-  
+
+  const result = await baseQueryWithReauth(fetchArgs, api, extraOptions);
+
+  if (api.type === 'query' && api.queryCacheKey) {
+    if (!result.error) {
+      saveCachedResponse(userId, api.queryCacheKey, result.data);
+    } else if (isNetworkError(result.error)) {
+      const cached = await loadCachedResponse(userId, api.queryCacheKey);
+      if (cached !== undefined) {
+        return { data: cached, meta: result.meta };
+      }
+    }
+  } else if (isQueueable && result.error?.status === 'FETCH_ERROR') {
+    return (await queueMutation()) ?? result;
+  }
+
   return result;
 };
 
 export const baseApi = createApi({
   reducerPath: 'api',
-  baseQuery: baseQueryWithReauth,
-  tagTypes: ['License', 'Activation', 'Subscription', 'Payment', 'Stats', 'Auth', 'Preferences', 'Health'],
+  baseQuery: baseQueryWithOffline,
+  tagTypes: ['License', 'Activation', 'Subscription', 'Payment', 'Stats', 'Auth', 'Preferences', 'Health', 'Customer', 'Audit', 'AdminUser', 'Session', 'Notification'],
   endpoints: () => ({}),
   // Performance optimizations:
   // - Keep unused data cached for 5 minutes globally (can be overridden per endpoint)
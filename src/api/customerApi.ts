@@ -0,0 +1,50 @@
+import { baseApi } from './baseApi';
+import { CustomerSummary, CustomerDetail } from '../types/customer.types';
+import { PaginationParams } from '../types/api.types';
+
+interface GetCustomersParams extends PaginationParams {
+  search?: string;
+}
+
+interface GetCustomersResponse {
+  customers: CustomerSummary[];
+  pagination: {
+    page: number;
+    pageSize: number;
+    totalItems: number;
+    totalPages: number;
+  };
+  meta?: {
+    totalRevenue?: number;
+  };
+}
+
+export const customerApi = baseApi.injectEndpoints({
+  endpoints: (builder) => ({
+    getCustomers: builder.query<GetCustomersResponse, GetCustomersParams>({
+      query: (params) => ({
+        url: '/admin/customers',
+        params: {
+          page: params.page,
+          pageSize: params.limit,
+          search: params.search,
+          sortBy: params.sortBy,
+          sortOrder: params.sortOrder,
+        },
+      }),
+      transformResponse: (response: { data: GetCustomersResponse }) => response.data,
+      providesTags: ['Customer'],
+      // Performance optimization: Keep cached data for 5 minutes to reduce unnecessary refetches
+      keepUnusedDataFor: 300,
+    }),
+    getCustomerByPhone: builder.query<CustomerDetail, string>({
+      query: (phone) => `/admin/customers/${encodeURIComponent(phone)}`,
+      transformResponse: (response: { data: CustomerDetail }) => response.data,
+      providesTags: (_result, _error, phone) => [{ type: 'Customer', id: phone }],
+      // Performance optimization: Keep individual customer data cached for 10 minutes
+      keepUnusedDataFor: 600,
+    }),
+  }),
+});
+
+export const { useGetCustomersQuery, useGetCustomerByPhoneQuery } = customerApi;
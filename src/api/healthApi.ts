@@ -1,6 +1,6 @@
-import { fetchBaseQuery } from '@reduxjs/toolkit/query/react';
 import { createApi } from '@reduxjs/toolkit/query/react';
 import { config } from '../config/env';
+import { createHttpBaseQuery } from './httpClient';
 
 export interface HealthItem {
   name: string;
@@ -71,13 +71,8 @@ const getHealthBaseUrl = () => {
 };
 
 // Create a separate API instance for health checks with the correct base URL
-const healthBaseQuery = fetchBaseQuery({
-  baseUrl: getHealthBaseUrl(),
-  // Health endpoint doesn't require authentication
-  prepareHeaders: () => {
-    return new Headers();
-  },
-});
+// Health endpoint doesn't require authentication, so no headers are added
+const healthBaseQuery = createHttpBaseQuery({ baseUrl: getHealthBaseUrl() });
 
 export const healthApi = createApi({
   reducerPath: 'healthApi',
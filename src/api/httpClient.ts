@@ -0,0 +1,186 @@
+import { fetchBaseQuery } from '@reduxjs/toolkit/query/react';
+import type {
+  BaseQueryFn,
+  FetchArgs,
+  FetchBaseQueryArgs,
+  FetchBaseQueryError,
+  FetchBaseQueryMeta,
+} from '@reduxjs/toolkit/query/react';
+import { config } from '../config/env';
+
+/**
+ * HTTP transport shared by every API slice.
+ *
+ * Wraps fetchBaseQuery so all requests behave the same way:
+ * - Timeout: `config.apiTimeoutMs`, overridable per endpoint via `extraOptions.timeout`
+ * - Retries: GET requests that fail with a network error, timeout, 429 or 5xx are retried
+ *   with exponential backoff (`config.apiMaxRetries`, overridable via `extraOptions.maxRetries`).
+ *   A 429's `Retry-After` is honoured (the longer of it and the backoff); one longer than
+ *   `RETRY_AFTER_MAX_MS` is returned to the caller instead of retried. Waiting stops as soon as
+ *   the request is aborted. Other methods are never retried because they may not be idempotent.
+ * - Request ID: Every request carries an `X-Request-ID` header (kept across retries) so a
+ *   failure can be matched with the server logs
+ * - Errors: Every failure is normalised to `HttpError`, which always has a readable `data.message`
+ *   (and `data.retryAfter` from the `Retry-After` header on 429s)
+ *
+ * Authentication is layered on top by `baseApi` (see baseQueryWithReauth).
+ */
+
+export const REQUEST_ID_HEADER = 'X-Request-ID';
+
+// Backoff: 500ms, 1s, 2s, ... plus up to 250ms jitter so retrying tabs don't hit the server in lockstep
+const RETRY_BASE_DELAY_MS = 500;
+const RETRY_MAX_DELAY_MS = 8000;
+const RETRY_JITTER_MS = 250;
+// Longer Retry-After waits are left to the user (the error message says when to try again)
+const RETRY_AFTER_MAX_MS = 30000;
+
+const ERROR_NETWORK = 'Unable to reach the server. Check your connection and try again.';
+const ERROR_TIMEOUT = 'The server took too long to respond. Please try again.';
+const ERROR_PARSING = 'The server returned an unexpected response.';
+
+/**
+ * Normalised error returned by every API slice.
+ * `data` is the server's error body when it sent one, so `data.message` is its message.
+ */
+export interface HttpError {
+  // QUEUED: not sent because the app is offline; stored in the outbox for replay (see api/outbox.ts)
+  status: number | 'FETCH_ERROR' | 'TIMEOUT_ERROR' | 'PARSING_ERROR' | 'CUSTOM_ERROR' | 'QUEUED';
+  data: { message: string; [key: string]: unknown };
+  // null when the request was never sent (e.g. the session ended before it)
+  requestId: string | null;
+}
+
+/**
+ * Per-endpoint transport options, passed as `extraOptions` on an endpoint definition.
+ */
+export interface HttpExtraOptions {
+  timeout?: number;
+  maxRetries?: number;
+}
+
+export type HttpBaseQuery = BaseQueryFn<string | FetchArgs, unknown, HttpError, HttpExtraOptions, FetchBaseQueryMeta>;
+
+interface HttpClientOptions {
+  baseUrl: string;
+  // Defaults to no headers beyond the request ID (unauthenticated)
+  prepareHeaders?: FetchBaseQueryArgs['prepareHeaders'];
+}
+
+/**
+ * Generate a unique ID for a request (also used for outbox idempotency keys).
+ */
+export const createRequestId = (): string =>
+  typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function'
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+const isRetryableError = (error: FetchBaseQueryError): boolean => {
+  if (error.status === 'FETCH_ERROR' || error.status === 'TIMEOUT_ERROR') return true;
+  return typeof error.status === 'number' && (error.status === 429 || error.status >= 500);
+};
+
+const getRetryDelay = (attempt: number): number =>
+  Math.min(RETRY_BASE_DELAY_MS * 2 ** attempt, RETRY_MAX_DELAY_MS) + Math.random() * RETRY_JITTER_MS;
+
+/**
+ * Read a `Retry-After` header, which is either delay-seconds or an HTTP date.
+ *
+ * @returns Seconds to wait, or undefined when the header is missing or invalid
+ */
+const getRetryAfterSeconds = (response: Response | undefined): number | undefined => {
+  const header = response?.headers.get('Retry-After');
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(seconds, 0);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max((date - Date.now()) / 1000, 0);
+};
+
+// Resolves early when the request is aborted so a cancelled query doesn't sit out its backoff
+const wait = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    if (signal.aborted) {
+      resolve();
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+
+const getServerMessage = (data: unknown): string | undefined => {
+  if (data && typeof data === 'object' && 'message' in data && typeof data.message === 'string') {
+    return data.message;
+  }
+  return undefined;
+};
+
+/**
+ * Convert a fetchBaseQuery error into an HttpError.
+ */
+const normalizeError = (error: FetchBaseQueryError, requestId: string): HttpError => {
+  switch (error.status) {
+    case 'FETCH_ERROR':
+      return { status: error.status, data: { message: ERROR_NETWORK }, requestId };
+    case 'TIMEOUT_ERROR':
+      return { status: error.status, data: { message: ERROR_TIMEOUT }, requestId };
+    case 'PARSING_ERROR':
+      return { status: error.status, data: { message: ERROR_PARSING, originalStatus: error.originalStatus }, requestId };
+    case 'CUSTOM_ERROR':
+      return { status: error.status, data: { message: error.error }, requestId };
+    default: {
+      const body = error.data && typeof error.data === 'object' ? (error.data as Record<string, unknown>) : {};
+      const message = getServerMessage(error.data) || `Request failed with status ${error.status}`;
+      return { status: error.status, data: { ...body, message }, requestId };
+    }
+  }
+};
+
+/**
+ * Create a base query using the shared transport.
+ *
+ * @param options - Base URL and optional header preparation (e.g. authorization)
+ * @returns Base query for createApi
+ */
+export const createHttpBaseQuery = ({ baseUrl, prepareHeaders }: HttpClientOptions): HttpBaseQuery => {
+  const rawBaseQuery = fetchBaseQuery({ baseUrl, prepareHeaders, timeout: config.apiTimeoutMs });
+
+  return async (args, api, extraOptions = {}) => {
+    const requestId = createRequestId();
+    const fetchArgs: FetchArgs = typeof args === 'string' ? { url: args } : args;
+    const headers = new Headers(fetchArgs.headers as HeadersInit | undefined);
+    headers.set(REQUEST_ID_HEADER, requestId);
+
+    const request: FetchArgs = { ...fetchArgs, headers, timeout: extraOptions.timeout ?? fetchArgs.timeout };
+    const isIdempotent = (fetchArgs.method ?? 'GET').toUpperCase() === 'GET';
+    const maxRetries = isIdempotent ? (extraOptions.maxRetries ?? config.apiMaxRetries) : 0;
+
+    for (let attempt = 0; ; attempt++) {
+      const result = await rawBaseQuery(request, api, {});
+      if (!result.error) {
+        return { data: result.data, meta: result.meta };
+      }
+      const retryAfterSeconds = getRetryAfterSeconds(result.meta?.response);
+      const delay = Math.max(getRetryDelay(attempt), (retryAfterSeconds ?? 0) * 1000);
+      const canRetry =
+        attempt < maxRetries && isRetryableError(result.error) && delay <= RETRY_AFTER_MAX_MS;
+      if (canRetry) {
+        await wait(delay, api.signal);
+      }
+      if (!canRetry || api.signal.aborted) {
+        const error = normalizeError(result.error, requestId);
+        if (retryAfterSeconds !== undefined && error.data.retryAfter === undefined) {
+          error.data.retryAfter = retryAfterSeconds;
+        }
+        return { error, meta: result.meta };
+      }
+    }
+  };
+};
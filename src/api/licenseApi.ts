@@ -59,7 +59,7 @@ export const licenseApi = baseApi.injectEndpoints({
         body: data,
       }),
       transformResponse: (response: { data: { licenseKey: string; licenseId: number; status: string; expiresAt: string } }) => response.data,
-      invalidatesTags: ['License', 'Stats'],
+      invalidatesTags: ['License', 'Stats', 'Customer', 'Audit'],
     }),
     updateLicense: builder.mutation<License, { id: number; data: UpdateLicenseInput }>({
       query: ({ id, data }) => ({
@@ -68,21 +68,21 @@ export const licenseApi = baseApi.injectEndpoints({
         body: data,
       }),
       transformResponse: (response: { data: License }) => response.data,
-      invalidatesTags: (_result, _error, { id }) => [{ type: 'License', id }, 'License'],
+      invalidatesTags: (_result, _error, { id }) => [{ type: 'License', id }, 'License', 'Customer', 'Audit'],
     }),
     revokeLicense: builder.mutation<void, number>({
       query: (id) => ({
         url: `/admin/licenses/${id}`,
         method: 'DELETE',
       }),
-      invalidatesTags: (_result, _error, id) => [{ type: 'License', id }, 'License', 'Stats'],
+      invalidatesTags: (_result, _error, id) => [{ type: 'License', id }, 'License', 'Stats', 'Customer', 'Audit'],
     }),
     deleteLicense: builder.mutation<void, number>({
       query: (id) => ({
         url: `/admin/licenses/${id}/permanent`,
         method: 'DELETE',
       }),
-      invalidatesTags: (_result, _error, id) => [{ type: 'License', id }, 'License', 'Stats'],
+      invalidatesTags: (_result, _error, id) => [{ type: 'License', id }, 'License', 'Stats', 'Customer', 'Audit'],
     }),
     reactivateLicense: builder.mutation<
       { license: License; deactivatedActivations: number; message: string },
@@ -95,7 +95,7 @@ export const licenseApi = baseApi.injectEndpoints({
       transformResponse: (response: {
         data: { license: License; deactivatedActivations: number; message: string };
       }) => response.data,
-      invalidatesTags: (_result, _error, id) => [{ type: 'License', id }, 'License', 'Stats'],
+      invalidatesTags: (_result, _error, id) => [{ type: 'License', id }, 'License', 'Stats', 'Audit'],
     }),
     increaseUserLimit: builder.mutation<
       { id: number; licenseKey: string; userCount: number; userLimit: number; previousLimit: number },
@@ -109,7 +109,7 @@ export const licenseApi = baseApi.injectEndpoints({
       transformResponse: (response: {
         data: { id: number; licenseKey: string; userCount: number; userLimit: number; previousLimit: number };
       }) => response.data,
-      invalidatesTags: (_result, _error, { id }) => [{ type: 'License', id }, 'License'],
+      invalidatesTags: (_result, _error, { id }) => [{ type: 'License', id }, 'License', 'Audit'],
     }),
     exportLicensesCSV: builder.query<string, GetLicensesParams>({
       query: (params) => ({
@@ -148,5 +148,6 @@ export const {
   useReactivateLicenseMutation,
   useIncreaseUserLimitMutation,
   useLazyExportLicensesCSVQuery,
+  useGetLicenseByKeyQuery,
   useLazyGetLicenseByKeyQuery,
 } = licenseApi;
\ No newline at end of file
@@ -0,0 +1,88 @@
+import { baseApi } from './baseApi';
+import { config } from '../config/env';
+
+/**
+ * Live change events pushed by the server over Server-Sent Events.
+ *
+ * The server sends one JSON message per change to a license, activation or payment, whoever
+ * made it (another admin, or a POS activating in the field). `useLiveUpdates` invalidates the
+ * matching RTK Query tags so open pages refetch.
+ *
+ * EventSource can't send headers, so each connection is opened with a single-use stream ticket
+ * (`POST /admin/events/ticket`, authorised like any other request) in the query string instead of
+ * the access token. A ticket that ends up in a proxy or server log is useless once the stream has
+ * opened, and the open stream isn't tied to the access token, so token refreshes don't reconnect it.
+ */
+
+export const LIVE_EVENTS_URL = `${config.apiBaseUrl}/admin/events`;
+
+export interface LiveEventsTicket {
+  ticket: string;
+  // Seconds until an unused ticket expires
+  expiresIn: number;
+}
+
+export interface LiveEvent {
+  entity: 'license' | 'activation' | 'payment';
+  action: 'created' | 'updated' | 'deleted';
+  id: number;
+  licenseId: number;
+  // Sent with activation events so the toast can say where the POS is
+  licenseKey?: string;
+  locationName?: string | null;
+  machineName?: string | null;
+}
+
+type InvalidatedTags = Parameters<typeof baseApi.util.invalidateTags>[0];
+
+// Refetched after a reconnect, since events sent while disconnected are lost
+export const LIVE_EVENT_TAGS: InvalidatedTags = ['License', 'Activation', 'Payment', 'Stats', 'Notification'];
+
+export const liveEventsApi = baseApi.injectEndpoints({
+  endpoints: (builder) => ({
+    createLiveEventsTicket: builder.mutation<LiveEventsTicket, void>({
+      query: () => ({
+        url: '/admin/events/ticket',
+        method: 'POST',
+      }),
+      transformResponse: (response: { data: LiveEventsTicket }) => response.data,
+    }),
+  }),
+});
+
+/**
+ * Stream URL for a ticket from `createLiveEventsTicket`.
+ */
+export const getLiveEventsUrl = (ticket: string): string =>
+  `${LIVE_EVENTS_URL}?ticket=${encodeURIComponent(ticket)}`;
+
+const ENTITIES = new Set<LiveEvent['entity']>(['license', 'activation', 'payment']);
+
+/**
+ * Parse an SSE message body, ignoring anything that isn't a known event (e.g. keep-alives).
+ */
+export const parseLiveEvent = (data: string): LiveEvent | null => {
+  try {
+    const event = JSON.parse(data) as LiveEvent;
+    return event && ENTITIES.has(event.entity) && typeof event.licenseId === 'number' ? event : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Tags to invalidate for an event.
+ * Activations and payments change their license's detail page and the dashboard stats,
+ * but not the license list. Activation and license changes may raise notifications.
+ */
+export const getLiveEventTags = (event: LiveEvent): InvalidatedTags => {
+  const licenseTag = { type: 'License' as const, id: event.licenseId };
+  switch (event.entity) {
+    case 'activation':
+      return [{ type: 'Activation', id: event.id }, 'Activation', licenseTag, 'Stats', 'Notification'];
+    case 'payment':
+      return [{ type: 'Payment', id: event.id }, 'Payment', licenseTag, 'Stats'];
+    case 'license':
+      return [licenseTag, 'License', 'Stats', 'Notification'];
+  }
+};
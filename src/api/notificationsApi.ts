@@ -0,0 +1,37 @@
+import { baseApi } from './baseApi';
+import { AdminNotification } from '../types/notification.types';
+
+interface GetNotificationsResponse {
+  notifications: AdminNotification[];
+  unreadCount: number;
+}
+
+export const notificationsApi = baseApi.injectEndpoints({
+  endpoints: (builder) => ({
+    getNotifications: builder.query<GetNotificationsResponse, { limit?: number } | void>({
+      query: (params) => ({
+        url: '/admin/notifications',
+        params: { limit: params?.limit },
+      }),
+      transformResponse: (response: { data: GetNotificationsResponse }) => response.data,
+      providesTags: ['Notification'],
+    }),
+    markNotificationRead: builder.mutation<void, number>({
+      query: (id) => ({
+        url: `/admin/notifications/${id}/read`,
+        method: 'POST',
+      }),
+      invalidatesTags: ['Notification'],
+    }),
+    markAllNotificationsRead: builder.mutation<void, void>({
+      query: () => ({
+        url: '/admin/notifications/read-all',
+        method: 'POST',
+      }),
+      invalidatesTags: ['Notification'],
+    }),
+  }),
+});
+
+export const { useGetNotificationsQuery, useMarkNotificationReadMutation, useMarkAllNotificationsReadMutation } =
+  notificationsApi;
@@ -0,0 +1,81 @@
+import { forEachDbEntry, QUERY_CACHE_STORE, runDbRequest } from '../utils/offlineDb';
+
+/**
+ * Offline query cache.
+ *
+ * The last successful response of every query is persisted to IndexedDB under its RTK Query
+ * cache key. When the network is down, `baseApi` answers queries from here, so list and detail
+ * pages keep rendering the last-known data instead of an error.
+ *
+ * Entries are scoped to the admin who fetched them and are cleared on logout, since shop
+ * devices are shared.
+ *
+ * Performance optimizations:
+ * 1. Raw responses: The server body is stored before transformResponse, so nothing is
+ *    serialized twice and endpoints transform cached data exactly like fresh data
+ * 2. Fire and forget: Writes never delay the query that produced them
+ * 3. Pruning: Entries older than MAX_AGE_MS are removed once at startup
+ */
+
+const MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+interface CachedResponse {
+  data: unknown;
+  savedAt: number;
+}
+
+const getKey = (userId: number, queryCacheKey: string) => `${userId}:${queryCacheKey}`;
+
+/**
+ * Persist a successful query response.
+ */
+export const saveCachedResponse = (userId: number, queryCacheKey: string, data: unknown): void => {
+  const entry: CachedResponse = { data, savedAt: Date.now() };
+  runDbRequest(QUERY_CACHE_STORE, 'readwrite', (store) => store.put(entry, getKey(userId, queryCacheKey))).catch(
+    (error) => console.warn('Failed to persist query response:', error)
+  );
+};
+
+/**
+ * Read the last persisted response for a query.
+ *
+ * @returns Persisted response, or undefined if there is none
+ */
+export const loadCachedResponse = async (userId: number, queryCacheKey: string): Promise<unknown> => {
+  try {
+    const entry = await runDbRequest<CachedResponse | undefined>(QUERY_CACHE_STORE, 'readonly', (store) =>
+      store.get(getKey(userId, queryCacheKey))
+    );
+    return entry?.data;
+  } catch (error) {
+    console.warn('Failed to read persisted query response:', error);
+    return undefined;
+  }
+};
+
+/**
+ * Remove every persisted response (on logout).
+ */
+export const clearCachedResponses = async (): Promise<void> => {
+  try {
+    await runDbRequest(QUERY_CACHE_STORE, 'readwrite', (store) => store.clear());
+  } catch (error) {
+    console.warn('Failed to clear persisted query responses:', error);
+  }
+};
+
+/**
+ * Remove persisted responses older than MAX_AGE_MS.
+ */
+export const pruneCachedResponses = async (): Promise<void> => {
+  const cutoff = Date.now() - MAX_AGE_MS;
+  try {
+    await forEachDbEntry(QUERY_CACHE_STORE, (cursor) => {
+      if ((cursor.value as CachedResponse).savedAt < cutoff) {
+        cursor.delete();
+      }
+    });
+  } catch (error) {
+    console.warn('Failed to prune persisted query responses:', error);
+  }
+};
@@ -0,0 +1,119 @@
+import type { FetchArgs } from '@reduxjs/toolkit/query/react';
+import { OUTBOX_STORE, runDbRequest, updateDbEntry } from '../utils/offlineDb';
+import { OutboxItem } from '../types/offline.types';
+import { createRequestId } from './httpClient';
+
+/**
+ * Offline outbox.
+ *
+ * Mutations listed in OUTBOX_ENDPOINTS are not lost when the network is down: `baseApi` stores
+ * the request here and the caller gets a `QUEUED` error instead of a failure. The queue lives in
+ * IndexedDB, so it survives reloads, and is replayed in order when the connection returns
+ * (see features/offline/slice/offlineSync.ts).
+ *
+ * A replay the server rejects (e.g. the license was changed or revoked in the meantime) stays in
+ * the outbox as a conflict until the admin dismisses it, so nothing is dropped silently.
+ *
+ * Every outbox mutation carries an idempotency key, set before the first attempt and kept in the
+ * queued request, so the server can drop a change it already applied (a request that failed after
+ * reaching it, or a replay that was interrupted).
+ */
+
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+type OutboxTag = 'License' | 'Subscription' | 'Payment' | 'Stats' | 'Customer' | 'Audit';
+
+interface OutboxEndpointConfig {
+  // Shown in the offline banner's conflict list
+  label: string;
+  // Invalidated after a successful replay (mirrors the endpoint's own invalidatesTags)
+  invalidatesTags: OutboxTag[];
+}
+
+export const OUTBOX_ENDPOINTS: Record<string, OutboxEndpointConfig> = {
+  createPayment: {
+    label: 'New payment',
+    invalidatesTags: ['Payment', 'Subscription', 'License', 'Stats', 'Customer', 'Audit'],
+  },
+  updateLicense: { label: 'License update', invalidatesTags: ['License', 'Customer', 'Audit'] },
+  renewSubscription: {
+    label: 'Subscription renewal',
+    invalidatesTags: ['Subscription', 'License', 'Stats', 'Customer', 'Audit'],
+  },
+};
+
+/**
+ * Check whether a mutation endpoint is queued while offline.
+ */
+export const isOutboxEndpoint = (endpoint: string): boolean =>
+  Object.prototype.hasOwnProperty.call(OUTBOX_ENDPOINTS, endpoint);
+
+/**
+ * Add an idempotency key to a request, keeping the one it already has.
+ */
+export const withIdempotencyKey = (args: FetchArgs): FetchArgs => {
+  const headers = (args.headers ?? {}) as Record<string, string>;
+  if (headers[IDEMPOTENCY_KEY_HEADER]) return args;
+  return { ...args, headers: { ...headers, [IDEMPOTENCY_KEY_HEADER]: createRequestId() } };
+};
+
+/**
+ * Queue a mutation for replay.
+ *
+ * @param userId - Admin who made the change
+ * @param endpoint - RTK Query endpoint name
+ * @param args - Request to replay (must be serializable: url, method, body, plain-object headers)
+ */
+export const enqueueMutation = async (userId: number, endpoint: string, args: FetchArgs): Promise<void> => {
+  const { url, method, body, params, headers } = withIdempotencyKey(args);
+  const item: Omit<OutboxItem, 'id'> = {
+    userId,
+    endpoint,
+    args: { url, method, body, params, headers },
+    queuedAt: new Date().toISOString(),
+    status: 'pending',
+  };
+  await runDbRequest(OUTBOX_STORE, 'readwrite', (store) => store.add(item));
+};
+
+/**
+ * Read an admin's outbox, oldest first.
+ */
+export const getOutboxItems = async (userId: number): Promise<OutboxItem[]> => {
+  const items = await runDbRequest<OutboxItem[]>(OUTBOX_STORE, 'readonly', (store) => store.getAll());
+  return items.filter((item) => item.userId === userId).sort((a, b) => a.id - b.id);
+};
+
+/**
+ * Claim a pending item for sending. The check and the update run in one IndexedDB transaction,
+ * so an item is only ever claimed once.
+ *
+ * @returns The claimed item, or undefined if it is gone or no longer pending
+ */
+export const claimOutboxItem = (id: number): Promise<OutboxItem | undefined> =>
+  updateDbEntry<OutboxItem>(OUTBOX_STORE, id, (item) =>
+    item?.status === 'pending' ? { ...item, status: 'sending' } : undefined
+  );
+
+/**
+ * Put an item back in the queue (a replay that was paused or interrupted).
+ */
+export const releaseOutboxItem = async (item: OutboxItem): Promise<void> => {
+  const released: OutboxItem = { ...item, status: 'pending' };
+  await runDbRequest(OUTBOX_STORE, 'readwrite', (store) => store.put(released));
+};
+
+/**
+ * Remove an item (replayed successfully, or a conflict the admin dismissed).
+ */
+export const removeOutboxItem = async (id: number): Promise<void> => {
+  await runDbRequest(OUTBOX_STORE, 'readwrite', (store) => store.delete(id));
+};
+
+/**
+ * Keep a rejected replay as a conflict so the admin can see why it wasn't applied.
+ */
+export const markOutboxConflict = async (item: OutboxItem, conflictMessage: string): Promise<void> => {
+  const updated: OutboxItem = { ...item, status: 'conflict', conflictMessage };
+  await runDbRequest(OUTBOX_STORE, 'readwrite', (store) => store.put(updated));
+};
@@ -22,7 +22,7 @@ interface GetPaymentsResponse {
   };
 }
 
-interface PaymentWithLicense extends Payment {
+export interface PaymentWithLicense extends Payment {
   license?: {
     id: number;
     licenseKey: string;
@@ -92,7 +92,8 @@ export const paymentApi = baseApi.injectEndpoints({
         body,
       }),
       transformResponse: (response: { data: PaymentWithLicense }) => response.data,
-      invalidatesTags: ['Payment'],
+      // Annual payments extend the subscription and user payments raise the license's user limit
+      invalidatesTags: ['Payment', 'Subscription', 'License', 'Stats', 'Customer', 'Audit'],
     }),
   }),
 });
@@ -100,6 +101,7 @@ export const paymentApi = baseApi.injectEndpoints({
 export const {
   useGetPaymentsQuery,
   useGetPaymentByIdQuery,
+  useLazyGetPaymentByIdQuery,
   useLazyExportPaymentsCSVQuery,
   useCreatePaymentMutation,
 } = paymentApi;
\ No newline at end of file
@@ -1,5 +1,17 @@
 import { baseApi } from './baseApi';
 
+export interface SavedView {
+  id: string;
+  name: string;
+  // List route the view belongs to (e.g. /licenses)
+  path: string;
+  // Serialised list filters without the leading "?" (see useListParams)
+  query: string;
+  // Pinned views are listed in the sidebar
+  pinned: boolean;
+  createdAt: string;
+}
+
 export interface Preferences {
   general: {
     phoneNumberVerification: boolean;
@@ -10,12 +22,21 @@ export interface Preferences {
   licenseTypeVersion: {
     // Future license type version preferences will go here
   };
+  activations: {
+    // Active activations that haven't validated for this many days are flagged as stale
+    staleAfterDays: number;
+  };
+  // Named list filter presets shared by all admins
+  savedViews?: SavedView[];
 }
 
 export interface UpdatePreferencesRequest {
   general?: Partial<Preferences['general']>;
   customer?: Partial<Preferences['customer']>;
   licenseTypeVersion?: Partial<Preferences['licenseTypeVersion']>;
+  activations?: Partial<Preferences['activations']>;
+  // Replaces the whole list
+  savedViews?: SavedView[];
 }
 
 export const preferencesApi = baseApi.injectEndpoints({
@@ -27,6 +27,36 @@ export interface DashboardStats {
   };
 }
 
+export type StatsInterval = 'day' | 'week' | 'month';
+
+export interface StatsTimeSeriesPoint {
+  // Start of the bucket (UTC ISO date)
+  bucket: string;
+  revenue: number;
+  activations: number;
+}
+
+export interface StatsTimeSeries {
+  interval: StatsInterval;
+  current: StatsTimeSeriesPoint[];
+  // Same-length period immediately before the requested range (empty unless compare is requested)
+  previous: StatsTimeSeriesPoint[];
+}
+
+export interface GetStatsTimeSeriesParams {
+  startDate: string;
+  endDate: string;
+  interval: StatsInterval;
+  compare?: boolean;
+}
+
+// Amounts may arrive as strings from decimal columns
+const toTimeSeriesPoint = (point: StatsTimeSeriesPoint): StatsTimeSeriesPoint => ({
+  bucket: point.bucket,
+  revenue: Number(point.revenue) || 0,
+  activations: Number(point.activations) || 0,
+});
+
 export const statsApi = baseApi.injectEndpoints({
   endpoints: (builder) => ({
     getDashboardStats: builder.query<DashboardStats, void>({
@@ -106,7 +136,32 @@ export const statsApi = baseApi.injectEndpoints({
         };
       },
     }),
+    getStatsTimeSeries: builder.query<StatsTimeSeries, GetStatsTimeSeriesParams>({
+      query: (params) => ({
+        url: '/admin/stats/timeseries',
+        params: {
+          startDate: params.startDate,
+          endDate: params.endDate,
+          interval: params.interval,
+          compare: params.compare,
+        },
+      }),
+      providesTags: ['Stats'],
+      // Performance optimization: Time series are aggregated server-side; cache for 2 minutes like dashboard stats
+      keepUnusedDataFor: 120,
+      transformResponse: (response: {
+        data: {
+          interval: StatsInterval;
+          current: StatsTimeSeriesPoint[];
+          previous?: StatsTimeSeriesPoint[];
+        };
+      }): StatsTimeSeries => ({
+        interval: response.data.interval,
+        current: response.data.current.map(toTimeSeriesPoint),
+        previous: (response.data.previous || []).map(toTimeSeriesPoint),
+      }),
+    }),
   }),
 });
 
-export const { useGetDashboardStatsQuery } = statsApi;
\ No newline at end of file
+export const { useGetDashboardStatsQuery, useGetStatsTimeSeriesQuery } = statsApi;
\ No newline at end of file
@@ -25,7 +25,7 @@ interface GetSubscriptionsResponse {
   };
 }
 
-interface SubscriptionWithLicense extends Subscription {
+export interface SubscriptionWithLicense extends Subscription {
   license?: {
     id: number;
     licenseKey: string;
@@ -74,13 +74,14 @@ export const subscriptionApi = baseApi.injectEndpoints({
         method: 'POST',
       }),
       transformResponse: (response: { data: RenewSubscriptionResponse }) => response.data,
-      invalidatesTags: (_result, _error, id) => [{ type: 'Subscription', id }, 'Subscription', 'License', 'Stats'],
+      invalidatesTags: (_result, _error, id) => [{ type: 'Subscription', id }, 'Subscription', 'License', 'Stats', 'Customer', 'Audit'],
     }),
   }),
 });
 
 export const {
   useGetSubscriptionsQuery,
+  useLazyGetSubscriptionsQuery,
   useGetSubscriptionByIdQuery,
   useRenewSubscriptionMutation,
 } = subscriptionApi;
\ No newline at end of file
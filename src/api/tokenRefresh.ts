@@ -0,0 +1,82 @@
+import { store } from '../store';
+import { config } from '../config/env';
+import { tokenRefreshed } from '../features/auth/slice/authSlice';
+
+/**
+ * Access token refresh.
+ *
+ * Exchanges the stored refresh token for a new access/refresh token pair.
+ * Used by `baseQueryWithReauth` (on 401 and near expiry) and `useSessionExpiry` (idle sessions).
+ *
+ * Performance optimizations:
+ * 1. Single flight: Concurrent callers share one in-flight refresh, so a burst of requests
+ *    that all hit an expired token results in exactly one refresh call
+ * 2. Plain fetch: Bypasses RTK Query so the refresh itself is never queued behind a refresh
+ */
+
+// - refreshed: new tokens are in the store
+// - rejected: there is no refresh token or the server refused it; the session is over
+// - unavailable: the server couldn't be reached; keep the session and let the request fail normally
+export type RefreshResult = 'refreshed' | 'rejected' | 'unavailable';
+
+const REFRESH_URL = `${config.apiBaseUrl}/admin/refresh`;
+
+let refreshPromise: Promise<RefreshResult> | null = null;
+
+const performRefresh = async (): Promise<RefreshResult> => {
+  const { refreshToken } = store.getState().auth;
+  if (!refreshToken) {
+    return 'rejected';
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(REFRESH_URL, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ refreshToken }),
+    });
+  } catch (error) {
+    console.warn('Token refresh failed: server unreachable', error);
+    return 'unavailable';
+  }
+
+  // Server errors are transient; only client errors (expired/revoked refresh token) end the session
+  if (response.status >= 500) {
+    return 'unavailable';
+  }
+  if (!response.ok) {
+    // Refresh tokens are single-use: another tab may have rotated ours first.
+    // Its new pair is already in localStorage, so adopt it instead of logging out.
+    const storedToken = localStorage.getItem('token');
+    const storedRefreshToken = localStorage.getItem('refreshToken');
+    if (storedToken && storedRefreshToken && storedRefreshToken !== refreshToken) {
+      store.dispatch(tokenRefreshed({ token: storedToken, refreshToken: storedRefreshToken }));
+      return 'refreshed';
+    }
+    return 'rejected';
+  }
+
+  try {
+    const body = (await response.json()) as { data: { token: string; refreshToken: string } };
+    store.dispatch(tokenRefreshed(body.data));
+    return 'refreshed';
+  } catch (error) {
+    console.error('Token refresh failed: invalid response', error);
+    return 'rejected';
+  }
+};
+
+/**
+ * Refresh the access token, sharing the in-flight refresh between concurrent callers.
+ *
+ * @returns Outcome of the refresh
+ */
+export const refreshAccessToken = (): Promise<RefreshResult> => {
+  if (!refreshPromise) {
+    refreshPromise = performRefresh().finally(() => {
+      refreshPromise = null;
+    });
+  }
+  return refreshPromise;
+};
@@ -0,0 +1,151 @@
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogContentText,
+  DialogTitle,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import { memo, useCallback, useMemo } from 'react';
+import { useGetActivationsQuery } from '../../api/activationApi';
+import { Activation } from '../../types/license.types';
+import { formatDateTime } from '../../utils/formatters';
+
+// Constants
+const PREVIEW_LIMIT = 100;
+const ERROR_LOADING_PREVIEW = 'Failed to load stale activations. Please try again.';
+
+// Extract sx props to constants to prevent recreation on every render
+const loadingBoxSx = { display: 'flex', justifyContent: 'center', py: 3 };
+const alertSx = { mt: 2 };
+const tableContainerSx = { maxHeight: 360, mt: 2 };
+const hardwareIdCellSx = { fontFamily: 'monospace', fontSize: '0.75rem', wordBreak: 'break-all' };
+
+interface DeactivateStaleDialogProps {
+  open: boolean;
+  staleAfterDays: number;
+  // From getStaleCutoff, so the preview matches the rows flagged in the table
+  cutoff: string;
+  onCancel: () => void;
+  onConfirm: (activations: Activation[]) => void;
+}
+
+/**
+ * Preview of the stale activations a cleanup would deactivate, longest unseen first.
+ *
+ * At most PREVIEW_LIMIT activations are deactivated per run, and only the ones shown, so the
+ * admin always sees exactly what will change.
+ */
+function DeactivateStaleDialogComponent({
+  open,
+  staleAfterDays,
+  cutoff,
+  onCancel,
+  onConfirm,
+}: DeactivateStaleDialogProps) {
+  const { data, isFetching, error } = useGetActivationsQuery(
+    {
+      page: 1,
+      limit: PREVIEW_LIMIT,
+      isActive: true,
+      validatedBefore: cutoff,
+      sortBy: 'lastValidation',
+      sortOrder: 'asc',
+    },
+    { skip: !open, refetchOnMountOrArgChange: true }
+  );
+
+  const activations = useMemo(() => data?.activations || [], [data]);
+  const totalStale = data?.pagination.totalItems ?? 0;
+
+  // Memoize handleConfirm to prevent recreation on every render
+  const handleConfirm = useCallback(() => {
+    onConfirm(activations);
+  }, [onConfirm, activations]);
+
+  return (
+    <Dialog open={open} onClose={onCancel} fullWidth maxWidth="md">
+      <DialogTitle>Deactivate Stale Activations</DialogTitle>
+      <DialogContent>
+        <DialogContentText>
+          {`Active activations that haven't validated in the last ${staleAfterDays} days. Deactivating them frees their seats; customers can activate again with their license key if a machine comes back.`}
+        </DialogContentText>
+        {isFetching ? (
+          <Box sx={loadingBoxSx}>
+            <CircularProgress size={32} />
+          </Box>
+        ) : error ? (
+          <Alert severity="error" sx={alertSx}>
+            {ERROR_LOADING_PREVIEW}
+          </Alert>
+        ) : activations.length === 0 ? (
+          <Alert severity="success" sx={alertSx}>
+            No stale activations found.
+          </Alert>
+        ) : (
+          <>
+            {totalStale > activations.length && (
+              <Alert severity="info" sx={alertSx}>
+                {`Showing the ${activations.length} longest unseen of ${totalStale} stale activations. Run the cleanup again for the rest.`}
+              </Alert>
+            )}
+            <TableContainer sx={tableContainerSx}>
+              <Table size="small" stickyHeader>
+                <TableHead>
+                  <TableRow>
+                    <TableCell>License ID</TableCell>
+                    <TableCell>Hardware ID</TableCell>
+                    <TableCell>Machine Name</TableCell>
+                    <TableCell>Last Validation</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {activations.map((activation) => (
+                    <TableRow key={activation.id}>
+                      <TableCell>{activation.licenseId}</TableCell>
+                      <TableCell sx={hardwareIdCellSx}>{activation.hardwareId}</TableCell>
+                      <TableCell>{activation.machineName || '-'}</TableCell>
+                      <TableCell>
+                        {activation.lastValidation ? (
+                          formatDateTime(activation.lastValidation)
+                        ) : (
+                          <Typography variant="body2" color="text.secondary">
+                            {`Never (activated ${formatDateTime(activation.activatedAt)})`}
+                          </Typography>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onCancel}>Cancel</Button>
+        <Button
+          onClick={handleConfirm}
+          variant="contained"
+          color="warning"
+          disabled={isFetching || !!error || activations.length === 0}
+        >
+          {`Deactivate ${activations.length}`}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
+
+// Memoize the component to prevent unnecessary re-renders when parent re-renders
+export const DeactivateStaleDialog = memo(DeactivateStaleDialogComponent);
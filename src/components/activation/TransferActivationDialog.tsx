@@ -0,0 +1,161 @@
+import {
+  Alert,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogContentText,
+  DialogTitle,
+  TextField,
+} from '@mui/material';
+import { memo, useCallback, useState } from 'react';
+import { useTransferActivationMutation } from '../../api/activationApi';
+import { Activation, HardwareBinding } from '../../types/license.types';
+import { useApiErrorHandler } from '../../hooks/useApiErrorHandler';
+
+// Constants
+const MAX_REASON_LENGTH = 500;
+const ERROR_TRANSFER = 'Failed to transfer activation. Please try again.';
+const ERROR_HARDWARE_ID_REQUIRED = 'New hardware ID is required';
+const ERROR_SAME_HARDWARE_ID = 'New hardware ID must be different from the current one';
+const ERROR_REASON_REQUIRED = 'Reason is required';
+const ERROR_REASON_TOO_LONG = `Reason must be at most ${MAX_REASON_LENGTH} characters`;
+
+// Extract sx props to constants to prevent recreation on every render
+const alertSx = { mb: 2 };
+const fieldSx = { mt: 2 };
+const hardwareIdInputSx = { fontFamily: 'monospace' };
+
+interface TransferActivationDialogProps {
+  open: boolean;
+  activation: Activation;
+  onClose: () => void;
+  // Called with the new (pending) hardware binding once the transfer is done
+  onTransferred: (binding: HardwareBinding) => void;
+}
+
+/**
+ * Move a license to replacement hardware in one step: the current activation is deactivated and
+ * the new hardware ID is pre-authorised, so the customer can activate the new machine right away.
+ */
+function TransferActivationDialogComponent({
+  open,
+  activation,
+  onClose,
+  onTransferred,
+}: TransferActivationDialogProps) {
+  const { handleApiError } = useApiErrorHandler();
+  const [transferActivation, { isLoading }] = useTransferActivationMutation();
+
+  const [newHardwareId, setNewHardwareId] = useState('');
+  const [reason, setReason] = useState('');
+  const [hardwareIdError, setHardwareIdError] = useState('');
+  const [reasonError, setReasonError] = useState('');
+
+  const resetForm = useCallback(() => {
+    setNewHardwareId('');
+    setReason('');
+    setHardwareIdError('');
+    setReasonError('');
+  }, []);
+
+  const handleClose = useCallback(() => {
+    resetForm();
+    onClose();
+  }, [resetForm, onClose]);
+
+  // Memoize handleSubmit to prevent recreation on every render
+  const handleSubmit = useCallback(async () => {
+    const trimmedHardwareId = newHardwareId.trim();
+    const trimmedReason = reason.trim();
+
+    let hasError = false;
+    if (!trimmedHardwareId) {
+      setHardwareIdError(ERROR_HARDWARE_ID_REQUIRED);
+      hasError = true;
+    } else if (trimmedHardwareId === activation.hardwareId) {
+      setHardwareIdError(ERROR_SAME_HARDWARE_ID);
+      hasError = true;
+    } else {
+      setHardwareIdError('');
+    }
+
+    if (!trimmedReason) {
+      setReasonError(ERROR_REASON_REQUIRED);
+      hasError = true;
+    } else if (trimmedReason.length > MAX_REASON_LENGTH) {
+      setReasonError(ERROR_REASON_TOO_LONG);
+      hasError = true;
+    } else {
+      setReasonError('');
+    }
+
+    if (hasError) return;
+
+    try {
+      const binding = await transferActivation({
+        id: activation.id,
+        data: { newHardwareId: trimmedHardwareId, reason: trimmedReason },
+      }).unwrap();
+      resetForm();
+      onTransferred(binding);
+    } catch (err) {
+      handleApiError(err, {
+        fallbackMessage: ERROR_TRANSFER,
+        setFieldError: (field, message) => {
+          if (field === 'newHardwareId') setHardwareIdError(message);
+          if (field === 'reason') setReasonError(message);
+        },
+      });
+    }
+  }, [newHardwareId, reason, activation, transferActivation, resetForm, onTransferred, handleApiError]);
+
+  return (
+    <Dialog open={open} onClose={handleClose} fullWidth maxWidth="sm">
+      <DialogTitle>Transfer to New Hardware</DialogTitle>
+      <DialogContent>
+        <Alert severity="warning" sx={alertSx}>
+          {`${activation.machineName || activation.hardwareId} will be deactivated immediately and can no longer use this license.`}
+        </Alert>
+        <DialogContentText>
+          The new hardware ID is authorised in advance, so the customer only needs to enter their license key
+          on the replacement machine.
+        </DialogContentText>
+        <TextField
+          autoFocus
+          fullWidth
+          label="New Hardware ID"
+          value={newHardwareId}
+          onChange={(e) => setNewHardwareId(e.target.value)}
+          error={!!hardwareIdError}
+          helperText={hardwareIdError || 'Shown in the desktop application on the replacement machine'}
+          inputProps={{ style: hardwareIdInputSx }}
+          sx={fieldSx}
+        />
+        <TextField
+          fullWidth
+          multiline
+          minRows={2}
+          label="Reason"
+          placeholder="e.g. POS terminal replaced after hardware failure"
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          error={!!reasonError}
+          helperText={reasonError || 'Recorded in the audit log and the hardware history'}
+          sx={fieldSx}
+        />
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={handleClose} disabled={isLoading}>
+          Cancel
+        </Button>
+        <Button onClick={handleSubmit} variant="contained" color="warning" disabled={isLoading}>
+          {isLoading ? 'Transferring...' : 'Transfer'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
+
+// Memoize the component to prevent unnecessary re-renders when parent re-renders
+export const TransferActivationDialog = memo(TransferActivationDialogComponent);
@@ -0,0 +1,170 @@
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogContentText,
+  DialogActions,
+  Button,
+  TextField,
+  MenuItem,
+} from '@mui/material';
+import { memo, useCallback, useState } from 'react';
+import { useInviteAdminUserMutation } from '../../features/auth/slice/authApi';
+import { AdminRole } from '../../types/auth.types';
+import { ADMIN_ROLE_LABEL_MAP } from '../../utils/formatters';
+import { useApiErrorHandler } from '../../hooks/useApiErrorHandler';
+
+// Constants
+const MIN_USERNAME_LENGTH = 3;
+const DEFAULT_ROLE: AdminRole = 'viewer';
+const ERROR_INVITE = 'Failed to invite admin. Please try again.';
+const ERROR_USERNAME_REQUIRED = 'Username is required';
+const ERROR_USERNAME_TOO_SHORT = `Username must be at least ${MIN_USERNAME_LENGTH} characters`;
+const ERROR_USERNAME_INVALID = 'Username can only contain letters, numbers, and underscores';
+const ERROR_INVALID_PHONE = 'Please enter a valid phone number';
+
+// Validation regexes - match server validation (same as the profile form in Settings)
+const USERNAME_REGEX = /^[a-zA-Z0-9_]+$/;
+const PHONE_REGEX = /^[+]?[(]?[0-9]{1,4}[)]?[-\s.]?[(]?[0-9]{1,4}[)]?[-\s.]?[0-9]{1,9}$/;
+
+const roleOptions = (Object.entries(ADMIN_ROLE_LABEL_MAP) as [AdminRole, string][]).map(([value, label]) => ({
+  value,
+  label,
+}));
+
+// Extract sx props to constants to prevent recreation on every render
+const fieldSx = { mt: 2 };
+
+interface InviteAdminDialogProps {
+  open: boolean;
+  onClose: () => void;
+  // Called with the server-generated temporary password once the admin is created
+  onInvited: (username: string, temporaryPassword: string) => void;
+}
+
+function InviteAdminDialogComponent({ open, onClose, onInvited }: InviteAdminDialogProps) {
+  const { handleApiError } = useApiErrorHandler();
+  const [inviteAdminUser, { isLoading }] = useInviteAdminUserMutation();
+
+  const [username, setUsername] = useState('');
+  const [phone, setPhone] = useState('');
+  const [role, setRole] = useState<AdminRole>(DEFAULT_ROLE);
+  const [usernameError, setUsernameError] = useState('');
+  const [phoneError, setPhoneError] = useState('');
+
+  const resetForm = useCallback(() => {
+    setUsername('');
+    setPhone('');
+    setRole(DEFAULT_ROLE);
+    setUsernameError('');
+    setPhoneError('');
+  }, []);
+
+  const handleClose = useCallback(() => {
+    resetForm();
+    onClose();
+  }, [resetForm, onClose]);
+
+  // Memoize handleSubmit to prevent recreation on every render
+  const handleSubmit = useCallback(async () => {
+    const trimmedUsername = username.trim();
+    const trimmedPhone = phone.trim();
+
+    let hasError = false;
+    if (!trimmedUsername) {
+      setUsernameError(ERROR_USERNAME_REQUIRED);
+      hasError = true;
+    } else if (trimmedUsername.length < MIN_USERNAME_LENGTH) {
+      setUsernameError(ERROR_USERNAME_TOO_SHORT);
+      hasError = true;
+    } else if (!USERNAME_REGEX.test(trimmedUsername)) {
+      setUsernameError(ERROR_USERNAME_INVALID);
+      hasError = true;
+    } else {
+      setUsernameError('');
+    }
+
+    if (trimmedPhone && !PHONE_REGEX.test(trimmedPhone)) {
+      setPhoneError(ERROR_INVALID_PHONE);
+      hasError = true;
+    } else {
+      setPhoneError('');
+    }
+
+    if (hasError) return;
+
+    try {
+      const result = await inviteAdminUser({
+        username: trimmedUsername,
+        phone: trimmedPhone || undefined,
+        role,
+      }).unwrap();
+      resetForm();
+      onInvited(result.user.username, result.temporaryPassword);
+    } catch (err) {
+      handleApiError(err, {
+        fallbackMessage: ERROR_INVITE,
+        setFieldError: (field, message) => {
+          if (field === 'username') setUsernameError(message);
+          if (field === 'phone') setPhoneError(message);
+        },
+      });
+    }
+  }, [username, phone, role, inviteAdminUser, resetForm, onInvited, handleApiError]);
+
+  return (
+    <Dialog open={open} onClose={handleClose} fullWidth maxWidth="xs">
+      <DialogTitle>Invite Admin</DialogTitle>
+      <DialogContent>
+        <DialogContentText>
+          A temporary password will be generated. Share it with your colleague; they should change it after
+          their first login.
+        </DialogContentText>
+        <TextField
+          autoFocus
+          fullWidth
+          label="Username"
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+          error={!!usernameError}
+          helperText={usernameError || 'Letters, numbers, and underscores'}
+          sx={fieldSx}
+        />
+        <TextField
+          fullWidth
+          label="Phone (optional)"
+          value={phone}
+          onChange={(e) => setPhone(e.target.value)}
+          error={!!phoneError}
+          helperText={phoneError || 'Used for login verification codes'}
+          sx={fieldSx}
+        />
+        <TextField
+          fullWidth
+          select
+          label="Role"
+          value={role}
+          onChange={(e) => setRole(e.target.value as AdminRole)}
+          sx={fieldSx}
+        >
+          {roleOptions.map((option) => (
+            <MenuItem key={option.value} value={option.value}>
+              {option.label}
+            </MenuItem>
+          ))}
+        </TextField>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={handleClose} disabled={isLoading}>
+          Cancel
+        </Button>
+        <Button onClick={handleSubmit} variant="contained" disabled={isLoading}>
+          {isLoading ? 'Inviting...' : 'Invite'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
+
+// Memoize the component to prevent unnecessary re-renders when parent re-renders
+export const InviteAdminDialog = memo(InviteAdminDialogComponent);
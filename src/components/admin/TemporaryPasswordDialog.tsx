@@ -0,0 +1,100 @@
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogContentText,
+  DialogActions,
+  Button,
+  Box,
+  Typography,
+  IconButton,
+  Tooltip,
+  Alert,
+} from '@mui/material';
+import { ContentCopy as CopyIcon, Check as CheckIcon } from '@mui/icons-material';
+import { memo, useCallback, useEffect, useRef, useState } from 'react';
+
+// Constants
+const COPY_FEEDBACK_TIMEOUT = 2000; // milliseconds
+
+// Extract sx props to constants to prevent recreation on every render
+const passwordBoxSx = {
+  display: 'flex',
+  alignItems: 'center',
+  gap: 1,
+  mt: 2,
+  p: 1.5,
+  bgcolor: 'background.default',
+  borderRadius: 1,
+};
+const passwordTypographySx = { fontFamily: 'monospace', fontSize: '1.1rem', flexGrow: 1 };
+const alertSx = { mt: 2 };
+
+interface TemporaryPasswordDialogProps {
+  open: boolean;
+  username: string;
+  temporaryPassword: string;
+  onClose: () => void;
+}
+
+/**
+ * Shows a server-generated temporary password once.
+ * The password is not stored anywhere in the panel, so it can't be shown again after closing.
+ */
+function TemporaryPasswordDialogComponent({ open, username, temporaryPassword, onClose }: TemporaryPasswordDialogProps) {
+  const [copied, setCopied] = useState(false);
+  const copyTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+
+  // Cleanup timeout on unmount
+  useEffect(() => {
+    return () => {
+      if (copyTimeoutRef.current) {
+        clearTimeout(copyTimeoutRef.current);
+      }
+    };
+  }, []);
+
+  const handleCopy = useCallback(async () => {
+    try {
+      await navigator.clipboard.writeText(temporaryPassword);
+      setCopied(true);
+      if (copyTimeoutRef.current) {
+        clearTimeout(copyTimeoutRef.current);
+      }
+      copyTimeoutRef.current = setTimeout(() => {
+        setCopied(false);
+        copyTimeoutRef.current = null;
+      }, COPY_FEEDBACK_TIMEOUT);
+    } catch (err) {
+      console.error('Failed to copy password:', err);
+    }
+  }, [temporaryPassword]);
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="xs">
+      <DialogTitle>Temporary Password</DialogTitle>
+      <DialogContent>
+        <DialogContentText>Temporary password for {username}:</DialogContentText>
+        <Box sx={passwordBoxSx}>
+          <Typography sx={passwordTypographySx}>{temporaryPassword}</Typography>
+          <Tooltip title={copied ? 'Copied!' : 'Copy password'}>
+            <IconButton onClick={handleCopy} color="primary" size="small">
+              {copied ? <CheckIcon fontSize="small" /> : <CopyIcon fontSize="small" />}
+            </IconButton>
+          </Tooltip>
+        </Box>
+        <Alert severity="warning" sx={alertSx}>
+          This password won't be shown again. Share it securely and ask them to change it after logging in.
+        </Alert>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} variant="contained">
+          Done
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
+
+// Memoize the component to prevent unnecessary re-renders when parent re-renders
+export const TemporaryPasswordDialog = memo(TemporaryPasswordDialogComponent);
@@ -0,0 +1,143 @@
+import { Box, Chip, Link, Typography } from '@mui/material';
+import { memo, useMemo } from 'react';
+import { DataTable, Column } from '../common/DataTable/DataTable';
+import { AuditLogEntry, AuditEntityType } from '../../types/audit.types';
+import { formatDateTime, formatAuditValue, getAuditActionLabel, getAuditActionColor } from '../../utils/formatters';
+
+interface AuditLogTableProps {
+  entries: AuditLogEntry[];
+  page: number;
+  rowsPerPage: number;
+  totalRows: number;
+  onPageChange: (page: number) => void;
+  onRowsPerPageChange: (rowsPerPage: number) => void;
+  loading?: boolean;
+  // Show the entity column (used by the global audit page)
+  showEntity?: boolean;
+  onEntityClick?: (entityType: AuditEntityType, entityId: number) => void;
+  sortBy?: string;
+  sortOrder?: 'asc' | 'desc';
+  onSortChange?: (sortBy: string, sortOrder: 'asc' | 'desc') => void;
+}
+
+const ENTITY_LABELS: Record<AuditEntityType, string> = {
+  license: 'License',
+  activation: 'Activation',
+  subscription: 'Subscription',
+  payment: 'Payment',
+};
+
+// Extract sx props to constants to prevent recreation on every render
+const changeRowSx = { display: 'flex', flexWrap: 'wrap', gap: 0.5, alignItems: 'baseline' };
+const fieldNameSx = { fontWeight: 600 };
+const beforeValueSx = { textDecoration: 'line-through', color: 'text.secondary' };
+const entityLinkSx = { cursor: 'pointer' };
+
+function AuditLogTableComponent({
+  entries,
+  page,
+  rowsPerPage,
+  totalRows,
+  onPageChange,
+  onRowsPerPageChange,
+  loading = false,
+  showEntity = false,
+  onEntityClick,
+  sortBy,
+  sortOrder,
+  onSortChange,
+}: AuditLogTableProps) {
+  // Memoize columns array to prevent recreation on every render
+  const columns: Column<AuditLogEntry>[] = useMemo(
+    () => [
+      {
+        id: 'createdAt',
+        label: 'When',
+        minWidth: 160,
+        sortable: true,
+        format: (value: unknown) => formatDateTime(value as string),
+      },
+      ...(showEntity
+        ? [
+            {
+              id: 'entityId',
+              label: 'Entity',
+              minWidth: 130,
+              format: (_value: unknown, row: AuditLogEntry) =>
+                onEntityClick ? (
+                  <Link sx={entityLinkSx} onClick={() => onEntityClick(row.entityType, row.entityId)}>
+                    {ENTITY_LABELS[row.entityType]} #{row.entityId}
+                  </Link>
+                ) : (
+                  `${ENTITY_LABELS[row.entityType]} #${row.entityId}`
+                ),
+            },
+          ]
+        : []),
+      {
+        id: 'action',
+        label: 'Action',
+        minWidth: 140,
+        format: (_value: unknown, row: AuditLogEntry) => (
+          <Chip label={getAuditActionLabel(row.action)} color={getAuditActionColor(row.action)} size="small" />
+        ),
+      },
+      {
+        id: 'actor',
+        label: 'By',
+        minWidth: 120,
+        format: (_value: unknown, row: AuditLogEntry) => row.actor?.username || 'System',
+      },
+      {
+        id: 'changes',
+        label: 'Changes',
+        minWidth: 280,
+        format: (_value: unknown, row: AuditLogEntry) =>
+          row.changes.length > 0 ? (
+            <Box>
+              {row.changes.map((change) => (
+                <Box key={change.field} sx={changeRowSx}>
+                  <Typography variant="body2" sx={fieldNameSx}>
+                    {change.field}:
+                  </Typography>
+                  <Typography variant="body2" sx={beforeValueSx}>
+                    {formatAuditValue(change.before)}
+                  </Typography>
+                  <Typography variant="body2">→ {formatAuditValue(change.after)}</Typography>
+                </Box>
+              ))}
+            </Box>
+          ) : (
+            '-'
+          ),
+      },
+      {
+        id: 'ipAddress',
+        label: 'IP Address',
+        minWidth: 120,
+        format: (value: unknown) => (value as string | null) || '-',
+      },
+    ],
+    [showEntity, onEntityClick]
+  );
+
+  return (
+    <DataTable
+      columns={columns}
+      rows={entries}
+      page={page}
+      rowsPerPage={rowsPerPage}
+      totalRows={totalRows}
+      onPageChange={onPageChange}
+      onRowsPerPageChange={onRowsPerPageChange}
+      loading={loading}
+      emptyMessage="No history recorded"
+      sortBy={sortBy}
+      sortOrder={sortOrder}
+      onSortChange={onSortChange}
+    />
+  );
+}
+
+// Memoize the component to prevent unnecessary re-renders when parent re-renders
+export const AuditLogTable = memo(AuditLogTableComponent);
@@ -0,0 +1,307 @@
+import {
+  Box,
+  CircularProgress,
+  Dialog,
+  InputAdornment,
+  List,
+  ListItemButton,
+  ListItemIcon,
+  ListItemText,
+  ListSubheader,
+  TextField,
+  Typography,
+} from '@mui/material';
+import {
+  Search as SearchIcon,
+  VpnKey as LicenseIcon,
+  Devices as ActivationIcon,
+  ArrowForward as NavigateIcon,
+  Add as CreateIcon,
+} from '@mui/icons-material';
+import { memo, useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useSelector } from 'react-redux';
+import { RootState } from '../../../store';
+import { routes } from '../../../config/routes';
+import { hasPermission, Permission } from '../../../config/permissions';
+import { useGetLicensesQuery, useGetLicenseByKeyQuery } from '../../../api/licenseApi';
+import { useGetActivationsQuery } from '../../../api/activationApi';
+import { License } from '../../../types/license.types';
+
+// Constants
+const DEBOUNCE_DELAY = 250; // ms
+const MIN_SEARCH_LENGTH = 2;
+const RESULT_LIMIT = 5;
+// License keys are dash-separated groups, e.g. ABCD-1234-EFGH-5678
+const LICENSE_KEY_PATTERN = /^[A-Z0-9]{4,}(-[A-Z0-9]{4,})+$/i;
+
+interface NavigationCommand {
+  label: string;
+  path: string;
+  // Extra words matched by the search, e.g. "new" for "Create License"
+  keywords?: string;
+  isCreate?: boolean;
+  permission?: Permission;
+}
+
+const NAVIGATION_COMMANDS: NavigationCommand[] = [
+  { label: 'Create License', path: routes.licenses.create, keywords: 'new add', isCreate: true, permission: 'licenses.manage' },
+  { label: 'Add Payment', path: routes.payments.create, keywords: 'new record create', isCreate: true, permission: 'payments.create' },
+  { label: 'Reactivate License', path: routes.licenses.reactivate, keywords: 'renew expired', permission: 'licenses.manage' },
+  { label: 'Increase User Limit', path: routes.licenses.increaseUserLimit, keywords: 'users seats', permission: 'licenses.manage' },
+  { label: 'Dashboard', path: routes.dashboard, keywords: 'home stats' },
+  { label: 'Licenses', path: routes.licenses.list },
+  { label: 'Activations', path: routes.activations.list, keywords: 'hardware devices' },
+  { label: 'Subscriptions', path: routes.subscriptions.list, keywords: 'renewals' },
+  { label: 'Payments', path: routes.payments.list },
+  { label: 'Customers', path: routes.customers.list },
+  { label: 'Audit Log', path: routes.audit, keywords: 'history' },
+  { label: 'Admin Users', path: routes.adminUsers, keywords: 'invite roles', permission: 'admins.manage' },
+  { label: 'Settings', path: routes.settings, keywords: 'profile password sessions' },
+  { label: 'Preferences', path: routes.preferences },
+];
+
+interface PaletteItem {
+  id: string;
+  group: 'Licenses' | 'Activations' | 'Go to';
+  primary: string;
+  secondary?: string;
+  Icon: typeof SearchIcon;
+  path: string;
+}
+
+// Extract sx props to constants to prevent recreation on every render
+const dialogPaperSx = { position: 'fixed', top: '10%', m: 0, width: 600, maxWidth: 'calc(100% - 32px)' };
+const searchFieldSx = { p: 1.5 };
+const listSx = { maxHeight: 400, overflowY: 'auto', pt: 0 };
+const subheaderSx = { lineHeight: '32px' };
+const emptyBoxSx = { p: 2, textAlign: 'center' };
+
+const getLicenseSecondary = (license: License): string =>
+  [license.customerName, license.customerPhone, license.locationName].filter(Boolean).join(' · ');
+
+/**
+ * Ctrl+K (Cmd+K on macOS) command palette.
+ *
+ * Searches licenses (key, customer name, phone, location) and activations (hardware ID) on the
+ * server, and lists navigation commands the admin's role allows. Arrow keys move the selection,
+ * Enter opens it.
+ *
+ * Performance: Searches are debounced and skipped below MIN_SEARCH_LENGTH characters; the exact
+ * license key lookup only runs when the query looks like a key.
+ */
+function CommandPaletteComponent() {
+  const navigate = useNavigate();
+  const role = useSelector((state: RootState) => state.auth.role);
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [debouncedQuery, setDebouncedQuery] = useState('');
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const debounceTimerRef = useRef<NodeJS.Timeout | null>(null);
+
+  // Clears the query too, so the palette always reopens empty
+  const handleClose = useCallback(() => {
+    if (debounceTimerRef.current) {
+      clearTimeout(debounceTimerRef.current);
+      debounceTimerRef.current = null;
+    }
+    setOpen(false);
+    setQuery('');
+    setDebouncedQuery('');
+    setSelectedIndex(0);
+  }, []);
+
+  // Toggle with Ctrl+K / Cmd+K from anywhere in the app
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 'k') {
+        event.preventDefault();
+        if (open) {
+          handleClose();
+        } else {
+          setOpen(true);
+        }
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [open, handleClose]);
+
+  // Cleanup timer on unmount
+  useEffect(() => {
+    return () => {
+      if (debounceTimerRef.current) {
+        clearTimeout(debounceTimerRef.current);
+      }
+    };
+  }, []);
+
+  const searchTerm = debouncedQuery.trim();
+  const skipSearch = !open || searchTerm.length < MIN_SEARCH_LENGTH;
+  const isKeyQuery = LICENSE_KEY_PATTERN.test(searchTerm);
+
+  // currentData is empty while a new search loads, so Enter never opens a result of an earlier query
+  const { currentData: licensesData, isFetching: isFetchingLicenses } = useGetLicensesQuery(
+    { page: 1, limit: RESULT_LIMIT, search: searchTerm, includeRelations: false },
+    { skip: skipSearch }
+  );
+  const { currentData: activationsData, isFetching: isFetchingActivations } = useGetActivationsQuery(
+    { page: 1, limit: RESULT_LIMIT, search: searchTerm },
+    { skip: skipSearch }
+  );
+  const { currentData: licenseByKey } = useGetLicenseByKeyQuery(searchTerm, { skip: skipSearch || !isKeyQuery });
+
+  // Performance: Rebuild the result list only when results, query or role change
+  const items = useMemo((): PaletteItem[] => {
+    const result: PaletteItem[] = [];
+    // Server results are left out while the query is still being typed; they belong to the last one
+    if (!skipSearch && query === debouncedQuery) {
+      // The exact key match goes first; the search results may contain it too
+      const licenses = licenseByKey
+        ? [licenseByKey, ...(licensesData?.licenses || []).filter((license) => license.id !== licenseByKey.id)]
+        : licensesData?.licenses || [];
+      licenses.slice(0, RESULT_LIMIT).forEach((license) => {
+        result.push({
+          id: `license-${license.id}`,
+          group: 'Licenses',
+          primary: license.licenseKey,
+          secondary: getLicenseSecondary(license),
+          Icon: LicenseIcon,
+          path: routes.licenses.view(license.id),
+        });
+      });
+      (activationsData?.activations || []).forEach((activation) => {
+        result.push({
+          id: `activation-${activation.id}`,
+          group: 'Activations',
+          primary: activation.hardwareId,
+          secondary: activation.machineName || undefined,
+          Icon: ActivationIcon,
+          path: routes.activations.view(activation.id),
+        });
+      });
+    }
+
+    const term = query.trim().toLowerCase();
+    NAVIGATION_COMMANDS.filter(
+      (command) =>
+        (!command.permission || hasPermission(role, command.permission)) &&
+        `${command.label} ${command.keywords || ''}`.toLowerCase().includes(term)
+    ).forEach((command) => {
+      result.push({
+        id: `command-${command.path}`,
+        group: 'Go to',
+        primary: command.label,
+        Icon: command.isCreate ? CreateIcon : NavigateIcon,
+        path: command.path,
+      });
+    });
+    return result;
+  }, [skipSearch, licenseByKey, licensesData, activationsData, query, debouncedQuery, role]);
+
+  // Results arrive after the query changed; start again from the top
+  useEffect(() => {
+    setSelectedIndex(0);
+  }, [items]);
+
+  // Memoize handleSelect to prevent recreation on every render
+  const handleSelect = useCallback(
+    (item: PaletteItem) => {
+      handleClose();
+      navigate(item.path);
+    },
+    [handleClose, navigate]
+  );
+
+  // Memoize handleQueryChange to prevent recreation on every render
+  const handleQueryChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = e.target.value;
+    setQuery(value);
+    setSelectedIndex(0);
+    if (debounceTimerRef.current) {
+      clearTimeout(debounceTimerRef.current);
+    }
+    debounceTimerRef.current = setTimeout(() => {
+      setDebouncedQuery(value);
+    }, DEBOUNCE_DELAY);
+  }, []);
+
+  // Memoize handleKeyDown to prevent recreation on every render
+  const handleKeyDown = useCallback(
+    (e: React.KeyboardEvent) => {
+      if (e.key === 'ArrowDown') {
+        e.preventDefault();
+        setSelectedIndex((prev) => Math.min(prev + 1, items.length - 1));
+      } else if (e.key === 'ArrowUp') {
+        e.preventDefault();
+        setSelectedIndex((prev) => Math.max(prev - 1, 0));
+      } else if (e.key === 'Enter') {
+        e.preventDefault();
+        const item = items[Math.min(selectedIndex, items.length - 1)];
+        if (item) {
+          handleSelect(item);
+        }
+      }
+    },
+    [items, selectedIndex, handleSelect]
+  );
+
+  const isSearching = !skipSearch && (isFetchingLicenses || isFetchingActivations);
+
+  return (
+    <Dialog open={open} onClose={handleClose} PaperProps={{ sx: dialogPaperSx }}>
+      <Box sx={searchFieldSx}>
+        <TextField
+          autoFocus
+          fullWidth
+          placeholder="Search licenses, customers, phones, hardware IDs or type a command..."
+          value={query}
+          onChange={handleQueryChange}
+          onKeyDown={handleKeyDown}
+          InputProps={{
+            startAdornment: (
+              <InputAdornment position="start">
+                <SearchIcon />
+              </InputAdornment>
+            ),
+            endAdornment: isSearching ? (
+              <InputAdornment position="end">
+                <CircularProgress size={18} />
+              </InputAdornment>
+            ) : undefined,
+          }}
+        />
+      </Box>
+      {items.length === 0 ? (
+        <Box sx={emptyBoxSx}>
+          <Typography variant="body2" color="text.secondary">
+            {isSearching ? 'Searching...' : 'No results'}
+          </Typography>
+        </Box>
+      ) : (
+        <List dense sx={listSx}>
+          {items.map((item, index) => (
+            <Box key={item.id}>
+              {(index === 0 || items[index - 1].group !== item.group) && (
+                <ListSubheader sx={subheaderSx}>{item.group}</ListSubheader>
+              )}
+              <ListItemButton
+                selected={index === selectedIndex}
+                onClick={() => handleSelect(item)}
+                onMouseEnter={() => setSelectedIndex(index)}
+              >
+                <ListItemIcon>
+                  <item.Icon fontSize="small" />
+                </ListItemIcon>
+                <ListItemText primary={item.primary} secondary={item.secondary} />
+              </ListItemButton>
+            </Box>
+          ))}
+        </List>
+      )}
+    </Dialog>
+  );
+}
+
+// Memoize the component to prevent unnecessary re-renders when parent re-renders
+export const CommandPalette = memo(CommandPaletteComponent);
@@ -8,8 +8,12 @@ import {
   Paper,
   TablePagination,
   CircularProgress,
+  Checkbox,
+  TableSortLabel,
 } from '@mui/material';
-import { ReactNode, memo, useCallback } from 'react';
+import { ReactNode, memo, useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useKeyboardShortcut } from '../../../hooks/useKeyboardShortcut';
+import { SHORTCUTS } from '../../../config/shortcuts';
 
 export interface Column<T> {
   id: string;
@@ -18,6 +22,8 @@ export interface Column<T> {
   align?: 'right' | 'left' | 'center';
   format?: (value: unknown, row: T) => ReactNode;
   sortable?: boolean;
+  // Server-side sort field for this column (defaults to the column id)
+  sortField?: string;
 }
 
 interface DataTableProps<T> {
@@ -30,8 +36,23 @@ interface DataTableProps<T> {
   onRowsPerPageChange: (newRowsPerPage: number) => void;
   loading?: boolean;
   emptyMessage?: string;
+  // Row selection: enabled when both selectedIds and onSelectionChange are provided.
+  // Selection is owned by the parent so it can persist across pages.
+  selectedIds?: ReadonlyArray<number | string>;
+  onSelectionChange?: (rows: T[], selected: boolean) => void;
+  // Server-driven sorting: headers of sortable columns become clickable when onSortChange is provided
+  sortBy?: string;
+  sortOrder?: 'asc' | 'desc';
+  onSortChange?: (sortBy: string, sortOrder: 'asc' | 'desc') => void;
+  // Keyboard navigation: j/k move between rows and Enter opens the focused row
+  onRowOpen?: (row: T) => void;
 }
 
+// Extract sx props to constants to prevent recreation on every render
+const focusableRowSx = {
+  '&:focus-visible': { outline: '2px solid', outlineColor: 'primary.main', outlineOffset: -2 },
+};
+
 function DataTableComponent<T extends { id: number | string }>({
   columns,
   rows,
@@ -42,7 +63,90 @@ function DataTableComponent<T extends { id: number | string }>({
   onRowsPerPageChange,
   loading = false,
   emptyMessage = 'No data available',
+  selectedIds,
+  onSelectionChange,
+  sortBy,
+  sortOrder = 'asc',
+  onSortChange,
+  onRowOpen,
 }: DataTableProps<T>) {
+  const selectable = selectedIds !== undefined && onSelectionChange !== undefined;
+  const columnCount = columns.length + (selectable ? 1 : 0);
+  const keyboardEnabled = onRowOpen !== undefined && !loading && rows.length > 0;
+  const [focusedIndex, setFocusedIndex] = useState(-1);
+  const rowRefs = useRef<(HTMLTableRowElement | null)[]>([]);
+
+  // A new page, search or sort starts again from the top
+  useEffect(() => {
+    setFocusedIndex(-1);
+  }, [rows]);
+
+  useEffect(() => {
+    const rowElement = rowRefs.current[focusedIndex];
+    if (rowElement) {
+      rowElement.focus();
+      rowElement.scrollIntoView({ block: 'nearest' });
+    }
+  }, [focusedIndex]);
+
+  useKeyboardShortcut(
+    SHORTCUTS.nextRow.keys,
+    () => setFocusedIndex((prev) => Math.min(prev + 1, rows.length - 1)),
+    keyboardEnabled
+  );
+  useKeyboardShortcut(
+    SHORTCUTS.previousRow.keys,
+    () => setFocusedIndex((prev) => Math.max(prev - 1, 0)),
+    keyboardEnabled
+  );
+
+  // Enter is handled on the row itself, so it only opens the row that has focus
+  const handleRowKeyDown = useCallback(
+    (event: React.KeyboardEvent<HTMLTableRowElement>, row: T) => {
+      if (event.key === 'Enter' && event.target === event.currentTarget) {
+        event.preventDefault();
+        onRowOpen?.(row);
+      }
+    },
+    [onRowOpen]
+  );
+
+  // Keep j/k in step with rows focused by mouse or Tab (focus on buttons inside the row is ignored)
+  const handleRowFocus = useCallback((event: React.FocusEvent<HTMLTableRowElement>, index: number) => {
+    if (event.target === event.currentTarget) {
+      setFocusedIndex(index);
+    }
+  }, []);
+
+  // Performance: Set lookup is O(1) per row instead of scanning the array for each row
+  const selectedIdSet = useMemo(() => new Set(selectedIds ?? []), [selectedIds]);
+  const selectedOnPageCount = useMemo(
+    () => rows.filter((row) => selectedIdSet.has(row.id)).length,
+    [rows, selectedIdSet]
+  );
+  const allOnPageSelected = rows.length > 0 && selectedOnPageCount === rows.length;
+
+  const handleToggleAll = useCallback(() => {
+    onSelectionChange?.(rows, !allOnPageSelected);
+  }, [onSelectionChange, rows, allOnPageSelected]);
+
+  const handleToggleRow = useCallback(
+    (row: T) => {
+      onSelectionChange?.([row], !selectedIdSet.has(row.id));
+    },
+    [onSelectionChange, selectedIdSet]
+  );
+
+  // Clicking the active column toggles the order; clicking another column sorts it ascending
+  const handleSort = useCallback(
+    (field: string) => {
+      if (!onSortChange) return;
+      const isActive = sortBy === field;
+      onSortChange(field, isActive && sortOrder === 'asc' ? 'desc' : 'asc');
+    },
+    [onSortChange, sortBy, sortOrder]
+  );
+
   // Memoize event handlers to prevent unnecessary re-renders
   const handleChangePage = useCallback(
     (_event: unknown, newPage: number) => {
@@ -71,40 +175,83 @@ function DataTableComponent<T extends { id: number | string }>({
         <Table stickyHeader aria-label="data table">
           <TableHead>
             <TableRow>
-              {columns.map((column) => (
-                <TableCell
-                  key={column.id}
-                  align={column.align}
-                  style={{ minWidth: column.minWidth }}
-                  role="columnheader"
-                >
-                  {column.label}
+              {selectable && (
+                <TableCell padding="checkbox">
+                  <Checkbox
+                    indeterminate={selectedOnPageCount > 0 && !allOnPageSelected}
+                    checked={allOnPageSelected}
+                    onChange={handleToggleAll}
+                    disabled={loading || rows.length === 0}
+                    inputProps={{ 'aria-label': 'Select all rows on this page' }}
+                  />
                 </TableCell>
-              ))}
+              )}
+              {columns.map((column) => {
+                const sortField = column.sortField ?? column.id;
+                const isSortable = column.sortable && onSortChange !== undefined;
+                const isSorted = isSortable && sortBy === sortField;
+                return (
+                  <TableCell
+                    key={column.id}
+                    align={column.align}
+                    style={{ minWidth: column.minWidth }}
+                    role="columnheader"
+                    sortDirection={isSorted ? sortOrder : false}
+                  >
+                    {isSortable ? (
+                      <TableSortLabel
+                        active={isSorted}
+                        direction={isSorted ? sortOrder : 'asc'}
+                        onClick={() => handleSort(sortField)}
+                      >
+                        {column.label}
+                      </TableSortLabel>
+                    ) : (
+                      column.label
+                    )}
+                  </TableCell>
+                );
+              })}
             </TableRow>
           </TableHead>
           <TableBody>
             {loading ? (
               <TableRow>
-                <TableCell colSpan={columns.length} align="center" sx={{ py: 2 }}>
+                <TableCell colSpan={columnCount} align="center" sx={{ py: 2 }}>
                   <CircularProgress />
                 </TableCell>
               </TableRow>
             ) : rows.length === 0 ? (
               <TableRow>
-                <TableCell colSpan={columns.length} align="center" sx={{ py: 2 }}>
+                <TableCell colSpan={columnCount} align="center" sx={{ py: 2 }}>
                   {emptyMessage}
                 </TableCell>
               </TableRow>
             ) : (
-              rows.map((row) => (
+              rows.map((row, index) => (
                 <TableRow 
                   hover 
                   role="row" 
                   tabIndex={-1} 
                   key={row.id}
                   aria-label={`Row ${row.id}`}
+                  selected={selectable && selectedIdSet.has(row.id)}
+                  ref={(element: HTMLTableRowElement | null) => {
+                    rowRefs.current[index] = element;
+                  }}
+                  onKeyDown={onRowOpen ? (event) => handleRowKeyDown(event, row) : undefined}
+                  onFocus={onRowOpen ? (event) => handleRowFocus(event, index) : undefined}
+                  sx={onRowOpen ? focusableRowSx : undefined}
                 >
+                  {selectable && (
+                    <TableCell padding="checkbox">
+                      <Checkbox
+                        checked={selectedIdSet.has(row.id)}
+                        onChange={() => handleToggleRow(row)}
+                        inputProps={{ 'aria-label': `Select row ${row.id}` }}
+                      />
+                    </TableCell>
+                  )}
                   {columns.map((column) => {
                     const value = (row as Record<string, unknown>)[column.id];
                     return (
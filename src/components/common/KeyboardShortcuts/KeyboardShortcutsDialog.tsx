@@ -0,0 +1,89 @@
+import {
+  Box,
+  Dialog,
+  DialogContent,
+  DialogTitle,
+  IconButton,
+  Table,
+  TableBody,
+  TableCell,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import { Close as CloseIcon } from '@mui/icons-material';
+import { memo, useCallback, useState } from 'react';
+import { useKeyboardShortcut } from '../../../hooks/useKeyboardShortcut';
+import { SHORTCUTS, SHORTCUT_GROUPS, ShortcutDefinition } from '../../../config/shortcuts';
+
+// Extract sx props to constants to prevent recreation on every render
+const titleSx = { display: 'flex', alignItems: 'center', justifyContent: 'space-between', pr: 1 };
+const groupTitleSx = { mt: 2, mb: 0.5 };
+const keyCellSx = { width: 140, whiteSpace: 'nowrap' };
+const keySx = {
+  display: 'inline-block',
+  minWidth: 24,
+  px: 0.75,
+  mr: 0.5,
+  border: 1,
+  borderColor: 'divider',
+  borderRadius: 1,
+  bgcolor: 'action.hover',
+  fontFamily: 'monospace',
+  fontSize: '0.8125rem',
+  textAlign: 'center',
+};
+
+const getKeyLabels = (shortcut: ShortcutDefinition): string[] =>
+  shortcut.display ? [shortcut.display] : shortcut.keys.split(' ');
+
+/**
+ * `?` help overlay listing every keyboard shortcut (see config/shortcuts.ts).
+ */
+function KeyboardShortcutsDialogComponent() {
+  const [open, setOpen] = useState(false);
+
+  useKeyboardShortcut(SHORTCUTS.help.keys, () => setOpen(true));
+
+  const handleClose = useCallback(() => {
+    setOpen(false);
+  }, []);
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="xs" fullWidth>
+      <DialogTitle sx={titleSx}>
+        Keyboard Shortcuts
+        <IconButton size="small" onClick={handleClose} aria-label="close">
+          <CloseIcon fontSize="small" />
+        </IconButton>
+      </DialogTitle>
+      <DialogContent>
+        {SHORTCUT_GROUPS.map((group) => (
+          <Box key={group.title}>
+            <Typography variant="subtitle2" color="text.secondary" sx={groupTitleSx}>
+              {group.title}
+            </Typography>
+            <Table size="small">
+              <TableBody>
+                {group.shortcuts.map((shortcut) => (
+                  <TableRow key={shortcut.keys}>
+                    <TableCell sx={keyCellSx}>
+                      {getKeyLabels(shortcut).map((label) => (
+                        <Box key={label} component="kbd" sx={keySx}>
+                          {label}
+                        </Box>
+                      ))}
+                    </TableCell>
+                    <TableCell>{shortcut.description}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </Box>
+        ))}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Memoize the component to prevent unnecessary re-renders when parent re-renders
+export const KeyboardShortcutsDialog = memo(KeyboardShortcutsDialogComponent);
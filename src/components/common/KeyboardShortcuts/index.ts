@@ -0,0 +1 @@
+export { KeyboardShortcutsDialog } from './KeyboardShortcutsDialog';
@@ -3,7 +3,11 @@ import { Box, Container } from '@mui/material';
 import { Header } from './Header';
 import { Sidebar } from './Sidebar';
 import { HealthBanner } from '../HealthBanner';
+import { OfflineBanner } from '../OfflineBanner';
+import { CommandPalette } from '../CommandPalette';
+import { KeyboardShortcutsDialog } from '../KeyboardShortcuts';
 import { useSessionExpiry } from '../../../hooks/useSessionExpiry';
+import { useLiveUpdates } from '../../../hooks/useLiveUpdates';
 import { useDispatch, useSelector } from 'react-redux';
 import { AppDispatch, RootState } from '../../../store';
 import { useGetUserInfoQuery } from '../../../features/auth/slice/authApi';
@@ -36,6 +40,8 @@ const containerSx = {
 function AppLayoutComponent({ children }: AppLayoutProps) {
   // Monitor session expiry - shows warnings and handles logout
   useSessionExpiry();
+  // Refetch when licenses, activations or payments change elsewhere
+  useLiveUpdates();
   const [mobileOpen, setMobileOpen] = useState(false);
   const dispatch = useDispatch<AppDispatch>();
   const isAuthenticated = useSelector((state: RootState) => state.auth.isAuthenticated);
@@ -99,10 +105,13 @@ function AppLayoutComponent({ children }: AppLayoutProps) {
       <Sidebar mobileOpen={mobileOpen} onMobileClose={handleDrawerToggle} />
       <Box sx={contentBoxSx}>
         <Header onMenuClick={handleDrawerToggle} />
+        <OfflineBanner />
         <Container maxWidth="xl" sx={containerSx}>
           {children}
         </Container>
         <HealthBanner />
+        <CommandPalette />
+        <KeyboardShortcutsDialog />
       </Box>
     </Box>
   );
@@ -7,6 +7,7 @@ import { useNavigate } from 'react-router-dom';
 import { routes } from '../../../config/routes';
 import { useLogoutMutation } from '../../../features/auth/slice/authApi';
 import { memo, useCallback } from 'react';
+import { NotificationBell } from './NotificationBell';
 
 interface HeaderProps {
   onMenuClick: () => void;
@@ -24,6 +25,7 @@ function HeaderComponent({ onMenuClick }: HeaderProps) {
   // Optimize useSelector: only select user instead of entire auth state
   // This prevents re-renders when other auth state properties change
   const user = useSelector((state: RootState) => state.auth.user);
+  const refreshToken = useSelector((state: RootState) => state.auth.refreshToken);
   const [logoutMutation] = useLogoutMutation();
   const theme = useTheme();
   const isMobile = useMediaQuery(theme.breakpoints.down('md'));
@@ -37,7 +39,7 @@ function HeaderComponent({ onMenuClick }: HeaderProps) {
   const handleLogout = useCallback(async () => {
     try {
       // Call the logout API endpoint
-      await logoutMutation().unwrap();
+      await logoutMutation({ refreshToken }).unwrap();
     } catch (error) {
       // Even if the API call fails, we should still clear local state
       console.error('Logout API call failed:', error);
@@ -46,7 +48,7 @@ function HeaderComponent({ onMenuClick }: HeaderProps) {
       dispatch(logout());
       navigate(routes.login);
     }
-  }, [logoutMutation, dispatch, navigate]);
+  }, [logoutMutation, refreshToken, dispatch, navigate]);
 
   return (
     <AppBar position="static" elevation={0}>
@@ -70,6 +72,7 @@ function HeaderComponent({ onMenuClick }: HeaderProps) {
               <Typography variant="body2" sx={nameSx}>
                 {user.name}
               </Typography>
+            <NotificationBell />
             <IconButton color="inherit" onClick={handleLogout} size="small">
               <LogoutIcon />
             </IconButton>
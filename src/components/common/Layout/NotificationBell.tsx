@@ -0,0 +1,171 @@
+import {
+  Badge,
+  Box,
+  Button,
+  CircularProgress,
+  Divider,
+  IconButton,
+  List,
+  ListItemButton,
+  ListItemIcon,
+  ListItemText,
+  Popover,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import {
+  Notifications as BellIcon,
+  HourglassBottom as GracePeriodIcon,
+  EventBusy as ExpiringIcon,
+  CardGiftcard as TrialIcon,
+  ErrorOutline as ActivationFailedIcon,
+} from '@mui/icons-material';
+import { memo, useCallback, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  useGetNotificationsQuery,
+  useMarkNotificationReadMutation,
+  useMarkAllNotificationsReadMutation,
+} from '../../../api/notificationsApi';
+import { AdminNotification, NotificationType } from '../../../types/notification.types';
+import { routes } from '../../../config/routes';
+import { formatDateTime } from '../../../utils/formatters';
+
+// Constants
+const NOTIFICATION_LIMIT = 20;
+const POLLING_INTERVAL = 120000; // 2 minutes
+const ERROR_LOADING_NOTIFICATIONS = 'Failed to load notifications.';
+
+const NOTIFICATION_ICONS: Record<NotificationType, JSX.Element> = {
+  grace_period: <GracePeriodIcon color="warning" />,
+  expiring_soon: <ExpiringIcon color="warning" />,
+  trial_ending: <TrialIcon color="info" />,
+  activation_failed: <ActivationFailedIcon color="error" />,
+};
+
+// Extract sx props to constants to prevent recreation on every render
+const popoverPaperSx = { width: 380, maxWidth: '100vw' };
+const headerBoxSx = { display: 'flex', alignItems: 'center', justifyContent: 'space-between', px: 2, py: 1 };
+const listSx = { maxHeight: 420, overflowY: 'auto', py: 0 };
+const unreadItemSx = { bgcolor: 'action.hover' };
+const messageBoxSx = { p: 2, display: 'flex', justifyContent: 'center' };
+
+// Grace period notifications link to the subscription; everything else to the license
+const getNotificationPath = (notification: AdminNotification): string =>
+  notification.type === 'grace_period' && notification.subscriptionId
+    ? routes.subscriptions.view(notification.subscriptionId)
+    : routes.licenses.view(notification.licenseId);
+
+/**
+ * Header bell listing actionable events (grace periods, expiring licenses, ending trials and
+ * failed activations). Read state is stored server-side, so it follows the admin across devices.
+ */
+function NotificationBellComponent() {
+  const navigate = useNavigate();
+  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+  const { data, isLoading, error } = useGetNotificationsQuery(
+    { limit: NOTIFICATION_LIMIT },
+    { pollingInterval: POLLING_INTERVAL }
+  );
+  const [markNotificationRead] = useMarkNotificationReadMutation();
+  const [markAllNotificationsRead, { isLoading: isMarkingAll }] = useMarkAllNotificationsReadMutation();
+
+  const notifications = data?.notifications || [];
+  const unreadCount = data?.unreadCount ?? 0;
+
+  const handleOpen = useCallback((event: React.MouseEvent<HTMLElement>) => {
+    setAnchorEl(event.currentTarget);
+  }, []);
+
+  const handleClose = useCallback(() => {
+    setAnchorEl(null);
+  }, []);
+
+  // Memoize handleNotificationClick to prevent recreation on every render
+  const handleNotificationClick = useCallback(
+    (notification: AdminNotification) => {
+      setAnchorEl(null);
+      if (!notification.readAt) {
+        markNotificationRead(notification.id)
+          .unwrap()
+          .catch((err) => console.error('Failed to mark notification as read:', err));
+      }
+      navigate(getNotificationPath(notification));
+    },
+    [markNotificationRead, navigate]
+  );
+
+  // Memoize handleMarkAllRead to prevent recreation on every render
+  const handleMarkAllRead = useCallback(async () => {
+    try {
+      await markAllNotificationsRead().unwrap();
+    } catch (err) {
+      console.error('Failed to mark notifications as read:', err);
+    }
+  }, [markAllNotificationsRead]);
+
+  return (
+    <>
+      <Tooltip title="Notifications">
+        <IconButton color="inherit" size="small" onClick={handleOpen} aria-label="notifications">
+          <Badge badgeContent={unreadCount} color="error" max={99}>
+            <BellIcon />
+          </Badge>
+        </IconButton>
+      </Tooltip>
+      <Popover
+        open={!!anchorEl}
+        anchorEl={anchorEl}
+        onClose={handleClose}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'right' }}
+        transformOrigin={{ vertical: 'top', horizontal: 'right' }}
+        slotProps={{ paper: { sx: popoverPaperSx } }}
+      >
+        <Box sx={headerBoxSx}>
+          <Typography variant="subtitle1">Notifications</Typography>
+          <Button size="small" onClick={handleMarkAllRead} disabled={unreadCount === 0 || isMarkingAll}>
+            Mark all as read
+          </Button>
+        </Box>
+        <Divider />
+        {isLoading ? (
+          <Box sx={messageBoxSx}>
+            <CircularProgress size={24} />
+          </Box>
+        ) : error ? (
+          <Box sx={messageBoxSx}>
+            <Typography variant="body2" color="error">
+              {ERROR_LOADING_NOTIFICATIONS}
+            </Typography>
+          </Box>
+        ) : notifications.length === 0 ? (
+          <Box sx={messageBoxSx}>
+            <Typography variant="body2" color="text.secondary">
+              You're all caught up.
+            </Typography>
+          </Box>
+        ) : (
+          <List sx={listSx}>
+            {notifications.map((notification) => (
+              <ListItemButton
+                key={notification.id}
+                onClick={() => handleNotificationClick(notification)}
+                sx={notification.readAt ? undefined : unreadItemSx}
+              >
+                <ListItemIcon>{NOTIFICATION_ICONS[notification.type]}</ListItemIcon>
+                <ListItemText
+                  primary={notification.title}
+                  primaryTypographyProps={{ fontWeight: notification.readAt ? 'normal' : 'bold' }}
+                  secondary={`${notification.message} · ${formatDateTime(notification.createdAt)}`}
+                />
+              </ListItemButton>
+            ))}
+          </List>
+        )}
+      </Popover>
+    </>
+  );
+}
+
+// Memoize the component to prevent unnecessary re-renders when parent re-renders
+export const NotificationBell = memo(NotificationBellComponent);
@@ -1,4 +1,17 @@
-import { Drawer, List, ListItem, ListItemButton, ListItemIcon, ListItemText, Toolbar, useMediaQuery, useTheme, Box } from '@mui/material';
+import {
+  Drawer,
+  List,
+  ListItem,
+  ListItemButton,
+  ListItemIcon,
+  ListItemText,
+  ListSubheader,
+  Divider,
+  Toolbar,
+  useMediaQuery,
+  useTheme,
+  Box,
+} from '@mui/material';
 import { useNavigate, useLocation } from 'react-router-dom';
 import {
   Dashboard as DashboardIcon,
@@ -6,10 +19,20 @@ import {
   Devices as ActivationIcon,
   CardMembership as SubscriptionIcon,
   Payment as PaymentIcon,
+  People as CustomersIcon,
+  History as AuditIcon,
+  AdminPanelSettings as AdminUsersIcon,
   Settings as SettingsIcon,
   Tune as PreferencesIcon,
+  PushPin as PinnedViewIcon,
 } from '@mui/icons-material';
 import { routes } from '../../../config/routes';
+import { hasPermission, Permission } from '../../../config/permissions';
+import { useSelector } from 'react-redux';
+import { RootState } from '../../../store';
+import { useSavedViews, getSavedViewUrl } from '../../../hooks/useSavedViews';
+import { useKeyboardShortcut } from '../../../hooks/useKeyboardShortcut';
+import { SHORTCUTS } from '../../../config/shortcuts';
 import { memo, useCallback, useMemo } from 'react';
 
 const drawerWidth = 240;
@@ -19,6 +42,8 @@ interface MenuItem {
   text: string;
   Icon: React.ComponentType;
   path: string;
+  // Hidden from admins whose role lacks this permission
+  permission?: Permission;
 }
 
 const menuItems: MenuItem[] = [
@@ -27,6 +52,9 @@ const menuItems: MenuItem[] = [
   { text: 'Activations', Icon: ActivationIcon, path: routes.activations.list },
   { text: 'Subscriptions', Icon: SubscriptionIcon, path: routes.subscriptions.list },
   { text: 'Payments', Icon: PaymentIcon, path: routes.payments.list },
+  { text: 'Customers', Icon: CustomersIcon, path: routes.customers.list },
+  { text: 'Audit Log', Icon: AuditIcon, path: routes.audit },
+  { text: 'Admin Users', Icon: AdminUsersIcon, path: routes.adminUsers, permission: 'admins.manage' },
   { text: 'Settings', Icon: SettingsIcon, path: routes.settings },
   { text: 'Preferences', Icon: PreferencesIcon, path: routes.preferences },
 ];
@@ -43,6 +71,7 @@ const logoImageSx = {
     opacity: 0.8,
   },
 };
+const pinnedViewTextProps = { noWrap: true };
 const mobileDrawerSx = {
   display: { xs: 'block', md: 'none' },
   '& .MuiDrawer-paper': {
@@ -68,6 +97,23 @@ function SidebarComponent({ mobileOpen, onMobileClose }: SidebarProps) {
   const location = useLocation();
   const theme = useTheme();
   const isMobile = useMediaQuery(theme.breakpoints.down('md'));
+  const { savedViews } = useSavedViews();
+  const role = useSelector((state: RootState) => state.auth.role);
+
+  // Performance: Menu is only re-filtered when the role changes
+  const visibleMenuItems = useMemo(
+    () => menuItems.filter((item) => !item.permission || hasPermission(role, item.permission)),
+    [role]
+  );
+
+  // Performance: Only pinned views are listed, with their URLs built once
+  const pinnedViews = useMemo(
+    () =>
+      savedViews
+        .filter((view) => view.pinned)
+        .map((view) => ({ id: view.id, name: view.name, url: getSavedViewUrl(view) })),
+    [savedViews]
+  );
 
   // Memoize navigation handlers to prevent unnecessary re-renders
   const handleNavigation = useCallback(
@@ -80,6 +126,11 @@ function SidebarComponent({ mobileOpen, onMobileClose }: SidebarProps) {
     [navigate, isMobile, onMobileClose]
   );
 
+  // "g" sequences jump to the main lists from anywhere
+  useKeyboardShortcut(SHORTCUTS.goLicenses.keys, () => handleNavigation(routes.licenses.list));
+  useKeyboardShortcut(SHORTCUTS.goPayments.keys, () => handleNavigation(routes.payments.list));
+  useKeyboardShortcut(SHORTCUTS.goActivations.keys, () => handleNavigation(routes.activations.list));
+
   const handleLogoClick = useCallback(() => {
     navigate(routes.dashboard);
     if (isMobile) {
@@ -117,7 +168,7 @@ function SidebarComponent({ mobileOpen, onMobileClose }: SidebarProps) {
           </Box>
         </Toolbar>
         <List>
-          {menuItems.map((item) => {
+          {visibleMenuItems.map((item) => {
             const Icon = item.Icon;
             return (
               <ListItem key={item.text} disablePadding>
@@ -134,9 +185,37 @@ function SidebarComponent({ mobileOpen, onMobileClose }: SidebarProps) {
             );
           })}
         </List>
+        {pinnedViews.length > 0 && (
+          <>
+            <Divider />
+            <List subheader={<ListSubheader>Pinned Views</ListSubheader>}>
+              {pinnedViews.map((view) => (
+                <ListItem key={view.id} disablePadding>
+                  <ListItemButton
+                    selected={`${location.pathname}${location.search}` === view.url}
+                    onClick={() => handleNavigation(view.url)}
+                  >
+                    <ListItemIcon>
+                      <PinnedViewIcon />
+                    </ListItemIcon>
+                    <ListItemText primary={view.name} primaryTypographyProps={pinnedViewTextProps} />
+                  </ListItemButton>
+                </ListItem>
+              ))}
+            </List>
+          </>
+        )}
       </>
     ),
-    [location.pathname, handleLogoClick, menuItemHandlers]
+    [
+      location.pathname,
+      location.search,
+      handleLogoClick,
+      visibleMenuItems,
+      menuItemHandlers,
+      pinnedViews,
+      handleNavigation,
+    ]
   );
 
   return (
@@ -0,0 +1,102 @@
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  LinearProgress,
+  List,
+  ListItem,
+  ListItemIcon,
+  ListItemText,
+  Typography,
+  CircularProgress,
+  Box,
+} from '@mui/material';
+import {
+  CheckCircle as SuccessIcon,
+  Error as ErrorIcon,
+  HourglassEmpty as PendingIcon,
+} from '@mui/icons-material';
+import { memo, useMemo } from 'react';
+
+export interface BulkProgressItem {
+  id: number | string;
+  label: string;
+  status: 'pending' | 'running' | 'success' | 'error';
+  message?: string;
+}
+
+interface BulkProgressDialogProps {
+  open: boolean;
+  title: string;
+  items: BulkProgressItem[];
+  onClose: () => void;
+}
+
+// Extract sx props to constants to prevent recreation on every render
+const summaryBoxSx = { mb: 2 };
+const progressSx = { mb: 1 };
+const listSx = { maxHeight: 360, overflow: 'auto' };
+const listItemIconSx = { minWidth: 36 };
+const labelTypographyProps = { fontFamily: 'monospace', fontSize: '0.875rem' };
+
+function BulkProgressDialogComponent({ open, title, items, onClose }: BulkProgressDialogProps) {
+  // Performance: Single pass over items to compute all counters
+  const counts = useMemo(
+    () =>
+      items.reduce(
+        (acc, item) => {
+          acc[item.status] += 1;
+          return acc;
+        },
+        { pending: 0, running: 0, success: 0, error: 0 }
+      ),
+    [items]
+  );
+
+  const completed = counts.success + counts.error;
+  const isRunning = completed < items.length;
+  const progress = items.length > 0 ? (completed / items.length) * 100 : 0;
+
+  return (
+    // Closing is blocked while the batch is still running so results aren't lost
+    <Dialog open={open} onClose={isRunning ? undefined : onClose} fullWidth maxWidth="sm">
+      <DialogTitle>{title}</DialogTitle>
+      <DialogContent>
+        <Box sx={summaryBoxSx}>
+          <LinearProgress variant="determinate" value={progress} sx={progressSx} />
+          <Typography variant="body2" color="text.secondary">
+            {completed} of {items.length} processed · {counts.success} succeeded · {counts.error} failed
+          </Typography>
+        </Box>
+        <List dense sx={listSx}>
+          {items.map((item) => (
+            <ListItem key={item.id} disableGutters>
+              <ListItemIcon sx={listItemIconSx}>
+                {item.status === 'success' && <SuccessIcon color="success" fontSize="small" />}
+                {item.status === 'error' && <ErrorIcon color="error" fontSize="small" />}
+                {item.status === 'running' && <CircularProgress size={18} />}
+                {item.status === 'pending' && <PendingIcon color="disabled" fontSize="small" />}
+              </ListItemIcon>
+              <ListItemText
+                primary={item.label}
+                primaryTypographyProps={labelTypographyProps}
+                secondary={item.message}
+                secondaryTypographyProps={{ color: item.status === 'error' ? 'error' : 'text.secondary' }}
+              />
+            </ListItem>
+          ))}
+        </List>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} variant="contained" disabled={isRunning}>
+          {isRunning ? 'Processing...' : 'Close'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
+
+// Memoize the component to prevent unnecessary re-renders when parent re-renders
+export const BulkProgressDialog = memo(BulkProgressDialogComponent);
@@ -29,6 +29,7 @@ function ConfirmDialogComponent({
   onCancel,
   confirmColor = 'primary',
 }: ConfirmDialogProps) {
+  // Esc and backdrop clicks cancel, same as the Cancel button
   return (
     <Dialog open={open} onClose={onCancel}>
       <DialogTitle>{title}</DialogTitle>
@@ -0,0 +1,102 @@
+import { Box, Alert, Button, List, ListItem, ListItemText } from '@mui/material';
+import { memo, useCallback } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import { AppDispatch, RootState } from '../../../store';
+import { OUTBOX_ENDPOINTS } from '../../../api/outbox';
+import { dismissOutboxConflict, replayOutbox } from '../../../features/offline/slice/offlineSync';
+import { formatDateTime } from '../../../utils/formatters';
+
+// Extract sx props to constants to prevent recreation on every render
+const bannerBoxSx = { display: 'flex', flexDirection: 'column', gap: 1, px: { xs: 1.5, md: 2 }, pt: 1 };
+const conflictListSx = { py: 0 };
+const conflictItemSx = { px: 0 };
+
+const pluralizeChanges = (count: number) => `${count} queued change${count !== 1 ? 's' : ''}`;
+
+/**
+ * Connectivity and outbox status, shown above the page content.
+ *
+ * - Offline: explains that pages show the last saved data and which changes are queued
+ * - Back online with queued changes: shows progress and a manual "Send now"
+ * - Conflicts: lists queued changes the server rejected, with the reason, until dismissed
+ */
+function OfflineBannerComponent() {
+  const dispatch = useDispatch<AppDispatch>();
+  const isOnline = useSelector((state: RootState) => state.offline.isOnline);
+  const pendingCount = useSelector((state: RootState) => state.offline.pendingCount);
+  const conflicts = useSelector((state: RootState) => state.offline.conflicts);
+  const isReplaying = useSelector((state: RootState) => state.offline.isReplaying);
+
+  // Memoize handleSendNow to prevent recreation on every render
+  const handleSendNow = useCallback(() => {
+    dispatch(replayOutbox());
+  }, [dispatch]);
+
+  // Memoize handleDismiss to prevent recreation on every render
+  const handleDismiss = useCallback(
+    (id: number) => {
+      dispatch(dismissOutboxConflict(id));
+    },
+    [dispatch]
+  );
+
+  if (isOnline && pendingCount === 0 && conflicts.length === 0) {
+    return null;
+  }
+
+  return (
+    <Box sx={bannerBoxSx}>
+      {!isOnline && (
+        <Alert severity="warning">
+          You're offline. Pages show the last saved data. New payments, license updates and renewals are saved
+          and sent when the connection returns
+          {pendingCount > 0 ? ` (${pluralizeChanges(pendingCount)})` : ''}.
+        </Alert>
+      )}
+
+      {isOnline && pendingCount > 0 && (
+        <Alert
+          severity="info"
+          action={
+            <Button color="inherit" size="small" onClick={handleSendNow} disabled={isReplaying}>
+              {isReplaying ? 'Sending...' : 'Send Now'}
+            </Button>
+          }
+        >
+          {isReplaying
+            ? `Sending ${pluralizeChanges(pendingCount)}...`
+            : `${pluralizeChanges(pendingCount)} waiting to be sent.`}
+        </Alert>
+      )}
+
+      {conflicts.length > 0 && (
+        <Alert severity="error">
+          {conflicts.length === 1
+            ? '1 change made offline could not be applied:'
+            : `${conflicts.length} changes made offline could not be applied:`}
+          <List dense sx={conflictListSx}>
+            {conflicts.map((item) => (
+              <ListItem
+                key={item.id}
+                sx={conflictItemSx}
+                secondaryAction={
+                  <Button color="inherit" size="small" onClick={() => handleDismiss(item.id)}>
+                    Dismiss
+                  </Button>
+                }
+              >
+                <ListItemText
+                  primary={`${OUTBOX_ENDPOINTS[item.endpoint]?.label ?? item.endpoint} · queued ${formatDateTime(item.queuedAt)}`}
+                  secondary={item.conflictMessage}
+                />
+              </ListItem>
+            ))}
+          </List>
+        </Alert>
+      )}
+    </Box>
+  );
+}
+
+// Memoize the component to prevent unnecessary re-renders when parent re-renders
+export const OfflineBanner = memo(OfflineBannerComponent);
@@ -0,0 +1,225 @@
+import {
+  Button,
+  Menu,
+  MenuItem,
+  ListItemIcon,
+  ListItemText,
+  IconButton,
+  Tooltip,
+  Divider,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  FormControlLabel,
+  Checkbox,
+  Typography,
+} from '@mui/material';
+import {
+  Bookmarks as SavedViewsIcon,
+  BookmarkAdd as SaveViewIcon,
+  PushPin as PinnedIcon,
+  PushPinOutlined as UnpinnedIcon,
+  Delete as DeleteIcon,
+} from '@mui/icons-material';
+import { memo, useCallback, useMemo, useState } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { useSavedViews, getSavedViewUrl, toSavedViewQuery } from '../../../hooks/useSavedViews';
+import { useToastContext } from '../Toast/useToastContext';
+
+// Constants
+const SUCCESS_VIEW_SAVED = 'View saved successfully';
+const SUCCESS_VIEW_DELETED = 'View deleted';
+const ERROR_SAVE_VIEW = 'Failed to save view. Please try again.';
+const ERROR_DELETE_VIEW = 'Failed to delete view. Please try again.';
+const ERROR_PIN_VIEW = 'Failed to update view. Please try again.';
+const ERROR_DUPLICATE_NAME = 'A view with this name already exists';
+
+// Extract sx props to constants to prevent recreation on every render
+const menuPaperProps = { sx: { minWidth: 280 } };
+const viewNameSx = { flexGrow: 1, mr: 1 };
+const emptyTypographySx = { px: 2, py: 1 };
+const nameFieldSx = { mt: 1 };
+
+interface SavedViewsMenuProps {
+  // List route the views belong to (e.g. routes.licenses.list)
+  path: string;
+}
+
+function SavedViewsMenuComponent({ path }: SavedViewsMenuProps) {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { showToast } = useToastContext();
+  const { savedViews, isUpdating, addView, deleteView, togglePinned } = useSavedViews();
+
+  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [pinned, setPinned] = useState(true);
+
+  // Performance: Only views for this list are shown in the menu
+  const pageViews = useMemo(() => savedViews.filter((view) => view.path === path), [savedViews, path]);
+
+  const trimmedName = name.trim();
+  const isDuplicateName = pageViews.some((view) => view.name.toLowerCase() === trimmedName.toLowerCase());
+
+  // Memoize menu handlers to prevent recreation on every render
+  const handleOpenMenu = useCallback((event: React.MouseEvent<HTMLElement>) => {
+    setAnchorEl(event.currentTarget);
+  }, []);
+
+  const handleCloseMenu = useCallback(() => {
+    setAnchorEl(null);
+  }, []);
+
+  const handleOpenView = useCallback(
+    (url: string) => {
+      setAnchorEl(null);
+      navigate(url);
+    },
+    [navigate]
+  );
+
+  const handleTogglePinned = useCallback(
+    async (event: React.MouseEvent, id: string) => {
+      event.stopPropagation();
+      try {
+        await togglePinned(id);
+      } catch (err) {
+        console.error('Failed to update saved view:', err);
+        showToast(ERROR_PIN_VIEW, 'error');
+      }
+    },
+    [togglePinned, showToast]
+  );
+
+  const handleDeleteView = useCallback(
+    async (event: React.MouseEvent, id: string) => {
+      event.stopPropagation();
+      try {
+        await deleteView(id);
+        showToast(SUCCESS_VIEW_DELETED, 'success');
+      } catch (err) {
+        console.error('Failed to delete saved view:', err);
+        showToast(ERROR_DELETE_VIEW, 'error');
+      }
+    },
+    [deleteView, showToast]
+  );
+
+  // Memoize dialog handlers to prevent recreation on every render
+  const handleOpenDialog = useCallback(() => {
+    setAnchorEl(null);
+    setName('');
+    setPinned(true);
+    setDialogOpen(true);
+  }, []);
+
+  const handleCloseDialog = useCallback(() => {
+    setDialogOpen(false);
+  }, []);
+
+  const handleNameChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    setName(e.target.value);
+  }, []);
+
+  const handlePinnedChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    setPinned(e.target.checked);
+  }, []);
+
+  const handleSaveView = useCallback(async () => {
+    if (!trimmedName || isDuplicateName) return;
+    try {
+      await addView({ name: trimmedName, path, query: toSavedViewQuery(location.search), pinned });
+      setDialogOpen(false);
+      showToast(SUCCESS_VIEW_SAVED, 'success');
+    } catch (err) {
+      console.error('Failed to save view:', err);
+      showToast(ERROR_SAVE_VIEW, 'error');
+    }
+  }, [trimmedName, isDuplicateName, addView, path, location.search, pinned, showToast]);
+
+  return (
+    <>
+      <Button variant="outlined" startIcon={<SavedViewsIcon />} onClick={handleOpenMenu}>
+        Saved Views
+      </Button>
+      <Menu anchorEl={anchorEl} open={Boolean(anchorEl)} onClose={handleCloseMenu} PaperProps={menuPaperProps}>
+        {pageViews.length === 0 && (
+          <Typography variant="body2" color="text.secondary" sx={emptyTypographySx}>
+            No saved views yet
+          </Typography>
+        )}
+        {pageViews.map((view) => (
+          <MenuItem key={view.id} onClick={() => handleOpenView(getSavedViewUrl(view))}>
+            <ListItemText primary={view.name} sx={viewNameSx} />
+            <Tooltip title={view.pinned ? 'Unpin from sidebar' : 'Pin to sidebar'}>
+              <span>
+                <IconButton
+                  size="small"
+                  onClick={(e) => handleTogglePinned(e, view.id)}
+                  disabled={isUpdating}
+                >
+                  {view.pinned ? <PinnedIcon fontSize="small" /> : <UnpinnedIcon fontSize="small" />}
+                </IconButton>
+              </span>
+            </Tooltip>
+            <Tooltip title="Delete view">
+              <span>
+                <IconButton size="small" onClick={(e) => handleDeleteView(e, view.id)} disabled={isUpdating}>
+                  <DeleteIcon fontSize="small" />
+                </IconButton>
+              </span>
+            </Tooltip>
+          </MenuItem>
+        ))}
+        <Divider />
+        <MenuItem onClick={handleOpenDialog}>
+          <ListItemIcon>
+            <SaveViewIcon fontSize="small" />
+          </ListItemIcon>
+          <ListItemText primary="Save current view..." />
+        </MenuItem>
+      </Menu>
+
+      <Dialog open={dialogOpen} onClose={handleCloseDialog} fullWidth maxWidth="xs">
+        <DialogTitle>Save View</DialogTitle>
+        <DialogContent>
+          <Typography variant="body2" color="text.secondary">
+            Saves the current filters, search and sorting so the whole team can reopen them.
+          </Typography>
+          <TextField
+            autoFocus
+            fullWidth
+            label="Name"
+            placeholder="e.g. Expiring this month"
+            value={name}
+            onChange={handleNameChange}
+            error={isDuplicateName}
+            helperText={isDuplicateName ? ERROR_DUPLICATE_NAME : undefined}
+            margin="normal"
+            sx={nameFieldSx}
+          />
+          <FormControlLabel
+            control={<Checkbox checked={pinned} onChange={handlePinnedChange} />}
+            label="Pin to sidebar"
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={handleCloseDialog}>Cancel</Button>
+          <Button
+            onClick={handleSaveView}
+            variant="contained"
+            disabled={!trimmedName || isDuplicateName || isUpdating}
+          >
+            {isUpdating ? 'Saving...' : 'Save'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </>
+  );
+}
+
+// Memoize the component to prevent unnecessary re-renders when parent re-renders
+export const SavedViewsMenu = memo(SavedViewsMenuComponent);
@@ -0,0 +1,100 @@
+import { Paper, Typography, Box, Divider, Alert } from '@mui/material';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { memo, useCallback } from 'react';
+import { RenewalForecast } from '../../utils/renewalForecast';
+import { formatCurrency } from '../../utils/formatters';
+
+interface RenewalForecastChartProps {
+  forecast: RenewalForecast;
+  // True when not every subscription could be loaded, so totals are a lower bound
+  isPartial?: boolean;
+}
+
+// Extract sx props to constants to prevent recreation on every render
+const paperSx = { p: 3, height: '100%' };
+const summaryBoxSx = { display: 'flex', alignItems: 'center', gap: 2, mb: 1 };
+const chartBoxSx = { width: '100%', height: 300, mt: 2 };
+const dividerSx = { my: 2 };
+const atRiskHeaderSx = { display: 'flex', justifyContent: 'space-between', alignItems: 'baseline', mb: 1 };
+const atRiskRowSx = { display: 'flex', justifyContent: 'space-between', py: 0.5 };
+const partialAlertSx = { mt: 2 };
+
+function RenewalForecastChartComponent({ forecast, isPartial = false }: RenewalForecastChartProps) {
+  // Memoize the tooltip formatter function to prevent recreation on every render
+  const formatTooltipValue = useCallback((value: number) => `$${value.toLocaleString()}`, []);
+
+  return (
+    <Paper sx={paperSx}>
+      <Typography variant="h6" gutterBottom>
+        Renewal Forecast (Next {forecast.months.length} Months)
+      </Typography>
+      <Box sx={summaryBoxSx}>
+        <Typography variant="h4" color="primary">
+          {formatCurrency(forecast.totalExpectedRevenue)}
+        </Typography>
+        <Typography variant="body2" color="text.secondary">
+          Expected annual renewals
+        </Typography>
+      </Box>
+      <Box sx={chartBoxSx}>
+        <ResponsiveContainer>
+          <LineChart data={forecast.months}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="label" />
+            <YAxis />
+            <Tooltip formatter={formatTooltipValue} />
+            <Legend />
+            <Line
+              type="monotone"
+              dataKey="expectedRevenue"
+              name="Expected"
+              stroke="#1a237e"
+              strokeWidth={2}
+            />
+            <Line
+              type="monotone"
+              dataKey="cumulativeRevenue"
+              name="Cumulative"
+              stroke="#1b5e20"
+              strokeWidth={2}
+              strokeDasharray="5 5"
+            />
+          </LineChart>
+        </ResponsiveContainer>
+      </Box>
+
+      <Divider sx={dividerSx} />
+
+      <Box sx={atRiskHeaderSx}>
+        <Typography variant="subtitle1">At-Risk Revenue (Grace Period)</Typography>
+        <Typography variant="h6" color="warning.main">
+          {formatCurrency(forecast.atRisk.revenue)}
+        </Typography>
+      </Box>
+      {forecast.atRisk.count === 0 ? (
+        <Typography variant="body2" color="text.secondary">
+          No subscriptions in grace period
+        </Typography>
+      ) : (
+        forecast.atRisk.buckets.map((bucket) => (
+          <Box key={bucket.label} sx={atRiskRowSx}>
+            <Typography variant="body2" color="text.secondary">
+              {bucket.label} ({bucket.count})
+            </Typography>
+            <Typography variant="body2">{formatCurrency(bucket.revenue)}</Typography>
+          </Box>
+        ))
+      )}
+
+      {isPartial && (
+        <Alert severity="info" sx={partialAlertSx}>
+          Not all subscriptions could be loaded; figures are a lower bound.
+        </Alert>
+      )}
+    </Paper>
+  );
+}
+
+// Memoize the component to prevent unnecessary re-renders when parent re-renders
+// This is especially important since charts can be expensive to re-render
+export const RenewalForecastChart = memo(RenewalForecastChartComponent);
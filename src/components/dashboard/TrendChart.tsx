@@ -0,0 +1,118 @@
+import { Paper, Typography, Box, Chip } from '@mui/material';
+import { TrendingUp as TrendingUpIcon, TrendingDown as TrendingDownIcon } from '@mui/icons-material';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { memo, useMemo, useCallback } from 'react';
+import { StatsInterval, StatsTimeSeries } from '../../api/statsApi';
+import { toBeirutTime } from '../../utils/dateUtils';
+import { formatCurrency } from '../../utils/formatters';
+
+type TrendMetric = 'revenue' | 'activations';
+
+interface TrendChartProps {
+  title: string;
+  metric: TrendMetric;
+  series: StatsTimeSeries;
+  showComparison: boolean;
+}
+
+// Bucket label formats per interval
+const BUCKET_LABEL_FORMATS: Record<StatsInterval, string> = {
+  day: 'MMM D',
+  week: '[Wk of] MMM D',
+  month: 'MMM YYYY',
+};
+
+// Line colors matching the other dashboard charts
+const METRIC_COLORS: Record<TrendMetric, string> = {
+  revenue: '#1a237e',
+  activations: '#1b5e20',
+};
+const PREVIOUS_COLOR = '#9e9e9e';
+
+// Extract sx props to constants to prevent recreation on every render
+const paperSx = { p: 3, height: '100%' };
+const summaryBoxSx = { display: 'flex', alignItems: 'center', gap: 2, mb: 1 };
+const chartBoxSx = { width: '100%', height: 300, mt: 2 };
+
+function TrendChartComponent({ title, metric, series, showComparison }: TrendChartProps) {
+  const formatValue = useCallback(
+    (value: number) => (metric === 'revenue' ? formatCurrency(value) : value.toLocaleString()),
+    [metric]
+  );
+
+  // Memoize chart data to prevent recreation on every render
+  // Previous-period points are aligned with current points by position
+  const chartData = useMemo(() => {
+    const labelFormat = BUCKET_LABEL_FORMATS[series.interval];
+    return series.current.map((point, index) => ({
+      name: toBeirutTime(point.bucket)?.format(labelFormat) ?? point.bucket,
+      Current: point[metric],
+      Previous: series.previous[index]?.[metric] ?? 0,
+    }));
+  }, [series, metric]);
+
+  // Performance: Single pass per period to compute totals
+  const { currentTotal, previousTotal } = useMemo(
+    () => ({
+      currentTotal: series.current.reduce((sum, point) => sum + point[metric], 0),
+      previousTotal: series.previous.reduce((sum, point) => sum + point[metric], 0),
+    }),
+    [series, metric]
+  );
+
+  // Percentage change is undefined when the previous period had nothing to compare against
+  const changePercent = previousTotal > 0 ? ((currentTotal - previousTotal) / previousTotal) * 100 : null;
+  const isUp = changePercent !== null && changePercent >= 0;
+
+  return (
+    <Paper sx={paperSx}>
+      <Typography variant="h6" gutterBottom>
+        {title}
+      </Typography>
+      <Box sx={summaryBoxSx}>
+        <Typography variant="h4" color="primary">
+          {formatValue(currentTotal)}
+        </Typography>
+        {showComparison && changePercent !== null && (
+          <Chip
+            icon={isUp ? <TrendingUpIcon /> : <TrendingDownIcon />}
+            label={`${isUp ? '+' : ''}${changePercent.toFixed(1)}% vs previous period`}
+            color={isUp ? 'success' : 'error'}
+            size="small"
+          />
+        )}
+        {showComparison && changePercent === null && (
+          <Typography variant="body2" color="text.secondary">
+            No data in previous period
+          </Typography>
+        )}
+      </Box>
+      <Box sx={chartBoxSx}>
+        <ResponsiveContainer>
+          <LineChart data={chartData}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="name" />
+            <YAxis allowDecimals={metric === 'revenue'} />
+            <Tooltip formatter={formatValue} />
+            <Legend />
+            <Line type="monotone" dataKey="Current" stroke={METRIC_COLORS[metric]} strokeWidth={2} />
+            {showComparison && (
+              <Line
+                type="monotone"
+                dataKey="Previous"
+                name="Previous period"
+                stroke={PREVIOUS_COLOR}
+                strokeWidth={2}
+                strokeDasharray="5 5"
+              />
+            )}
+          </LineChart>
+        </ResponsiveContainer>
+      </Box>
+    </Paper>
+  );
+}
+
+// Memoize the component to prevent unnecessary re-renders when parent re-renders
+// This is especially important since charts can be expensive to re-render
+export const TrendChart = memo(TrendChartComponent);
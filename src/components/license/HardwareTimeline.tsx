@@ -0,0 +1,146 @@
+import {
+  Box,
+  Chip,
+  CircularProgress,
+  List,
+  ListItem,
+  ListItemButton,
+  ListItemIcon,
+  ListItemText,
+  Typography,
+} from '@mui/material';
+import {
+  CheckCircle as ActiveIcon,
+  HourglassEmpty as PendingIcon,
+  SwapHoriz as TransferredIcon,
+  RemoveCircleOutline as DeactivatedIcon,
+} from '@mui/icons-material';
+import { memo } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useGetHardwareHistoryQuery } from '../../api/activationApi';
+import { HardwareBinding, HardwareBindingStatus } from '../../types/license.types';
+import { formatDateTime } from '../../utils/formatters';
+import { routes } from '../../config/routes';
+
+// Constants
+const ERROR_LOADING_HISTORY = 'Failed to load hardware history.';
+
+const STATUS_CONFIG: Record<
+  HardwareBindingStatus,
+  { label: string; color: 'success' | 'info' | 'default'; Icon: typeof ActiveIcon }
+> = {
+  active: { label: 'Active', color: 'success', Icon: ActiveIcon },
+  pending: { label: 'Awaiting activation', color: 'info', Icon: PendingIcon },
+  transferred: { label: 'Transferred', color: 'default', Icon: TransferredIcon },
+  deactivated: { label: 'Deactivated', color: 'default', Icon: DeactivatedIcon },
+};
+
+// Extract sx props to constants to prevent recreation on every render
+const messageBoxSx = { display: 'flex', justifyContent: 'center', py: 2 };
+const primaryBoxSx = { display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' };
+const hardwareIdSx = { fontFamily: 'monospace', wordBreak: 'break-all' };
+const currentItemSx = { bgcolor: 'action.selected' };
+
+interface HardwareTimelineProps {
+  licenseId: number;
+  // Highlights the activation being viewed
+  currentActivationId?: number;
+}
+
+const getPeriod = (binding: HardwareBinding): string =>
+  binding.status === 'pending'
+    ? `Authorised ${formatDateTime(binding.boundAt)}`
+    : `${formatDateTime(binding.boundAt)} – ${binding.unboundAt ? formatDateTime(binding.unboundAt) : 'now'}`;
+
+const getSecondary = (binding: HardwareBinding): string =>
+  [
+    binding.machineName,
+    getPeriod(binding),
+    binding.reason && `Reason: ${binding.reason}`,
+    binding.performedBy && `By ${binding.performedBy}`,
+  ]
+    .filter(Boolean)
+    .join(' · ');
+
+/**
+ * Every hardware ID a license has been bound to, newest first, including transfers and their
+ * reasons. Entries with an activation link to it.
+ */
+function HardwareTimelineComponent({ licenseId, currentActivationId }: HardwareTimelineProps) {
+  const navigate = useNavigate();
+  const { data: bindings, isLoading, error } = useGetHardwareHistoryQuery(licenseId);
+
+  if (isLoading) {
+    return (
+      <Box sx={messageBoxSx}>
+        <CircularProgress size={24} />
+      </Box>
+    );
+  }
+
+  if (error) {
+    return (
+      <Box sx={messageBoxSx}>
+        <Typography variant="body2" color="error">
+          {ERROR_LOADING_HISTORY}
+        </Typography>
+      </Box>
+    );
+  }
+
+  if (!bindings || bindings.length === 0) {
+    return (
+      <Box sx={messageBoxSx}>
+        <Typography variant="body2" color="text.secondary">
+          This license has not been bound to any hardware yet.
+        </Typography>
+      </Box>
+    );
+  }
+
+  return (
+    <List dense>
+      {bindings.map((binding) => {
+        const { label, color, Icon } = STATUS_CONFIG[binding.status];
+        const content = (
+          <>
+            <ListItemIcon>
+              <Icon color={color === 'default' ? 'disabled' : color} />
+            </ListItemIcon>
+            <ListItemText
+              disableTypography
+              primary={
+                <Box sx={primaryBoxSx}>
+                  <Typography variant="body2" sx={hardwareIdSx}>
+                    {binding.hardwareId}
+                  </Typography>
+                  <Chip label={label} color={color} size="small" />
+                </Box>
+              }
+              secondary={
+                <Typography variant="body2" color="text.secondary">
+                  {getSecondary(binding)}
+                </Typography>
+              }
+            />
+          </>
+        );
+        const { activationId } = binding;
+        // The same hardware can be bound more than once, so the key includes the bind date
+        const key = `${binding.hardwareId}-${binding.boundAt}`;
+        return activationId !== null && activationId !== currentActivationId ? (
+          <ListItemButton key={key} onClick={() => navigate(routes.activations.view(activationId))}>
+            {content}
+          </ListItemButton>
+        ) : (
+          <ListItem key={key} sx={activationId !== null ? currentItemSx : undefined}>
+            {content}
+          </ListItem>
+        );
+      })}
+    </List>
+  );
+}
+
+// Memoize the component to prevent unnecessary re-renders when parent re-renders
+export const HardwareTimeline = memo(HardwareTimelineComponent);
@@ -10,13 +10,17 @@ import PhoneInput from 'react-phone-number-input';
 import 'react-phone-number-input/style.css';
 import { useSendOTPMutation, useVerifyOTPMutation } from '../../api/phoneVerificationApi';
 import { useGetPreferencesQuery } from '../../api/preferencesApi';
+import { useApiErrorHandler } from '../../hooks/useApiErrorHandler';
 import { CheckCircle } from '@mui/icons-material';
 
 interface LicenseFormProps {
   initialData?: Partial<LicenseFormData>;
+  // Rejections are reported here: the server's reason as a toast, validation messages on their fields
   onSubmit: (data: CreateLicenseInput | UpdateLicenseInput) => Promise<void>;
   isLoading?: boolean;
   submitLabel?: string;
+  // Toast shown when a failed submit has no reason from the server
+  submitErrorMessage?: string;
 }
 
 // Extract sx props to constants to prevent recreation on every render
@@ -28,7 +32,10 @@ function LicenseFormComponent({
   onSubmit,
   isLoading = false,
   submitLabel = 'Submit',
+  submitErrorMessage = 'Failed to save license. Please try again.',
 }: LicenseFormProps) {
+  const { handleApiError } = useApiErrorHandler();
+
   // Get preferences to check if phone verification is enabled
   const { data: preferences } = useGetPreferencesQuery();
   const isPhoneVerificationEnabled = preferences?.general?.phoneNumberVerification ?? true;
@@ -73,6 +80,7 @@ function LicenseFormComponent({
     control,
     handleSubmit,
     watch,
+    setError,
     formState: { errors },
   } = useForm<LicenseFormData>({
     resolver: zodResolver(licenseFormSchema),
@@ -127,9 +135,21 @@ function LicenseFormComponent({
         startDate: data.startDate ? dateToUTCISOString(data.startDate) : undefined,
         endDate: data.endDate ? dateToUTCISOString(data.endDate) : undefined,
       };
-      await onSubmit(submitData);
+      try {
+        await onSubmit(submitData);
+      } catch (err) {
+        handleApiError(err, {
+          fallbackMessage: submitErrorMessage,
+          setFieldError: (field, message) => {
+            // Server field names match the form's; ignore any the form doesn't have
+            if (field in defaultValues) {
+              setError(field as keyof LicenseFormData, { type: 'server', message });
+            }
+          },
+        });
+      }
     },
-    [onSubmit, verificationToken, isPhoneVerificationEnabled]
+    [onSubmit, verificationToken, isPhoneVerificationEnabled, handleApiError, submitErrorMessage, defaultValues, setError]
   );
 
   // Memoize the number field onChange handler to prevent recreation
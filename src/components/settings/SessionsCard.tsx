@@ -0,0 +1,168 @@
+import {
+  Box,
+  Typography,
+  Paper,
+  Divider,
+  List,
+  ListItem,
+  ListItemIcon,
+  ListItemText,
+  IconButton,
+  Tooltip,
+  Chip,
+  Button,
+  CircularProgress,
+  Alert,
+} from '@mui/material';
+import { Devices as SessionsIcon, Computer as DeviceIcon, Logout as SignOutIcon } from '@mui/icons-material';
+import { memo, useCallback, useMemo, useState } from 'react';
+import {
+  useGetSessionsQuery,
+  useRevokeSessionMutation,
+  useRevokeOtherSessionsMutation,
+} from '../../features/auth/slice/authApi';
+import { AdminSession } from '../../types/auth.types';
+import { formatDateTime } from '../../utils/formatters';
+import { ConfirmDialog } from '../common/Modals/ConfirmDialog';
+import { useToastContext } from '../common/Toast/useToastContext';
+
+// Constants
+const SUCCESS_SESSION_REVOKED = 'Session signed out';
+const ERROR_LOADING_SESSIONS = 'Failed to load sessions. Please try again.';
+const ERROR_REVOKE_SESSION = 'Failed to sign out session. Please try again.';
+const ERROR_REVOKE_OTHERS = 'Failed to sign out other sessions. Please try again.';
+
+// Extract sx props to constants to prevent recreation on every render
+const paperSx = { p: 1.5 };
+const iconBoxSx = { display: 'flex', alignItems: 'center', mb: 1 };
+const iconSx = { mr: 1, color: 'primary.main' };
+const dividerSx = { mb: 1 };
+const loadingBoxSx = { display: 'flex', justifyContent: 'center', py: 2 };
+const primaryBoxSx = { display: 'flex', alignItems: 'center', gap: 1 };
+const footerBoxSx = { display: 'flex', justifyContent: 'flex-end', mt: 1 };
+
+function SessionsCardComponent() {
+  const { showToast } = useToastContext();
+  const { data: sessions, isLoading, error } = useGetSessionsQuery();
+  const [revokeSession] = useRevokeSessionMutation();
+  const [revokeOtherSessions, { isLoading: isRevokingOthers }] = useRevokeOtherSessionsMutation();
+  const [revokeOthersDialogOpen, setRevokeOthersDialogOpen] = useState(false);
+
+  // Performance: Current session first, then most recently active
+  const sortedSessions = useMemo(
+    () =>
+      [...(sessions || [])].sort((a, b) =>
+        a.isCurrent !== b.isCurrent ? (a.isCurrent ? -1 : 1) : b.lastSeenAt.localeCompare(a.lastSeenAt)
+      ),
+    [sessions]
+  );
+  const otherSessionCount = sortedSessions.filter((session) => !session.isCurrent).length;
+
+  // Memoize handleRevoke to prevent recreation on every render
+  const handleRevoke = useCallback(
+    async (session: AdminSession) => {
+      try {
+        await revokeSession(session.id).unwrap();
+        showToast(SUCCESS_SESSION_REVOKED, 'success');
+      } catch (err) {
+        console.error('Failed to revoke session:', err);
+        showToast(ERROR_REVOKE_SESSION, 'error');
+      }
+    },
+    [revokeSession, showToast]
+  );
+
+  // Memoize handleRevokeOthersConfirm to prevent recreation on every render
+  const handleRevokeOthersConfirm = useCallback(async () => {
+    setRevokeOthersDialogOpen(false);
+    try {
+      const { revokedCount } = await revokeOtherSessions().unwrap();
+      showToast(`Signed out ${revokedCount} other session${revokedCount !== 1 ? 's' : ''}`, 'success');
+    } catch (err) {
+      console.error('Failed to revoke other sessions:', err);
+      showToast(ERROR_REVOKE_OTHERS, 'error');
+    }
+  }, [revokeOtherSessions, showToast]);
+
+  const handleOpenRevokeOthers = useCallback(() => {
+    setRevokeOthersDialogOpen(true);
+  }, []);
+
+  const handleCloseRevokeOthers = useCallback(() => {
+    setRevokeOthersDialogOpen(false);
+  }, []);
+
+  return (
+    <Paper sx={paperSx}>
+      <Box sx={iconBoxSx}>
+        <SessionsIcon sx={iconSx} />
+        <Typography variant="h6">Sessions</Typography>
+      </Box>
+      <Divider sx={dividerSx} />
+
+      {isLoading ? (
+        <Box sx={loadingBoxSx}>
+          <CircularProgress size={24} />
+        </Box>
+      ) : error ? (
+        <Alert severity="error">{ERROR_LOADING_SESSIONS}</Alert>
+      ) : (
+        <List dense>
+          {sortedSessions.map((session) => (
+            <ListItem
+              key={session.id}
+              secondaryAction={
+                !session.isCurrent && (
+                  <Tooltip title="Sign out this session">
+                    <IconButton edge="end" size="small" onClick={() => handleRevoke(session)}>
+                      <SignOutIcon fontSize="small" />
+                    </IconButton>
+                  </Tooltip>
+                )
+              }
+            >
+              <ListItemIcon>
+                <DeviceIcon />
+              </ListItemIcon>
+              <ListItemText
+                primary={
+                  <Box component="span" sx={primaryBoxSx}>
+                    {session.device}
+                    {session.isCurrent && <Chip label="This device" color="primary" size="small" />}
+                  </Box>
+                }
+                secondary={`${session.ipAddress || 'Unknown IP'} · Last seen ${formatDateTime(session.lastSeenAt)}`}
+              />
+            </ListItem>
+          ))}
+        </List>
+      )}
+
+      <Box sx={footerBoxSx}>
+        <Button
+          variant="outlined"
+          color="warning"
+          startIcon={<SignOutIcon />}
+          onClick={handleOpenRevokeOthers}
+          disabled={otherSessionCount === 0 || isRevokingOthers}
+        >
+          {isRevokingOthers ? 'Signing out...' : 'Sign Out Other Sessions'}
+        </Button>
+      </Box>
+
+      <ConfirmDialog
+        open={revokeOthersDialogOpen}
+        title="Sign Out Other Sessions"
+        message={`Sign out ${otherSessionCount} other session${otherSessionCount !== 1 ? 's' : ''}? Those devices will need to log in again. This session stays signed in.`}
+        confirmLabel="Sign Out"
+        cancelLabel="Cancel"
+        confirmColor="warning"
+        onConfirm={handleRevokeOthersConfirm}
+        onCancel={handleCloseRevokeOthers}
+      />
+    </Paper>
+  );
+}
+
+// Memoize the component to prevent unnecessary re-renders when parent re-renders
+export const SessionsCard = memo(SessionsCardComponent);
@@ -0,0 +1,168 @@
+import { Box, Typography, Paper, Divider, Alert, FormControlLabel, Switch, TextField, Button } from '@mui/material';
+import { VerifiedUser as TwoFactorIcon } from '@mui/icons-material';
+import { memo, useCallback, useState } from 'react';
+import { useSendOTPMutation, useVerifyOTPMutation } from '../../api/phoneVerificationApi';
+import { useUpdateTwoFactorMutation } from '../../features/auth/slice/authApi';
+import { ConfirmDialog } from '../common/Modals/ConfirmDialog';
+import { useToastContext } from '../common/Toast/useToastContext';
+
+// Constants
+const OTP_LENGTH = 6;
+const SUCCESS_ENABLED = 'Two-factor authentication enabled';
+const SUCCESS_DISABLED = 'Two-factor authentication disabled';
+const ERROR_SEND_OTP = 'Failed to send verification code. Please try again.';
+const ERROR_ENABLE = 'Invalid or expired verification code.';
+const ERROR_DISABLE = 'Failed to disable two-factor authentication. Please try again.';
+
+// Extract sx props to constants to prevent recreation on every render
+const paperSx = { p: 1.5 };
+const iconBoxSx = { display: 'flex', alignItems: 'center', mb: 1 };
+const iconSx = { mr: 1, color: 'primary.main' };
+const dividerSx = { mb: 2.5 };
+const alertSx = { mt: 1 };
+const verifyBoxSx = { display: 'flex', gap: 1, alignItems: 'flex-start', mt: 2 };
+
+interface TwoFactorSettingsCardProps {
+  // Saved profile phone; codes are always sent here
+  phone: string;
+  enabled: boolean;
+}
+
+function TwoFactorSettingsCardComponent({ phone, enabled }: TwoFactorSettingsCardProps) {
+  const { showToast } = useToastContext();
+  const [sendOTP, { isLoading: isSendingOTP }] = useSendOTPMutation();
+  const [verifyOTP, { isLoading: isVerifyingOTP }] = useVerifyOTPMutation();
+  const [updateTwoFactor, { isLoading: isUpdating }] = useUpdateTwoFactorMutation();
+
+  // Enabling is a two-step flow: send a code to the saved phone, then verify it
+  const [otpSent, setOtpSent] = useState(false);
+  const [otpCode, setOtpCode] = useState('');
+  const [disableDialogOpen, setDisableDialogOpen] = useState(false);
+
+  const resetEnableFlow = useCallback(() => {
+    setOtpSent(false);
+    setOtpCode('');
+  }, []);
+
+  // Memoize handleToggle to prevent recreation on every render
+  const handleToggle = useCallback(async () => {
+    if (enabled) {
+      setDisableDialogOpen(true);
+      return;
+    }
+    try {
+      await sendOTP({ phone }).unwrap();
+      setOtpSent(true);
+    } catch (err) {
+      console.error('Failed to send OTP:', err);
+      showToast(ERROR_SEND_OTP, 'error');
+    }
+  }, [enabled, phone, sendOTP, showToast]);
+
+  // Memoize handleEnable to prevent recreation on every render
+  const handleEnable = useCallback(async () => {
+    try {
+      const { verificationToken } = await verifyOTP({ phone, otpCode }).unwrap();
+      await updateTwoFactor({ enabled: true, verificationToken }).unwrap();
+      resetEnableFlow();
+      showToast(SUCCESS_ENABLED, 'success');
+    } catch (err) {
+      console.error('Failed to enable two-factor authentication:', err);
+      showToast(ERROR_ENABLE, 'error');
+    }
+  }, [phone, otpCode, verifyOTP, updateTwoFactor, resetEnableFlow, showToast]);
+
+  // Memoize handleDisableConfirm to prevent recreation on every render
+  const handleDisableConfirm = useCallback(async () => {
+    setDisableDialogOpen(false);
+    try {
+      await updateTwoFactor({ enabled: false }).unwrap();
+      showToast(SUCCESS_DISABLED, 'success');
+    } catch (err) {
+      console.error('Failed to disable two-factor authentication:', err);
+      showToast(ERROR_DISABLE, 'error');
+    }
+  }, [updateTwoFactor, showToast]);
+
+  const handleDisableCancel = useCallback(() => {
+    setDisableDialogOpen(false);
+  }, []);
+
+  const handleOtpChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    setOtpCode(e.target.value.replace(/\D/g, '').slice(0, OTP_LENGTH));
+  }, []);
+
+  const hasPhone = phone.trim() !== '';
+
+  return (
+    <Paper sx={paperSx}>
+      <Box sx={iconBoxSx}>
+        <TwoFactorIcon sx={iconSx} />
+        <Typography variant="h6">Two-Factor Authentication</Typography>
+      </Box>
+      <Divider sx={dividerSx} />
+
+      <Typography variant="body2" color="text.secondary">
+        When enabled, signing in also requires a one-time code sent to your phone.
+      </Typography>
+      <FormControlLabel
+        control={
+          <Switch
+            checked={enabled || otpSent}
+            onChange={handleToggle}
+            disabled={!hasPhone || otpSent || isSendingOTP || isUpdating}
+          />
+        }
+        label={enabled ? 'Enabled' : 'Disabled'}
+      />
+
+      {!hasPhone && !enabled && (
+        <Alert severity="info" sx={alertSx}>
+          Save a phone number in your profile to enable two-factor authentication.
+        </Alert>
+      )}
+
+      {otpSent && (
+        <>
+          <Alert severity="info" sx={alertSx}>
+            Enter the {OTP_LENGTH}-digit code sent to {phone} to finish enabling two-factor authentication.
+          </Alert>
+          <Box sx={verifyBoxSx}>
+            <TextField
+              size="small"
+              label="Verification Code"
+              value={otpCode}
+              onChange={handleOtpChange}
+              autoComplete="one-time-code"
+              inputProps={{ inputMode: 'numeric', maxLength: OTP_LENGTH }}
+            />
+            <Button
+              variant="contained"
+              onClick={handleEnable}
+              disabled={otpCode.length !== OTP_LENGTH || isVerifyingOTP || isUpdating}
+            >
+              {isVerifyingOTP || isUpdating ? 'Verifying...' : 'Verify & Enable'}
+            </Button>
+            <Button onClick={resetEnableFlow} disabled={isVerifyingOTP || isUpdating}>
+              Cancel
+            </Button>
+          </Box>
+        </>
+      )}
+
+      <ConfirmDialog
+        open={disableDialogOpen}
+        title="Disable Two-Factor Authentication"
+        message="Are you sure? Signing in will only require your username and password."
+        confirmLabel="Disable"
+        cancelLabel="Cancel"
+        confirmColor="warning"
+        onConfirm={handleDisableConfirm}
+        onCancel={handleDisableCancel}
+      />
+    </Paper>
+  );
+}
+
+// Memoize the component to prevent unnecessary re-renders when parent re-renders
+export const TwoFactorSettingsCard = memo(TwoFactorSettingsCardComponent);
@@ -0,0 +1,289 @@
+import {
+  Alert,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Divider,
+  Grid,
+  InputAdornment,
+  Step,
+  StepLabel,
+  Stepper,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { PictureAsPdf as PdfIcon } from '@mui/icons-material';
+import { memo, useCallback, useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useCreatePaymentMutation, PaymentWithLicense } from '../../api/paymentApi';
+import { SubscriptionWithLicense } from '../../api/subscriptionApi';
+import { formatCurrency, formatDate, getPaymentTypeLabel } from '../../utils/formatters';
+import { dateToUTCISOString, getAnnualRenewalPeriod } from '../../utils/dateUtils';
+import { downloadPaymentPdf, getPaymentDocumentNumber } from '../../utils/paymentPdf';
+import { routes } from '../../config/routes';
+import { useApiErrorHandler } from '../../hooks/useApiErrorHandler';
+import { useToastContext } from '../common/Toast/useToastContext';
+
+// Constants
+const STEPS = ['Review', 'Payment', 'Receipt'];
+const REVIEW_STEP = 0;
+const PAYMENT_STEP = 1;
+const RECEIPT_STEP = 2;
+const ERROR_RENEW_FAILED = 'Failed to renew subscription. Please try again.';
+const ERROR_AMOUNT_INVALID = 'Amount must be greater than 0';
+const ERROR_RECEIPT_FAILED = 'Failed to generate receipt';
+
+// Extract sx props to constants to prevent recreation on every render
+const stepperSx = { mb: 3 };
+const sectionTitleSx = { mb: 1 };
+const dividerSx = { my: 2 };
+const alertSx = { mb: 2 };
+const paymentDetailsSx = { mt: 2 };
+const valueSx = { mb: 1 };
+const monospaceValueSx = { mb: 1, fontFamily: 'monospace' };
+
+interface RenewalWizardDialogProps {
+  open: boolean;
+  subscription: SubscriptionWithLicense;
+  onClose: () => void;
+}
+
+interface DetailProps {
+  label: string;
+  value: string;
+  monospace?: boolean;
+}
+
+const Detail = memo(({ label, value, monospace = false }: DetailProps) => (
+  <Grid item xs={12} sm={6}>
+    <Typography variant="subtitle2" color="text.secondary">
+      {label}
+    </Typography>
+    <Typography variant="body1" sx={monospace ? monospaceValueSx : valueSx}>
+      {value}
+    </Typography>
+  </Grid>
+));
+Detail.displayName = 'Detail';
+
+/**
+ * Renew a subscription and record its annual payment in one flow.
+ *
+ * The renewal *is* the annual payment: the server extends the subscription by one year from the
+ * payment date when it records it, so there is a single request and a renewal can no longer
+ * exist without its payment (or the other way round). While offline the payment is queued like
+ * any other and the wizard closes.
+ */
+function RenewalWizardDialogComponent({ open, subscription, onClose }: RenewalWizardDialogProps) {
+  const navigate = useNavigate();
+  const { showToast } = useToastContext();
+  const { handleApiError } = useApiErrorHandler();
+  const [createPayment, { isLoading }] = useCreatePaymentMutation();
+
+  const [activeStep, setActiveStep] = useState(REVIEW_STEP);
+  const [amount, setAmount] = useState('');
+  const [amountError, setAmountError] = useState('');
+  const [paymentDate, setPaymentDate] = useState(() => new Date());
+  const [payment, setPayment] = useState<PaymentWithLicense | null>(null);
+
+  // Start every run from the review step, dated now and pre-filled with the annual fee
+  useEffect(() => {
+    if (open) {
+      setActiveStep(REVIEW_STEP);
+      setAmount((Number(subscription.annualFee) || 0).toFixed(2));
+      setAmountError('');
+      setPaymentDate(new Date());
+      setPayment(null);
+    }
+  }, [open, subscription.annualFee]);
+
+  // Performance: The preview only changes with the payment date
+  const renewalPeriod = useMemo(() => getAnnualRenewalPeriod(paymentDate), [paymentDate]);
+
+  const handleNext = useCallback(() => {
+    setActiveStep(PAYMENT_STEP);
+  }, []);
+
+  const handleBack = useCallback(() => {
+    setActiveStep(REVIEW_STEP);
+  }, []);
+
+  const handleAmountChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    setAmount(e.target.value);
+    setAmountError('');
+  }, []);
+
+  // Memoize handleSubmit to prevent recreation on every render
+  const handleSubmit = useCallback(async () => {
+    const parsedAmount = parseFloat(amount);
+    if (isNaN(parsedAmount) || parsedAmount <= 0) {
+      setAmountError(ERROR_AMOUNT_INVALID);
+      return;
+    }
+
+    try {
+      const result = await createPayment({
+        licenseId: subscription.licenseId,
+        amount: parsedAmount,
+        paymentDate: dateToUTCISOString(paymentDate),
+        isAnnualSubscription: true,
+        paymentType: 'annual',
+      }).unwrap();
+      // The response may omit the license; the receipt needs it
+      setPayment({ ...result, license: result.license ?? subscription.license });
+      setActiveStep(RECEIPT_STEP);
+    } catch (err) {
+      const apiError = handleApiError(err, {
+        fallbackMessage: ERROR_RENEW_FAILED,
+        setFieldError: (field, message) => {
+          if (field === 'amount') setAmountError(message);
+        },
+      });
+      // Queued while offline: the renewal happens when the payment is sent
+      if (apiError.kind === 'queued') {
+        onClose();
+      }
+    }
+  }, [amount, paymentDate, subscription, createPayment, handleApiError, onClose]);
+
+  // Memoize handleDownloadReceipt to prevent recreation on every render
+  const handleDownloadReceipt = useCallback(() => {
+    if (!payment) return;
+    try {
+      downloadPaymentPdf(payment, 'receipt');
+    } catch (err) {
+      console.error('Failed to generate receipt:', err);
+      showToast(ERROR_RECEIPT_FAILED, 'error');
+    }
+  }, [payment, showToast]);
+
+  const handleViewPayment = useCallback(() => {
+    if (payment) {
+      navigate(routes.payments.view(payment.id));
+    }
+  }, [navigate, payment]);
+
+  const isReceiptStep = activeStep === RECEIPT_STEP;
+
+  return (
+    // The receipt step can always be closed; the payment step is locked while saving
+    <Dialog open={open} onClose={isLoading ? undefined : onClose} fullWidth maxWidth="sm">
+      <DialogTitle>Renew Subscription</DialogTitle>
+      <DialogContent>
+        <Stepper activeStep={activeStep} sx={stepperSx}>
+          {STEPS.map((label) => (
+            <Step key={label} completed={isReceiptStep || undefined}>
+              <StepLabel>{label}</StepLabel>
+            </Step>
+          ))}
+        </Stepper>
+
+        {activeStep === REVIEW_STEP && (
+          <>
+            <Typography variant="subtitle1" sx={sectionTitleSx}>
+              Current Period
+            </Typography>
+            <Grid container spacing={1}>
+              <Detail label="Start Date" value={formatDate(subscription.startDate)} />
+              <Detail label="End Date" value={formatDate(subscription.endDate)} />
+            </Grid>
+            <Divider sx={dividerSx} />
+            <Typography variant="subtitle1" sx={sectionTitleSx}>
+              After Renewal
+            </Typography>
+            <Grid container spacing={1}>
+              <Detail label="New Start Date" value={formatDate(renewalPeriod.startDate)} />
+              <Detail label="New End Date" value={formatDate(renewalPeriod.endDate)} />
+              <Detail label="Annual Fee" value={formatCurrency(subscription.annualFee)} />
+              {subscription.license && (
+                <Detail label="License Key" value={subscription.license.licenseKey} monospace />
+              )}
+            </Grid>
+          </>
+        )}
+
+        {activeStep === PAYMENT_STEP && (
+          <>
+            <Alert severity="info" sx={alertSx}>
+              {`Recording this annual payment renews the subscription until ${formatDate(renewalPeriod.endDate)}.`}
+            </Alert>
+            <TextField
+              autoFocus
+              fullWidth
+              label="Amount"
+              type="number"
+              value={amount}
+              onChange={handleAmountChange}
+              error={!!amountError}
+              helperText={amountError || `Pre-filled with the annual fee (${formatCurrency(subscription.annualFee)})`}
+              InputProps={{ startAdornment: <InputAdornment position="start">$</InputAdornment> }}
+              inputProps={{ min: 0, step: '0.01' }}
+            />
+            <Box sx={paymentDetailsSx}>
+              <Grid container spacing={1}>
+                <Detail label="Payment Date" value={formatDate(paymentDate)} />
+                <Detail label="Payment Type" value={getPaymentTypeLabel('annual')} />
+              </Grid>
+            </Box>
+          </>
+        )}
+
+        {isReceiptStep && payment && (
+          <>
+            <Alert severity="success" sx={alertSx}>
+              Subscription renewed and payment recorded.
+            </Alert>
+            <Grid container spacing={1}>
+              <Detail label="Receipt" value={getPaymentDocumentNumber(payment.id, 'receipt')} monospace />
+              <Detail label="Amount Paid" value={formatCurrency(payment.amount)} />
+              <Detail label="Payment Date" value={formatDate(payment.paymentDate)} />
+              <Detail label="Payment Type" value={getPaymentTypeLabel(payment.paymentType, payment.isAnnualSubscription)} />
+              <Detail
+                label="New Period"
+                value={`${formatDate(renewalPeriod.startDate)} – ${formatDate(renewalPeriod.endDate)}`}
+              />
+              {payment.license && <Detail label="License Key" value={payment.license.licenseKey} monospace />}
+            </Grid>
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        {activeStep === REVIEW_STEP && (
+          <>
+            <Button onClick={onClose}>Cancel</Button>
+            <Button onClick={handleNext} variant="contained">
+              Next
+            </Button>
+          </>
+        )}
+        {activeStep === PAYMENT_STEP && (
+          <>
+            <Button onClick={handleBack} disabled={isLoading}>
+              Back
+            </Button>
+            <Button onClick={handleSubmit} variant="contained" disabled={isLoading}>
+              {isLoading ? 'Renewing...' : 'Renew & Record Payment'}
+            </Button>
+          </>
+        )}
+        {isReceiptStep && (
+          <>
+            <Button startIcon={<PdfIcon />} onClick={handleDownloadReceipt}>
+              Download Receipt
+            </Button>
+            <Button onClick={handleViewPayment}>View Payment</Button>
+            <Button onClick={onClose} variant="contained">
+              Done
+            </Button>
+          </>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+}
+
+// Memoize the component to prevent unnecessary re-renders when parent re-renders
+export const RenewalWizardDialog = memo(RenewalWizardDialogComponent);
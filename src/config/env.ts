@@ -11,5 +11,8 @@ export const config = {
   apiBaseUrl: import.meta.env.VITE_API_BASE_URL || 'http://localhost:3000/api',
   appName: import.meta.env.VITE_APP_NAME || 'DigitalizePOS License Manager',
   appVersion: import.meta.env.VITE_APP_VERSION || '1.0.0',
+  // HTTP transport (see api/httpClient.ts)
+  apiTimeoutMs: Number(import.meta.env.VITE_API_TIMEOUT_MS) || 30000,
+  apiMaxRetries: Number(import.meta.env.VITE_API_MAX_RETRIES ?? 3) || 0,
   enableAnalytics: import.meta.env.VITE_ENABLE_ANALYTICS === 'true',
 } as const;
\ No newline at end of file
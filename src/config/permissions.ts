@@ -0,0 +1,44 @@
+import { AdminRole } from '../types/auth.types';
+
+/**
+ * Role-based permission configuration.
+ *
+ * Performance notes:
+ * - Permission sets are created once at module load time
+ * - Lookups are O(1) Set membership checks
+ *
+ * Usage:
+ * - In components: `usePermission('licenses.delete')`
+ * - On routes: `<ProtectedRoute permission="payments.create">`
+ */
+export type Permission =
+  | 'licenses.manage' // Create, edit, increase user limit, reactivate, suspend/unsuspend
+  | 'licenses.revoke'
+  | 'licenses.delete'
+  | 'payments.create'
+  | 'subscriptions.renew'
+  | 'admins.manage'; // List, invite, disable and reset passwords of other admins
+
+const ROLE_PERMISSIONS: Record<AdminRole, ReadonlySet<Permission>> = {
+  viewer: new Set(),
+  support: new Set(['licenses.manage', 'licenses.revoke']),
+  finance: new Set(['payments.create', 'subscriptions.renew']),
+  owner: new Set([
+    'licenses.manage',
+    'licenses.revoke',
+    'licenses.delete',
+    'payments.create',
+    'subscriptions.renew',
+    'admins.manage',
+  ]),
+};
+
+/**
+ * Check whether a role grants a permission.
+ *
+ * @param role - Admin role, or null when logged out
+ * @param permission - Permission to check
+ * @returns True if the role grants the permission
+ */
+export const hasPermission = (role: AdminRole | null, permission: Permission): boolean =>
+  role !== null && ROLE_PERMISSIONS[role].has(permission);
@@ -31,11 +31,18 @@ export const routes = {
     list: '/subscriptions',
     view: (id: number | string) => `/subscriptions/${id}`,
   },
+  customers: {
+    list: '/customers',
+    // Customers are keyed by phone number, which must be URL-encoded (e.g., the leading '+')
+    view: (phone: string) => `/customers/${encodeURIComponent(phone)}`,
+  },
   payments: {
     list: '/payments',
     create: '/payments/create',
     view: (id: number | string) => `/payments/${id}`,
   },
+  audit: '/audit',
+  adminUsers: '/admin-users',
   settings: '/settings',
   preferences: '/preferences',
 } as const;
\ No newline at end of file
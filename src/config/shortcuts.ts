@@ -0,0 +1,37 @@
+/**
+ * Keyboard shortcuts, as listed in the `?` help overlay.
+ *
+ * `keys` uses the format understood by useKeyboardShortcut: a single key ('j', '?') or a
+ * two-key sequence separated by a space ('g l'). Entries with `display` are handled elsewhere
+ * (the command palette, MUI dialogs, focused rows) and are only listed here.
+ */
+export interface ShortcutDefinition {
+  keys: string;
+  description: string;
+  // Shown instead of `keys` in the help overlay
+  display?: string;
+}
+
+export interface ShortcutGroup {
+  title: string;
+  shortcuts: ShortcutDefinition[];
+}
+
+export const SHORTCUTS = {
+  help: { keys: '?', description: 'Show keyboard shortcuts' },
+  commandPalette: { keys: 'ctrl+k', display: 'Ctrl K', description: 'Open the command palette' },
+  goLicenses: { keys: 'g l', description: 'Go to Licenses' },
+  goPayments: { keys: 'g p', description: 'Go to Payments' },
+  goActivations: { keys: 'g a', description: 'Go to Activations' },
+  nextRow: { keys: 'j', description: 'Move to the next row' },
+  previousRow: { keys: 'k', description: 'Move to the previous row' },
+  openRow: { keys: 'enter', display: 'Enter', description: 'Open the selected row' },
+  create: { keys: 'n', description: 'New license (on Licenses) or payment (on Payments)' },
+  closeDialog: { keys: 'escape', display: 'Esc', description: 'Close the open dialog' },
+} satisfies Record<string, ShortcutDefinition>;
+
+export const SHORTCUT_GROUPS: ShortcutGroup[] = [
+  { title: 'General', shortcuts: [SHORTCUTS.help, SHORTCUTS.commandPalette, SHORTCUTS.closeDialog] },
+  { title: 'Navigation', shortcuts: [SHORTCUTS.goLicenses, SHORTCUTS.goPayments, SHORTCUTS.goActivations] },
+  { title: 'Lists', shortcuts: [SHORTCUTS.nextRow, SHORTCUTS.previousRow, SHORTCUTS.openRow, SHORTCUTS.create] },
+];
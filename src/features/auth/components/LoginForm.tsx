@@ -20,7 +20,8 @@ import { useLoginMutation, useGetUserInfoQuery } from '../slice/authApi';
 import { setCredentials, updateUser } from '../slice/authSlice';
 import { useNavigate } from 'react-router-dom';
 import { routes } from '../../../config/routes';
-import { LoginCredentials } from '../../../types/auth.types';
+import { LoginCredentials, AuthResponse, TwoFactorChallenge } from '../../../types/auth.types';
+import { TwoFactorForm } from './TwoFactorForm';
 
 const loginSchema = z.object({
   username: z.string().min(3, 'Username must be at least 3 characters'),
@@ -49,6 +50,8 @@ const DEFAULT_ERROR_MESSAGE = 'Login failed. Please check your credentials.';
 function LoginFormComponent() {
   const [showPassword, setShowPassword] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Set when the password was accepted but the admin has two-factor authentication enabled
+  const [twoFactorChallenge, setTwoFactorChallenge] = useState<TwoFactorChallenge | null>(null);
   const dispatch = useDispatch<AppDispatch>();
   const navigate = useNavigate();
   const [login, { isLoading }] = useLoginMutation();
@@ -63,38 +66,55 @@ function LoginFormComponent() {
     resolver: zodResolver(loginSchema),
   });
 
+  // Memoize completeLogin to prevent recreation on every render
+  // Shared by the password step and the two-factor step
+  const completeLogin = useCallback(
+    async (result: AuthResponse) => {
+      dispatch(setCredentials(result));
+
+      // Refresh user info from server to ensure we have the latest data (especially phone number)
+      // This is important because the login response might not always include the phone number
+      try {
+        const userInfoResult = await refetchUserInfo().unwrap();
+        if (userInfoResult && userInfoResult.phone) {
+          dispatch(updateUser(userInfoResult));
+        } else if (userInfoResult) {
+          // If we got userInfo but no phone, still update (phone might be null in DB)
+          dispatch(updateUser(userInfoResult));
+        }
+      } catch (userInfoError) {
+        // If getUserInfo fails, continue anyway - we already have user data from login
+        console.warn('Failed to refresh user info after login:', userInfoError);
+      }
+
+      navigate(routes.dashboard);
+    },
+    [dispatch, navigate, refetchUserInfo]
+  );
+
   // Memoize the form submit handler to prevent recreation on every render
   const onSubmit = useCallback(
     async (data: LoginCredentials) => {
       try {
         setError(null);
         const result = await login(data).unwrap();
-        dispatch(setCredentials(result));
-        
-        // Refresh user info from server to ensure we have the latest data (especially phone number)
-        // This is important because the login response might not always include the phone number
-        try {
-          const userInfoResult = await refetchUserInfo().unwrap();
-          if (userInfoResult && userInfoResult.phone) {
-            dispatch(updateUser(userInfoResult));
-          } else if (userInfoResult) {
-            // If we got userInfo but no phone, still update (phone might be null in DB)
-            dispatch(updateUser(userInfoResult));
-          }
-        } catch (userInfoError) {
-          // If getUserInfo fails, continue anyway - we already have user data from login
-          console.warn('Failed to refresh user info after login:', userInfoError);
+        if ('twoFactorRequired' in result) {
+          setTwoFactorChallenge(result);
+          return;
         }
-        
-        navigate(routes.dashboard);
+        await completeLogin(result);
       } catch (err: unknown) {
         const error = err as { data?: { message?: string } };
         setError(error?.data?.message || DEFAULT_ERROR_MESSAGE);
       }
     },
-    [login, dispatch, navigate, refetchUserInfo]
+    [login, completeLogin]
   );
 
+  const handleCancelTwoFactor = useCallback(() => {
+    setTwoFactorChallenge(null);
+  }, []);
+
   // Memoize the toggle password handler to prevent recreation on every render
   const handleTogglePassword = useCallback(() => {
     setShowPassword((prev) => !prev);
@@ -130,47 +150,57 @@ function LoginFormComponent() {
             License Manager
           </Typography>
           <Typography variant="body2" color="text.secondary" align="center" sx={subtitleTypographySx}>
-            Sign in to continue
+            {twoFactorChallenge ? 'Two-factor verification' : 'Sign in to continue'}
           </Typography>
 
-          {error && (
-            <Alert severity="error" sx={alertSx}>
-              {error}
-            </Alert>
-          )}
-
-          <form onSubmit={handleSubmit(onSubmit)}>
-            <TextField
-              {...register('username')}
-              label="Username"
-              type="text"
-              fullWidth
-              margin="normal"
-              error={!!errors.username}
-              helperText={errors.username?.message}
-              autoComplete="username"
+          {twoFactorChallenge ? (
+            <TwoFactorForm
+              challenge={twoFactorChallenge}
+              onVerified={completeLogin}
+              onCancel={handleCancelTwoFactor}
             />
-            <TextField
-              {...register('password')}
-              label="Password"
-              type={showPassword ? 'text' : 'password'}
-              fullWidth
-              margin="normal"
-              error={!!errors.password}
-              helperText={errors.password?.message}
-              autoComplete="current-password"
-              InputProps={passwordInputProps}
-            />
-            <Button
-              type="submit"
-              fullWidth
-              variant="contained"
-              sx={submitButtonSx}
-              disabled={isLoading}
-            >
-              {isLoading ? 'Signing in...' : 'Sign In'}
-            </Button>
-          </form>
+          ) : (
+            <>
+              {error && (
+                <Alert severity="error" sx={alertSx}>
+                  {error}
+                </Alert>
+              )}
+
+              <form onSubmit={handleSubmit(onSubmit)}>
+                <TextField
+                  {...register('username')}
+                  label="Username"
+                  type="text"
+                  fullWidth
+                  margin="normal"
+                  error={!!errors.username}
+                  helperText={errors.username?.message}
+                  autoComplete="username"
+                />
+                <TextField
+                  {...register('password')}
+                  label="Password"
+                  type={showPassword ? 'text' : 'password'}
+                  fullWidth
+                  margin="normal"
+                  error={!!errors.password}
+                  helperText={errors.password?.message}
+                  autoComplete="current-password"
+                  InputProps={passwordInputProps}
+                />
+                <Button
+                  type="submit"
+                  fullWidth
+                  variant="contained"
+                  sx={submitButtonSx}
+                  disabled={isLoading}
+                >
+                  {isLoading ? 'Signing in...' : 'Sign In'}
+                </Button>
+              </form>
+            </>
+          )}
         </CardContent>
       </Card>
     </Box>
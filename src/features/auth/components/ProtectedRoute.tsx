@@ -3,23 +3,31 @@ import { Navigate } from 'react-router-dom';
 import { useSelector } from 'react-redux';
 import { RootState } from '../../../store';
 import { routes } from '../../../config/routes';
+import { hasPermission, Permission } from '../../../config/permissions';
 
 interface ProtectedRouteProps {
   children: ReactNode;
+  // Permission required in addition to being logged in; admins without it are sent to the dashboard
+  permission?: Permission;
 }
 
-function ProtectedRouteComponent({ children }: ProtectedRouteProps) {
-  // Performance optimization: Only select isAuthenticated instead of entire state.auth
+function ProtectedRouteComponent({ children, permission }: ProtectedRouteProps) {
+  // Performance optimization: Only select isAuthenticated and role instead of entire state.auth
   // This prevents re-renders when other auth state properties change (e.g., user, token)
   const isAuthenticated = useSelector((state: RootState) => state.auth.isAuthenticated);
+  const role = useSelector((state: RootState) => state.auth.role);
 
   if (!isAuthenticated) {
     return <Navigate to={routes.login} replace />;
   }
 
+  if (permission && !hasPermission(role, permission)) {
+    return <Navigate to={routes.dashboard} replace />;
+  }
+
   return <>{children}</>;
 }
 
 // Memoize the component to prevent unnecessary re-renders when parent re-renders
 // This is especially important since ProtectedRoute is used for all protected routes
-export const ProtectedRoute = memo(ProtectedRouteComponent);
\ No newline at end of file
+export const ProtectedRoute = memo(ProtectedRouteComponent);
@@ -0,0 +1,136 @@
+import { useState, memo, useCallback, useEffect, useRef } from 'react';
+import { Box, TextField, Button, Typography, Alert } from '@mui/material';
+import { useSendOTPMutation, useVerifyOTPMutation } from '../../../api/phoneVerificationApi';
+import { useVerifyTwoFactorLoginMutation } from '../slice/authApi';
+import { AuthResponse, TwoFactorChallenge } from '../../../types/auth.types';
+import { parseApiError } from '../../../utils/apiError';
+
+// Constants
+const OTP_LENGTH = 6;
+const VISIBLE_PHONE_DIGITS = 3;
+const ERROR_SEND_OTP = 'Failed to send verification code. Please try again.';
+const ERROR_VERIFY_OTP = 'Invalid or expired verification code.';
+
+// Extract sx props to constants to prevent recreation on every render
+const alertSx = { mb: 2.5 };
+const descriptionTypographySx = { mb: 1 };
+const buttonsBoxSx = { display: 'flex', justifyContent: 'space-between', mt: 1 };
+const submitButtonSx = { mt: 1.5, mb: 1 };
+
+// Only the last few digits are shown, e.g. "•••••••456"
+const maskPhone = (phone: string): string =>
+  phone.length > VISIBLE_PHONE_DIGITS
+    ? '•'.repeat(phone.length - VISIBLE_PHONE_DIGITS) + phone.slice(-VISIBLE_PHONE_DIGITS)
+    : phone;
+
+interface TwoFactorFormProps {
+  challenge: TwoFactorChallenge;
+  onVerified: (result: AuthResponse) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Second login step: sends an OTP to the admin's phone and exchanges it for a session token.
+ */
+function TwoFactorFormComponent({ challenge, onVerified, onCancel }: TwoFactorFormProps) {
+  const [otpCode, setOtpCode] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [sendOTP, { isLoading: isSendingOTP }] = useSendOTPMutation();
+  const [verifyOTP, { isLoading: isVerifyingOTP }] = useVerifyOTPMutation();
+  const [verifyTwoFactorLogin, { isLoading: isCompletingLogin }] = useVerifyTwoFactorLoginMutation();
+  // Guards against sending a second OTP when StrictMode runs the mount effect twice
+  const sentForChallengeRef = useRef<string | null>(null);
+
+  // Memoize handleSendOTP to prevent recreation on every render
+  const handleSendOTP = useCallback(async () => {
+    try {
+      setError(null);
+      await sendOTP({ phone: challenge.phone }).unwrap();
+    } catch (err: unknown) {
+      console.error('Failed to send OTP:', err);
+      setError(parseApiError(err, ERROR_SEND_OTP).message);
+    }
+  }, [sendOTP, challenge.phone]);
+
+  // Send the first code as soon as the step is shown
+  useEffect(() => {
+    if (sentForChallengeRef.current === challenge.challengeToken) return;
+    sentForChallengeRef.current = challenge.challengeToken;
+    handleSendOTP();
+  }, [challenge.challengeToken, handleSendOTP]);
+
+  // Memoize the form submit handler to prevent recreation on every render
+  const handleSubmit = useCallback(
+    async (e: React.FormEvent) => {
+      e.preventDefault();
+      if (otpCode.length !== OTP_LENGTH) return;
+
+      try {
+        setError(null);
+        const { verificationToken } = await verifyOTP({ phone: challenge.phone, otpCode }).unwrap();
+        const result = await verifyTwoFactorLogin({
+          challengeToken: challenge.challengeToken,
+          verificationToken,
+        }).unwrap();
+        onVerified(result);
+      } catch (err: unknown) {
+        setError(parseApiError(err, ERROR_VERIFY_OTP).message);
+      }
+    },
+    [otpCode, verifyOTP, verifyTwoFactorLogin, challenge, onVerified]
+  );
+
+  const handleOtpChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    setOtpCode(e.target.value.replace(/\D/g, '').slice(0, OTP_LENGTH));
+  }, []);
+
+  const isVerifying = isVerifyingOTP || isCompletingLogin;
+
+  return (
+    <>
+      {error && (
+        <Alert severity="error" sx={alertSx}>
+          {error}
+        </Alert>
+      )}
+
+      <Typography variant="body2" color="text.secondary" sx={descriptionTypographySx}>
+        Enter the {OTP_LENGTH}-digit code sent to {maskPhone(challenge.phone)}.
+      </Typography>
+
+      <form onSubmit={handleSubmit}>
+        <TextField
+          label="Verification Code"
+          value={otpCode}
+          onChange={handleOtpChange}
+          fullWidth
+          margin="normal"
+          autoFocus
+          autoComplete="one-time-code"
+          inputProps={{ inputMode: 'numeric', maxLength: OTP_LENGTH }}
+        />
+        <Button
+          type="submit"
+          fullWidth
+          variant="contained"
+          sx={submitButtonSx}
+          disabled={isVerifying || otpCode.length !== OTP_LENGTH}
+        >
+          {isVerifying ? 'Verifying...' : 'Verify'}
+        </Button>
+      </form>
+
+      <Box sx={buttonsBoxSx}>
+        <Button size="small" onClick={onCancel} disabled={isVerifying}>
+          Back to sign in
+        </Button>
+        <Button size="small" onClick={handleSendOTP} disabled={isSendingOTP || isVerifying}>
+          {isSendingOTP ? 'Sending...' : 'Resend code'}
+        </Button>
+      </Box>
+    </>
+  );
+}
+
+// Memoize the component to prevent unnecessary re-renders when parent re-renders
+export const TwoFactorForm = memo(TwoFactorFormComponent);
@@ -1,9 +1,38 @@
 import { baseApi } from '../../../api/baseApi';
-import { LoginCredentials, AuthResponse } from '../../../types/auth.types';
+import {
+  LoginCredentials,
+  AuthResponse,
+  LoginResult,
+  AdminUser,
+  AdminRole,
+  AdminSession,
+  InviteAdminUserInput,
+} from '../../../types/auth.types';
+
+type LoginResponseData = {
+  token: string;
+  refreshToken?: string;
+  admin: {
+    id: number;
+    username: string;
+    phone: string;
+  };
+};
+
+const toAuthResponse = (data: LoginResponseData): AuthResponse => ({
+  token: data.token,
+  refreshToken: data.refreshToken,
+  user: {
+    id: data.admin.id,
+    phone: data.admin.phone,
+    name: data.admin.username,
+  },
+});
 
 export const authApi = baseApi.injectEndpoints({
   endpoints: (builder) => ({
-    login: builder.mutation<AuthResponse, LoginCredentials>({
+    // Returns a two-factor challenge instead of a token when the admin has 2FA enabled
+    login: builder.mutation<LoginResult, LoginCredentials>({
       query: (credentials) => ({
         url: '/admin/login',
         method: 'POST',
@@ -12,43 +41,49 @@ export const authApi = baseApi.injectEndpoints({
       transformResponse: (response: {
         success: boolean;
         message: string;
-        data: {
-          token: string;
-          admin: {
-            id: number;
-            username: string;
-            phone: string;
-          };
-        };
-      }): AuthResponse => ({
-        token: response.data.token,
-        user: {
-          id: response.data.admin.id,
-          phone: response.data.admin.phone,
-          name: response.data.admin.username,
-        },
+        data: LoginResponseData | { twoFactorRequired: true; challengeToken: string; phone: string };
+      }): LoginResult =>
+        'twoFactorRequired' in response.data
+          ? {
+              twoFactorRequired: true,
+              challengeToken: response.data.challengeToken,
+              phone: response.data.phone,
+            }
+          : toAuthResponse(response.data),
+    }),
+    // Second login step: exchange the challenge and the OTP verification token for a session token
+    verifyTwoFactorLogin: builder.mutation<AuthResponse, { challengeToken: string; verificationToken: string }>({
+      query: (body) => ({
+        url: '/admin/login/two-factor',
+        method: 'POST',
+        body,
       }),
+      transformResponse: (response: { success: boolean; message: string; data: LoginResponseData }) =>
+        toAuthResponse(response.data),
     }),
-    logout: builder.mutation<void, void>({
-      query: () => ({
+    // The refresh token is sent so the server can revoke it along with the session
+    logout: builder.mutation<void, { refreshToken: string | null }>({
+      query: ({ refreshToken }) => ({
         url: '/admin/logout',
         method: 'POST',
+        body: refreshToken ? { refreshToken } : undefined,
       }),
       // Invalidate Auth tags to clear cached user info on logout
       invalidatesTags: ['Auth'],
     }),
-    getUserInfo: builder.query<{ phone: string; name?: string }, void>({
+    getUserInfo: builder.query<{ phone: string; name?: string; twoFactorEnabled: boolean }, void>({
       query: () => '/admin/me',
       transformResponse: (response: {
         success: boolean;
         message: string;
-        data: { id: number; username: string; phone: string | null };
+        data: { id: number; username: string; phone: string | null; twoFactorEnabled?: boolean };
       }) => {
         // Handle null phone from API - convert to empty string
         const phone = response.data.phone || '';
         return {
           phone,
           name: response.data.username,
+          twoFactorEnabled: response.data.twoFactorEnabled ?? false,
         };
       },
       providesTags: ['Auth'],
@@ -85,13 +120,86 @@ export const authApi = baseApi.injectEndpoints({
         body: passwords,
       }),
     }),
+    // Enabling requires a verification token from an OTP sent to the admin's own phone
+    updateTwoFactor: builder.mutation<void, { enabled: boolean; verificationToken?: string }>({
+      query: (body) => ({
+        url: '/admin/two-factor',
+        method: 'PUT',
+        body,
+      }),
+      invalidatesTags: ['Auth'],
+    }),
+    // Active sessions of the current admin
+    getSessions: builder.query<AdminSession[], void>({
+      query: () => '/admin/sessions',
+      transformResponse: (response: { data: AdminSession[] }) => response.data,
+      providesTags: ['Session'],
+    }),
+    // Revokes a session's tokens; that device is signed out on its next request
+    revokeSession: builder.mutation<void, string>({
+      query: (id) => ({
+        url: `/admin/sessions/${id}`,
+        method: 'DELETE',
+      }),
+      invalidatesTags: ['Session'],
+    }),
+    revokeOtherSessions: builder.mutation<{ revokedCount: number }, void>({
+      query: () => ({
+        url: '/admin/sessions/revoke-others',
+        method: 'POST',
+      }),
+      transformResponse: (response: { data: { revokedCount: number } }) => response.data,
+      invalidatesTags: ['Session'],
+    }),
+    // Admin user management (owner only)
+    getAdminUsers: builder.query<AdminUser[], void>({
+      query: () => '/admin/users',
+      transformResponse: (response: { data: AdminUser[] }) => response.data,
+      providesTags: ['AdminUser'],
+    }),
+    // The server generates a temporary password that must be handed to the new admin
+    inviteAdminUser: builder.mutation<{ user: AdminUser; temporaryPassword: string }, InviteAdminUserInput>({
+      query: (data) => ({
+        url: '/admin/users',
+        method: 'POST',
+        body: data,
+      }),
+      transformResponse: (response: { data: { user: AdminUser; temporaryPassword: string } }) => response.data,
+      invalidatesTags: ['AdminUser'],
+    }),
+    updateAdminUser: builder.mutation<AdminUser, { id: number; data: { role?: AdminRole; isActive?: boolean } }>({
+      query: ({ id, data }) => ({
+        url: `/admin/users/${id}`,
+        method: 'PATCH',
+        body: data,
+      }),
+      transformResponse: (response: { data: AdminUser }) => response.data,
+      invalidatesTags: ['AdminUser'],
+    }),
+    // Replaces the admin's password with a new temporary one and ends their sessions
+    resetAdminUserPassword: builder.mutation<{ temporaryPassword: string }, number>({
+      query: (id) => ({
+        url: `/admin/users/${id}/reset-password`,
+        method: 'POST',
+      }),
+      transformResponse: (response: { data: { temporaryPassword: string } }) => response.data,
+    }),
   }),
 });
 
 export const {
   useLoginMutation,
+  useVerifyTwoFactorLoginMutation,
   useLogoutMutation,
   useGetUserInfoQuery,
   useUpdateProfileMutation,
   useChangePasswordMutation,
+  useUpdateTwoFactorMutation,
+  useGetSessionsQuery,
+  useRevokeSessionMutation,
+  useRevokeOtherSessionsMutation,
+  useGetAdminUsersQuery,
+  useInviteAdminUserMutation,
+  useUpdateAdminUserMutation,
+  useResetAdminUserPasswordMutation,
 } = authApi;
\ No newline at end of file
@@ -1,12 +1,13 @@
 import { createSlice, PayloadAction } from '@reduxjs/toolkit';
 import { AuthState, AuthResponse } from '../../../types/auth.types';
-import { getTokenExpirationTime, isTokenExpired } from '../../../utils/jwtUtils';
+import { getTokenExpirationTime, getTokenRole, isTokenExpired } from '../../../utils/jwtUtils';
 
 // Performance optimization: Cache localStorage values to avoid multiple reads
 // This is especially important since initialState is evaluated on every module load
 const getInitialAuthState = (): AuthState => {
   // Read from localStorage only once
   const token = localStorage.getItem('token');
+  const refreshToken = localStorage.getItem('refreshToken');
   const userStr = localStorage.getItem('user');
   
   // Parse user only if it exists
@@ -21,23 +22,26 @@ const getInitialAuthState = (): AuthState => {
   }
   
   // Check authentication status
-  const isAuthenticated = token ? !isTokenExpired(token) : false;
+  // An expired access token is still a session if it can be refreshed on the first request
+  const isAuthenticated = token ? !isTokenExpired(token) || !!refreshToken : false;
   
-  // Calculate token expiry only if token exists and is not expired
+  // Calculate token expiry only if the session is still usable
   let tokenExpiry: string | null = null;
   if (token && isAuthenticated) {
     const expiry = getTokenExpirationTime(token);
-    if (expiry && expiry.getTime() > Date.now()) {
+    if (expiry) {
       tokenExpiry = expiry.toISOString();
     }
   }
   
   return {
     token,
+    refreshToken: isAuthenticated ? refreshToken : null,
     user,
     isAuthenticated,
     isLoading: false,
     tokenExpiry,
+    role: isAuthenticated ? getTokenRole(token) : null,
   };
 };
 
@@ -48,21 +52,42 @@ const authSlice = createSlice({
   initialState,
   reducers: {
     setCredentials: (state, action: PayloadAction<AuthResponse>) => {
-      const { token, user } = action.payload;
+      const { token, refreshToken, user } = action.payload;
       state.token = token;
+      state.refreshToken = refreshToken ?? null;
       state.user = user;
       state.isAuthenticated = true;
       const expiry = getTokenExpirationTime(token);
       state.tokenExpiry = expiry ? expiry.toISOString() : null;
+      state.role = getTokenRole(token);
       localStorage.setItem('token', token);
       localStorage.setItem('user', JSON.stringify(user));
+      if (refreshToken) {
+        localStorage.setItem('refreshToken', refreshToken);
+      } else {
+        localStorage.removeItem('refreshToken');
+      }
+    },
+    // New token pair from a silent refresh; the user and session stay the same
+    tokenRefreshed: (state, action: PayloadAction<{ token: string; refreshToken: string }>) => {
+      const { token, refreshToken } = action.payload;
+      state.token = token;
+      state.refreshToken = refreshToken;
+      const expiry = getTokenExpirationTime(token);
+      state.tokenExpiry = expiry ? expiry.toISOString() : null;
+      state.role = getTokenRole(token);
+      localStorage.setItem('token', token);
+      localStorage.setItem('refreshToken', refreshToken);
     },
     logout: (state) => {
       state.token = null;
+      state.refreshToken = null;
       state.user = null;
       state.isAuthenticated = false;
       state.tokenExpiry = null;
+      state.role = null;
       localStorage.removeItem('token');
+      localStorage.removeItem('refreshToken');
       localStorage.removeItem('user');
     },
     setLoading: (state, action: PayloadAction<boolean>) => {
@@ -84,5 +109,5 @@ const authSlice = createSlice({
   },
 });
 
-export const { setCredentials, logout, setLoading, updateUser } = authSlice.actions;
+export const { setCredentials, tokenRefreshed, logout, setLoading, updateUser } = authSlice.actions;
 export default authSlice.reducer;
\ No newline at end of file
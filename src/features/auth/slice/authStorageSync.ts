@@ -0,0 +1,76 @@
+import type { store as appStore } from '../../../store';
+import { baseApi } from '../../../api/baseApi';
+import { AuthResponse } from '../../../types/auth.types';
+import { setCredentials, logout, updateUser } from './authSlice';
+
+/**
+ * Multi-tab session sync.
+ *
+ * The auth slice persists the session to localStorage, and the browser fires a `storage` event
+ * in every other tab of the same origin when it changes. Mirroring those changes keeps all tabs
+ * on the same session: logging in, logging out, refreshing the token and editing the profile in
+ * one tab apply to the others.
+ *
+ * Performance optimizations:
+ * 1. Key filter: Events for unrelated keys (e.g. other libraries) return immediately
+ * 2. No echo: The browser doesn't fire `storage` in the tab that made the change, and re-writing
+ *    identical values from the handlers below doesn't fire it anywhere
+ */
+
+const AUTH_STORAGE_KEYS = new Set(['token', 'refreshToken', 'user']);
+
+const readStoredUser = (): AuthResponse['user'] | null => {
+  const userStr = localStorage.getItem('user');
+  if (!userStr) return null;
+  try {
+    return JSON.parse(userStr);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Start mirroring auth changes made in other tabs into this tab's store.
+ *
+ * @param store - App store
+ * @returns Function that stops syncing
+ */
+export const startAuthStorageSync = (store: typeof appStore): (() => void) => {
+  const { dispatch, getState } = store;
+
+  const handleStorage = (event: StorageEvent) => {
+    // event.key is null when another tab cleared all of localStorage
+    if (event.key !== null && !AUTH_STORAGE_KEYS.has(event.key)) return;
+
+    const token = localStorage.getItem('token');
+    if (!token) {
+      dispatch(logout());
+      return;
+    }
+
+    const user = readStoredUser();
+    if (!user) return;
+
+    if (event.key === 'user') {
+      dispatch(updateUser({ phone: user.phone, name: user.name }));
+      return;
+    }
+
+    // Login or token refresh in another tab
+    // A different admin logging in must not see data cached for the previous one
+    const previousUserId = getState().auth.user?.id;
+    if (previousUserId !== undefined && previousUserId !== user.id) {
+      dispatch(baseApi.util.resetApiState());
+    }
+    dispatch(
+      setCredentials({
+        token,
+        refreshToken: localStorage.getItem('refreshToken') ?? undefined,
+        user,
+      })
+    );
+  };
+
+  window.addEventListener('storage', handleStorage);
+  return () => window.removeEventListener('storage', handleStorage);
+};
@@ -0,0 +1,33 @@
+import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+import { OfflineState, OutboxItem } from '../../../types/offline.types';
+
+const initialState: OfflineState = {
+  isOnline: typeof navigator === 'undefined' ? true : navigator.onLine,
+  pendingCount: 0,
+  conflicts: [],
+  isReplaying: false,
+};
+
+const offlineSlice = createSlice({
+  name: 'offline',
+  initialState,
+  reducers: {
+    connectivityChanged: (state, action: PayloadAction<boolean>) => {
+      state.isOnline = action.payload;
+    },
+    // baseApi queued a mutation; the full outbox is re-read after the next replay
+    mutationQueued: (state) => {
+      state.pendingCount += 1;
+    },
+    outboxLoaded: (state, action: PayloadAction<OutboxItem[]>) => {
+      state.pendingCount = action.payload.filter((item) => item.status !== 'conflict').length;
+      state.conflicts = action.payload.filter((item) => item.status === 'conflict');
+    },
+    replayStateChanged: (state, action: PayloadAction<boolean>) => {
+      state.isReplaying = action.payload;
+    },
+  },
+});
+
+export const { connectivityChanged, mutationQueued, outboxLoaded, replayStateChanged } = offlineSlice.actions;
+export default offlineSlice.reducer;
@@ -0,0 +1,187 @@
+import type { AppDispatch, RootState, store as appStore } from '../../../store';
+import { clearCachedResponses, pruneCachedResponses } from '../../../api/offlineCache';
+import {
+  claimOutboxItem,
+  getOutboxItems,
+  markOutboxConflict,
+  releaseOutboxItem,
+  removeOutboxItem,
+} from '../../../api/outbox';
+import { parseApiError } from '../../../utils/apiError';
+import { connectivityChanged, outboxLoaded, replayStateChanged } from './offlineSlice';
+import { outboxApi } from './outboxApi';
+
+/**
+ * Offline sync.
+ *
+ * Tracks connectivity and replays the outbox (see api/outbox.ts):
+ * - When the browser comes back online
+ * - At startup and after login, for changes queued in an earlier session
+ *
+ * Replays run oldest first. A replay the server rejects is kept as a conflict for the admin to
+ * review; network, auth, rate limit and server errors stop the run and leave the rest pending,
+ * since they say nothing about the change itself.
+ *
+ * Every open tab runs this, but the outbox is shared, so a change must never be sent by two tabs:
+ * - Only the tab holding the REPLAY_LOCK Web Lock replays; other tabs skip their run
+ * - Each item is claimed ('sending') in an IndexedDB transaction right before it is sent
+ * - The server drops duplicates by idempotency key (see api/outbox.ts) if all else fails
+ *
+ * Performance optimizations:
+ * 1. Single flight: Overlapping triggers (e.g. `online` firing during login) share one replay
+ * 2. Persisted query responses are pruned once at startup and cleared on logout
+ */
+
+const ERROR_REPLAY_REJECTED = 'The server rejected this change.';
+const REPLAY_LOCK = 'outbox-replay';
+
+type Thunk = (dispatch: AppDispatch, getState: () => RootState) => Promise<void>;
+
+let replayPromise: Promise<void> | null = null;
+
+/**
+ * Re-read the current admin's outbox into the store.
+ */
+export const loadOutbox = (): Thunk => async (dispatch, getState) => {
+  const userId = getState().auth.user?.id;
+  if (userId === undefined) {
+    dispatch(outboxLoaded([]));
+    return;
+  }
+  try {
+    dispatch(outboxLoaded(await getOutboxItems(userId)));
+  } catch (error) {
+    console.warn('Failed to read offline outbox:', error);
+  }
+};
+
+const performReplay = async (dispatch: AppDispatch, getState: () => RootState) => {
+  const userId = getState().auth.user?.id;
+  if (userId === undefined || !navigator.onLine) return;
+
+  let items;
+  try {
+    items = await getOutboxItems(userId);
+  } catch (error) {
+    console.warn('Failed to read offline outbox:', error);
+    return;
+  }
+  // The replay lock is held, so a 'sending' item was left behind by a tab that closed mid-send;
+  // sending it again is safe because the server deduplicates by idempotency key
+  const stranded = items.filter((item) => item.status === 'sending');
+  await Promise.all(stranded.map((item) => releaseOutboxItem(item)));
+  const queued = items.filter((item) => item.status !== 'conflict');
+
+  if (queued.length > 0) {
+    dispatch(replayStateChanged(true));
+    for (const queuedItem of queued) {
+      const item = await claimOutboxItem(queuedItem.id).catch(() => undefined);
+      // Dismissed or already sent in the meantime
+      if (!item) continue;
+      try {
+        await dispatch(outboxApi.endpoints.replayOutboxItem.initiate(item)).unwrap();
+        await removeOutboxItem(item.id);
+      } catch (err) {
+        const apiError = parseApiError(err, ERROR_REPLAY_REJECTED);
+        if (['network', 'unauthorized', 'rateLimit', 'server'].includes(apiError.kind)) {
+          console.warn(`Outbox replay paused (${apiError.kind}):`, err);
+          await releaseOutboxItem(item);
+          break;
+        }
+        await markOutboxConflict(item, apiError.message);
+      }
+    }
+    dispatch(replayStateChanged(false));
+  }
+
+  await dispatch(loadOutbox());
+};
+
+/**
+ * Run the replay while holding the cross-tab lock. If another tab is already replaying, this tab
+ * only refreshes its view of the outbox. Browsers without Web Locks fall back to the per-item claim.
+ */
+const replayWithLock = async (dispatch: AppDispatch, getState: () => RootState) => {
+  if (typeof navigator === 'undefined' || !navigator.locks) {
+    await performReplay(dispatch, getState);
+    return;
+  }
+  await navigator.locks.request(REPLAY_LOCK, { ifAvailable: true }, async (lock) => {
+    if (lock) {
+      await performReplay(dispatch, getState);
+    } else {
+      await dispatch(loadOutbox());
+    }
+  });
+};
+
+/**
+ * Send the current admin's pending changes, sharing an in-flight replay between callers.
+ */
+export const replayOutbox = (): Thunk => (dispatch, getState) => {
+  if (!replayPromise) {
+    replayPromise = replayWithLock(dispatch, getState).finally(() => {
+      replayPromise = null;
+    });
+  }
+  return replayPromise;
+};
+
+/**
+ * Remove a conflict once the admin has reviewed it.
+ */
+export const dismissOutboxConflict =
+  (id: number): Thunk =>
+  async (dispatch) => {
+    try {
+      await removeOutboxItem(id);
+    } catch (error) {
+      console.warn('Failed to remove outbox item:', error);
+    }
+    await dispatch(loadOutbox());
+  };
+
+/**
+ * Start tracking connectivity and replaying the outbox.
+ *
+ * @param store - App store
+ * @returns Function that stops syncing
+ */
+export const startOfflineSync = (store: typeof appStore): (() => void) => {
+  const { dispatch, getState } = store;
+
+  const handleOnline = () => {
+    dispatch(connectivityChanged(true));
+    dispatch(replayOutbox());
+  };
+  const handleOffline = () => {
+    dispatch(connectivityChanged(false));
+  };
+
+  // Login replays changes queued in an earlier session; logout drops persisted responses
+  let previousUserId = getState().auth.user?.id;
+  const unsubscribe = store.subscribe(() => {
+    const userId = getState().auth.user?.id;
+    if (userId === previousUserId) return;
+    previousUserId = userId;
+    if (userId === undefined) {
+      clearCachedResponses();
+      dispatch(outboxLoaded([]));
+    } else {
+      dispatch(replayOutbox());
+    }
+  });
+
+  window.addEventListener('online', handleOnline);
+  window.addEventListener('offline', handleOffline);
+  pruneCachedResponses();
+  dispatch(replayOutbox());
+  // Show queued changes right away, even while offline
+  dispatch(loadOutbox());
+
+  return () => {
+    unsubscribe();
+    window.removeEventListener('online', handleOnline);
+    window.removeEventListener('offline', handleOffline);
+  };
+};
@@ -0,0 +1,17 @@
+import { baseApi } from '../../../api/baseApi';
+import { OUTBOX_ENDPOINTS } from '../../../api/outbox';
+import { OutboxItem } from '../../../types/offline.types';
+
+/**
+ * Replays queued mutations through the normal transport (auth refresh, request IDs, error
+ * normalisation). This endpoint isn't an outbox endpoint itself, so a replay that fails offline
+ * is never queued a second time.
+ */
+export const outboxApi = baseApi.injectEndpoints({
+  endpoints: (builder) => ({
+    replayOutboxItem: builder.mutation<unknown, OutboxItem>({
+      query: (item) => item.args,
+      invalidatesTags: (_result, error, item) => (error ? [] : OUTBOX_ENDPOINTS[item.endpoint]?.invalidatesTags ?? []),
+    }),
+  }),
+});
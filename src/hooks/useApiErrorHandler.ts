@@ -0,0 +1,50 @@
+import { useCallback, useMemo } from 'react';
+import { useToastContext } from '../components/common/Toast/useToastContext';
+import { ApiError, parseApiError } from '../utils/apiError';
+import { ToastMessage } from './useToast';
+
+interface HandleApiErrorOptions {
+  // Shown when the server gave no usable reason, e.g. 'Failed to create payment. Please try again.'
+  fallbackMessage: string;
+  // Receives each validation message; map server field names to form fields here
+  setFieldError?: (field: string, message: string) => void;
+}
+
+const getSeverity = (apiError: ApiError): ToastMessage['severity'] => {
+  if (apiError.kind === 'queued') return 'info';
+  if (apiError.kind === 'conflict' || apiError.kind === 'rateLimit') return 'warning';
+  return 'error';
+};
+
+/**
+ * Report a failed API call to the user.
+ *
+ * Shows the parsed reason as a toast (a warning for conflicts and rate limits, which the user can
+ * resolve by retrying or refreshing; info for changes queued while offline) and hands validation
+ * messages to the form.
+ *
+ * Performance: The returned object is memoized and only changes with the toast context.
+ *
+ * @returns handleApiError(error, options), which also returns the parsed error
+ */
+export const useApiErrorHandler = () => {
+  const { showToast } = useToastContext();
+
+  // Memoize handleApiError to prevent recreation on every render
+  const handleApiError = useCallback(
+    (error: unknown, { fallbackMessage, setFieldError }: HandleApiErrorOptions): ApiError => {
+      const apiError = parseApiError(error, fallbackMessage);
+      console.error(`API error (${apiError.kind}, request ${apiError.requestId ?? 'n/a'}):`, error);
+
+      if (setFieldError) {
+        Object.entries(apiError.fieldErrors).forEach(([field, message]) => setFieldError(field, message));
+      }
+
+      showToast(apiError.message, getSeverity(apiError));
+      return apiError;
+    },
+    [showToast]
+  );
+
+  return useMemo(() => ({ handleApiError }), [handleApiError]);
+};
@@ -0,0 +1,70 @@
+import { useEffect, useRef } from 'react';
+
+// Constants
+const SEQUENCE_TIMEOUT = 1000; // Max gap between the two keys of a sequence like 'g l'
+
+// Last two key presses, shared by every shortcut so sequences work across components
+let currentKey: { key: string; at: number } | null = null;
+let previousKey: { key: string; at: number } | null = null;
+
+// Capture phase runs before the shortcut listeners, so they see the press that completed a sequence
+if (typeof window !== 'undefined') {
+  window.addEventListener(
+    'keydown',
+    (event) => {
+      previousKey = currentKey;
+      currentKey = { key: event.key.toLowerCase(), at: Date.now() };
+    },
+    true
+  );
+}
+
+/**
+ * Shortcuts are ignored while typing, with Ctrl/Cmd/Alt held (browser and palette shortcuts),
+ * and inside dialogs, which trap focus and handle their own keys.
+ */
+const shouldIgnoreEvent = (event: KeyboardEvent): boolean => {
+  if (event.ctrlKey || event.metaKey || event.altKey) return true;
+  const target = event.target as HTMLElement | null;
+  if (!target) return false;
+  if (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return true;
+  return !!target.closest('[role="dialog"]');
+};
+
+const matchesKeys = (event: KeyboardEvent, keys: string): boolean => {
+  const parts = keys.toLowerCase().split(' ');
+  if (event.key.toLowerCase() !== parts[parts.length - 1]) return false;
+  if (parts.length === 1) return true;
+  return (
+    previousKey !== null && previousKey.key === parts[0] && Date.now() - previousKey.at <= SEQUENCE_TIMEOUT
+  );
+};
+
+/**
+ * Register a global keyboard shortcut (see config/shortcuts.ts for the format and the full list).
+ *
+ * Performance: The handler is kept in a ref, so callers don't need to memoize it and the
+ * listener is only re-attached when `keys` or `enabled` change.
+ *
+ * @param keys - Key or two-key sequence, e.g. 'n' or 'g l'
+ * @param handler - Called when the shortcut is pressed
+ * @param enabled - Set to false to disable the shortcut (e.g. missing permission)
+ */
+export const useKeyboardShortcut = (keys: string, handler: (event: KeyboardEvent) => void, enabled = true) => {
+  const handlerRef = useRef(handler);
+
+  useEffect(() => {
+    handlerRef.current = handler;
+  });
+
+  useEffect(() => {
+    if (!enabled) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.defaultPrevented || shouldIgnoreEvent(event) || !matchesKeys(event, keys)) return;
+      event.preventDefault();
+      handlerRef.current(event);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [keys, enabled]);
+};
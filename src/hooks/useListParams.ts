@@ -0,0 +1,157 @@
+import { useCallback, useMemo, useRef } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { PAGINATION } from '../utils/constants';
+
+export type SortOrder = 'asc' | 'desc';
+
+export type ListFilters = Record<string, string>;
+
+interface UseListParamsOptions<F extends ListFilters> {
+  // Filter values used when the URL doesn't specify one ('' means "no filter").
+  // Pass a module-level constant so the parsed filters stay referentially stable.
+  defaultFilters: F;
+  // Allowed values per filter; anything else in the URL falls back to the default
+  filterOptions?: { [K in keyof F]?: readonly string[] };
+  defaultSortBy: string;
+  defaultSortOrder: SortOrder;
+  // Fields the server accepts for sorting; anything else in the URL falls back to the default
+  sortableFields: readonly string[];
+}
+
+// Query string keys for the built-in list state
+const PAGE_PARAM = 'page';
+const PAGE_SIZE_PARAM = 'pageSize';
+const SORT_BY_PARAM = 'sortBy';
+const SORT_ORDER_PARAM = 'sortOrder';
+
+const PAGE_SIZE_OPTIONS: readonly number[] = PAGINATION.PAGE_SIZE_OPTIONS;
+
+/**
+ * Hook to keep a list page's paging, sorting and filters in the URL query string
+ *
+ * Features:
+ * - Page, page size, sort and every filter survive refreshes and can be shared as a link
+ * - Values matching the defaults are omitted so links stay short
+ * - Unknown or malformed values in the URL fall back to the defaults
+ * - Changing filters, sort or page size resets to the first page in the same navigation
+ *
+ * Performance optimizations:
+ * - Memoizes parsed filters so query params only change when the URL does
+ * - Uses `replace` navigation so typing and paging don't flood the browser history
+ * - Reads the latest params through refs so setters are stable and debounced callbacks
+ *   never overwrite newer state
+ *
+ * @returns Parsed list state (page is 0-based, as used by DataTable) and setters
+ */
+export const useListParams = <F extends ListFilters>({
+  defaultFilters,
+  filterOptions,
+  defaultSortBy,
+  defaultSortOrder,
+  sortableFields,
+}: UseListParamsOptions<F>) => {
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  // Keep the latest params in refs so the setters stay stable and callbacks fired
+  // from timers apply on top of the current state instead of a stale render
+  const searchParamsRef = useRef(searchParams);
+  searchParamsRef.current = searchParams;
+  const setSearchParamsRef = useRef(setSearchParams);
+  setSearchParamsRef.current = setSearchParams;
+
+  // Apply a batch of changes in a single navigation; null or empty values remove the key
+  const updateParams = useCallback(
+    (changes: Record<string, string | null>) => {
+      const next = new URLSearchParams(searchParamsRef.current);
+      Object.entries(changes).forEach(([key, value]) => {
+        if (value === null || value === '') {
+          next.delete(key);
+        } else {
+          next.set(key, value);
+        }
+      });
+      setSearchParamsRef.current(next, { replace: true });
+    },
+    []
+  );
+
+  const rawPage = Number(searchParams.get(PAGE_PARAM));
+  const page = Number.isInteger(rawPage) && rawPage > 1 ? rawPage - 1 : 0;
+
+  const rawPageSize = Number(searchParams.get(PAGE_SIZE_PARAM));
+  const rowsPerPage = PAGE_SIZE_OPTIONS.includes(rawPageSize) ? rawPageSize : PAGINATION.DEFAULT_LIMIT;
+
+  const rawSortBy = searchParams.get(SORT_BY_PARAM);
+  const rawSortOrder = searchParams.get(SORT_ORDER_PARAM);
+  const sortBy = rawSortBy && sortableFields.includes(rawSortBy) ? rawSortBy : defaultSortBy;
+  const sortOrder: SortOrder =
+    rawSortOrder === 'asc' || rawSortOrder === 'desc' ? rawSortOrder : defaultSortOrder;
+
+  // Performance: Reduce the URL to just this page's filter keys so the memo below
+  // only recomputes when a filter changes, not on every page or sort change
+  const filterQuery = new URLSearchParams(
+    Object.keys(defaultFilters).flatMap((key) => {
+      const value = searchParams.get(key);
+      return value === null ? [] : [[key, value]];
+    })
+  ).toString();
+
+  const filters = useMemo(() => {
+    const values = new URLSearchParams(filterQuery);
+    const parsed = { ...defaultFilters };
+    (Object.keys(defaultFilters) as Array<keyof F & string>).forEach((key) => {
+      const value = values.get(key);
+      if (value === null) return;
+      const allowed = filterOptions?.[key];
+      if (!allowed || allowed.includes(value)) {
+        parsed[key] = value as F[keyof F & string];
+      }
+    });
+    return parsed;
+  }, [filterQuery, defaultFilters, filterOptions]);
+
+  const setPage = useCallback(
+    (newPage: number) => {
+      updateParams({ [PAGE_PARAM]: newPage > 0 ? String(newPage + 1) : null });
+    },
+    [updateParams]
+  );
+
+  const setRowsPerPage = useCallback(
+    (newRowsPerPage: number) => {
+      updateParams({
+        [PAGE_SIZE_PARAM]: newRowsPerPage === PAGINATION.DEFAULT_LIMIT ? null : String(newRowsPerPage),
+        [PAGE_PARAM]: null,
+      });
+    },
+    [updateParams]
+  );
+
+  const setFilters = useCallback(
+    (changes: Partial<F>) => {
+      const next: Record<string, string | null> = { [PAGE_PARAM]: null };
+      Object.entries(changes).forEach(([key, value]) => {
+        next[key] = value === undefined || value === defaultFilters[key] ? null : value;
+      });
+      updateParams(next);
+    },
+    [updateParams, defaultFilters]
+  );
+
+  const setSort = useCallback(
+    (newSortBy: string, newSortOrder: SortOrder) => {
+      const isDefault = newSortBy === defaultSortBy && newSortOrder === defaultSortOrder;
+      updateParams({
+        [SORT_BY_PARAM]: isDefault ? null : newSortBy,
+        [SORT_ORDER_PARAM]: isDefault ? null : newSortOrder,
+        [PAGE_PARAM]: null,
+      });
+    },
+    [updateParams, defaultSortBy, defaultSortOrder]
+  );
+
+  return useMemo(
+    () => ({ page, rowsPerPage, sortBy, sortOrder, filters, setPage, setRowsPerPage, setSort, setFilters }),
+    [page, rowsPerPage, sortBy, sortOrder, filters, setPage, setRowsPerPage, setSort, setFilters]
+  );
+};
@@ -0,0 +1,110 @@
+import { useEffect } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import { AppDispatch, RootState } from '../store';
+import { baseApi } from '../api/baseApi';
+import {
+  getLiveEventsUrl,
+  getLiveEventTags,
+  LIVE_EVENT_TAGS,
+  LiveEvent,
+  liveEventsApi,
+  parseLiveEvent,
+} from '../api/liveEvents';
+import { useToastContext } from '../components/common/Toast/useToastContext';
+
+// Constants
+const RECONNECT_BASE_DELAY = 2000; // 2 seconds
+const RECONNECT_MAX_DELAY = 60000; // 1 minute
+const ACTIVATION_TOAST_DURATION = 6000; // 6 seconds
+
+const getActivationMessage = (event: LiveEvent): string => {
+  const where = event.locationName || event.licenseKey || `license #${event.licenseId}`;
+  return `New activation: ${where}${event.machineName ? ` (${event.machineName})` : ''}`;
+};
+
+/**
+ * Keep cached data in sync with changes made elsewhere (see api/liveEvents).
+ *
+ * - Invalidates the tags matching each event, so open pages refetch
+ * - Shows a toast when a POS activates a license
+ * - Opens every connection with a fresh stream ticket, so the access token never appears in a URL
+ * - Reconnects with exponential backoff and refetches everything after a reconnect to cover
+ *   events missed while disconnected
+ * - Stays disconnected while offline or logged out
+ *
+ * Performance: Only the authentication flag and connectivity are selected, so the connection is
+ * only recreated when one of them changes (not when the access token is refreshed).
+ */
+export const useLiveUpdates = () => {
+  const dispatch = useDispatch<AppDispatch>();
+  const { showToast } = useToastContext();
+  const isAuthenticated = useSelector((state: RootState) => state.auth.isAuthenticated);
+  const isOnline = useSelector((state: RootState) => state.offline.isOnline);
+
+  useEffect(() => {
+    if (!isAuthenticated || !isOnline || typeof EventSource === 'undefined') return;
+
+    let source: EventSource | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    let failedAttempts = 0;
+    let hasConnected = false;
+    let isClosed = false;
+
+    const scheduleReconnect = () => {
+      const delay = Math.min(RECONNECT_BASE_DELAY * 2 ** failedAttempts, RECONNECT_MAX_DELAY);
+      failedAttempts += 1;
+      reconnectTimer = setTimeout(connect, delay);
+    };
+
+    const connect = async () => {
+      let ticket: string;
+      try {
+        // Not tracked in the store: tickets are single-use and nothing renders them
+        const result = await dispatch(
+          liveEventsApi.endpoints.createLiveEventsTicket.initiate(undefined, { track: false })
+        ).unwrap();
+        ticket = result.ticket;
+      } catch {
+        if (!isClosed) scheduleReconnect();
+        return;
+      }
+      // Unmounted, logged out or went offline while the ticket was requested
+      if (isClosed) return;
+
+      source = new EventSource(getLiveEventsUrl(ticket));
+
+      source.onopen = () => {
+        if (hasConnected) {
+          dispatch(baseApi.util.invalidateTags(LIVE_EVENT_TAGS));
+        }
+        hasConnected = true;
+        failedAttempts = 0;
+      };
+
+      source.onmessage = (message: MessageEvent<string>) => {
+        const event = parseLiveEvent(message.data);
+        if (!event) return;
+        dispatch(baseApi.util.invalidateTags(getLiveEventTags(event)));
+        if (event.entity === 'activation' && event.action === 'created') {
+          showToast(getActivationMessage(event), 'info', ACTIVATION_TOAST_DURATION);
+        }
+      };
+
+      // EventSource's own retry would reuse this URL's spent ticket, so reconnect manually
+      source.onerror = () => {
+        source?.close();
+        scheduleReconnect();
+      };
+    };
+
+    connect();
+
+    return () => {
+      isClosed = true;
+      if (reconnectTimer) {
+        clearTimeout(reconnectTimer);
+      }
+      source?.close();
+    };
+  }, [isAuthenticated, isOnline, dispatch, showToast]);
+};
@@ -0,0 +1,18 @@
+import { useSelector } from 'react-redux';
+import { RootState } from '../store';
+import { hasPermission, Permission } from '../config/permissions';
+
+/**
+ * Check whether the logged-in admin's role grants a permission.
+ *
+ * Performance: Only selects the role, so components re-render only when the role changes.
+ *
+ * Note: This only hides UI; the API enforces permissions server-side.
+ *
+ * @param permission - Permission to check
+ * @returns True if the current role grants the permission
+ */
+export const usePermission = (permission: Permission): boolean => {
+  const role = useSelector((state: RootState) => state.auth.role);
+  return hasPermission(role, permission);
+};
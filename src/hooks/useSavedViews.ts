@@ -0,0 +1,75 @@
+import { useCallback, useMemo } from 'react';
+import { useGetPreferencesQuery, useUpdatePreferencesMutation, SavedView } from '../api/preferencesApi';
+
+// Query string keys that are never stored in a saved view
+const TRANSIENT_PARAMS = ['page'];
+
+/**
+ * Build the URL a saved view navigates to.
+ *
+ * @param view - Saved view
+ * @returns Path including the saved query string
+ */
+export const getSavedViewUrl = (view: Pick<SavedView, 'path' | 'query'>): string =>
+  view.query ? `${view.path}?${view.query}` : view.path;
+
+/**
+ * Normalise a location search string for storage in a saved view.
+ * Drops the current page so a view always opens on its first page.
+ *
+ * @param search - Location search string (with or without the leading "?")
+ * @returns Query string without the leading "?"
+ */
+export const toSavedViewQuery = (search: string): string => {
+  const params = new URLSearchParams(search);
+  TRANSIENT_PARAMS.forEach((key) => params.delete(key));
+  return params.toString();
+};
+
+// IDs only need to be unique within the preferences document
+const createViewId = (): string => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Hook to read and manage saved list views stored in the preferences backend
+ *
+ * Performance optimizations:
+ * - Shares the cached preferences query with the rest of the app (no extra requests)
+ * - Memoized callbacks and return object to prevent unnecessary re-renders of consumers
+ *
+ * @returns Saved views and mutations; mutations resolve once the backend has saved the list
+ */
+export const useSavedViews = () => {
+  const { data: preferences } = useGetPreferencesQuery();
+  const [updatePreferences, { isLoading: isUpdating }] = useUpdatePreferencesMutation();
+
+  const savedViews = useMemo(() => preferences?.savedViews ?? [], [preferences?.savedViews]);
+
+  const saveViews = useCallback(
+    async (views: SavedView[]) => {
+      await updatePreferences({ savedViews: views }).unwrap();
+    },
+    [updatePreferences]
+  );
+
+  const addView = useCallback(
+    (view: Pick<SavedView, 'name' | 'path' | 'query' | 'pinned'>) =>
+      saveViews([...savedViews, { ...view, id: createViewId(), createdAt: new Date().toISOString() }]),
+    [saveViews, savedViews]
+  );
+
+  const deleteView = useCallback(
+    (id: string) => saveViews(savedViews.filter((view) => view.id !== id)),
+    [saveViews, savedViews]
+  );
+
+  const togglePinned = useCallback(
+    (id: string) =>
+      saveViews(savedViews.map((view) => (view.id === id ? { ...view, pinned: !view.pinned } : view))),
+    [saveViews, savedViews]
+  );
+
+  return useMemo(
+    () => ({ savedViews, isUpdating, addView, deleteView, togglePinned }),
+    [savedViews, isUpdating, addView, deleteView, togglePinned]
+  );
+};
@@ -4,10 +4,12 @@ import { RootState } from '../store';
 import { logout } from '../features/auth/slice/authSlice';
 import { isTokenExpired, isTokenExpiringSoon, getTokenTimeRemaining } from '../utils/jwtUtils';
 import { useToastContext } from '../components/common/Toast/useToastContext';
+import { refreshAccessToken } from '../api/tokenRefresh';
 
 // Constants
 const CHECK_INTERVAL = 30000; // 30 seconds
 const WARNING_THRESHOLD_MINUTES = 5;
+const REFRESH_THRESHOLD_MINUTES = 2; // Refresh idle sessions shortly before the access token expires
 const WARNING_TOAST_DURATION = 10000; // 10 seconds
 const EXPIRED_MESSAGE = 'Your session has expired. Please log in again.';
 const LOGIN_PATH = '/login';
@@ -17,8 +19,10 @@ const LOGIN_PATH = '/login';
  * 
  * Features:
  * - Checks token expiry periodically
- * - Shows warning when token is about to expire
- * - Automatically logs out when token expires
+ * - Silently refreshes the token before it expires when a refresh token is available,
+ *   so idle tabs (e.g. a half-filled form) keep their session
+ * - Without a refresh token: shows warning when token is about to expire
+ * - Logs out when the token expires and can't be refreshed
  * - Returns session status information
  * 
  * Performance optimizations:
@@ -33,6 +37,7 @@ export const useSessionExpiry = () => {
   // This prevents re-renders when other auth state properties change
   const token = useSelector((state: RootState) => state.auth.token);
   const tokenExpiry = useSelector((state: RootState) => state.auth.tokenExpiry);
+  const hasRefreshToken = useSelector((state: RootState) => state.auth.refreshToken !== null);
   
   // Track if we've already shown the warning to avoid spam
   const warningShownRef = useRef(false);
@@ -41,7 +46,23 @@ export const useSessionExpiry = () => {
    * Check and handle token expiry
    * Performance optimization: Uses tokenExpiry from state when available to avoid JWT parsing
    */
-  const checkTokenExpiry = useCallback(() => {
+  const handleExpired = useCallback(() => {
+    dispatch(logout());
+    showToast(EXPIRED_MESSAGE, 'warning');
+    if (window.location.pathname !== LOGIN_PATH) {
+      // Use pathname assignment to avoid file:// protocol issues
+      // For http/https, pathname assignment works correctly
+      // For file:// protocol, construct URL properly
+      if (window.location.protocol === 'file:') {
+        const basePath = window.location.href.substring(0, window.location.href.lastIndexOf('/') + 1);
+        window.location.href = basePath + 'login';
+      } else {
+        window.location.pathname = LOGIN_PATH;
+      }
+    }
+  }, [dispatch, showToast]);
+
+  const checkTokenExpiry = useCallback(async () => {
     if (!token) {
       return;
     }
@@ -57,23 +78,22 @@ export const useSessionExpiry = () => {
       isExpired = isTokenExpired(token);
     }
 
-    if (isExpired) {
-      dispatch(logout());
-      showToast(EXPIRED_MESSAGE, 'warning');
-      if (window.location.pathname !== LOGIN_PATH) {
-        // Use pathname assignment to avoid file:// protocol issues
-        // For http/https, pathname assignment works correctly
-        // For file:// protocol, construct URL properly
-        if (window.location.protocol === 'file:') {
-          const basePath = window.location.href.substring(0, window.location.href.lastIndexOf('/') + 1);
-          window.location.href = basePath + 'login';
-        } else {
-          window.location.pathname = LOGIN_PATH;
+    if (hasRefreshToken) {
+      // A successful refresh changes the token, which restarts this check with the new expiry
+      if (isExpired || isTokenExpiringSoon(token, REFRESH_THRESHOLD_MINUTES)) {
+        const refreshResult = await refreshAccessToken();
+        if (refreshResult === 'rejected') {
+          handleExpired();
         }
       }
       return;
     }
 
+    if (isExpired) {
+      handleExpired();
+      return;
+    }
+
     // Check if token is expiring soon (within 5 minutes)
     // Performance: Only check if we haven't shown the warning yet
     if (!warningShownRef.current) {
@@ -99,7 +119,7 @@ export const useSessionExpiry = () => {
         }
       }
     }
-  }, [token, tokenExpiry, dispatch, showToast]);
+  }, [token, tokenExpiry, hasRefreshToken, handleExpired, showToast]);
 
   /**
    * Set up periodic checking
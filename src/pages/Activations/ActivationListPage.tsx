@@ -7,24 +7,62 @@ import {
   Grid,
   Chip,
   IconButton,
+  Button,
+  Tooltip,
 } from '@mui/material';
-import { Visibility as ViewIcon } from '@mui/icons-material';
-import { useGetActivationsQuery } from '../../api/activationApi';
+import { Visibility as ViewIcon, CleaningServices as CleanupIcon } from '@mui/icons-material';
+import {
+  activationApi,
+  DEACTIVATION_TAGS,
+  useGetActivationsQuery,
+  useDeactivateActivationInBatchMutation,
+} from '../../api/activationApi';
+import { useGetPreferencesQuery } from '../../api/preferencesApi';
 import { DataTable, Column } from '../../components/common/DataTable/DataTable';
+import { SavedViewsMenu } from '../../components/common/SavedViews/SavedViewsMenu';
+import { BulkProgressDialog, BulkProgressItem } from '../../components/common/Modals/BulkProgressDialog';
+import { DeactivateStaleDialog } from '../../components/activation/DeactivateStaleDialog';
 import { Activation } from '../../types/license.types';
 import { formatDateTime } from '../../utils/formatters';
+import { STALE_ACTIVATIONS } from '../../utils/constants';
+import { getStaleCutoff, isActivationStale } from '../../utils/staleActivations';
+import { parseApiError } from '../../utils/apiError';
 import { useNavigate } from 'react-router-dom';
+import { useDispatch } from 'react-redux';
+import { AppDispatch } from '../../store';
 import { routes } from '../../config/routes';
-import { PAGINATION } from '../../utils/constants';
+import { useListParams } from '../../hooks/useListParams';
+import { usePermission } from '../../hooks/usePermission';
+
+// Constants
+const STALE_STATUS = 'stale';
+const ERROR_DEACTIVATE_FAILED = 'Failed to deactivate activation';
 
 const statusOptions: { value: string; label: string }[] = [
   { value: '', label: 'All Statuses' },
   { value: 'true', label: 'Active' },
   { value: 'false', label: 'Inactive' },
+  { value: STALE_STATUS, label: 'Stale' },
 ];
 
+// Columns the server can sort by; kept in sync with the sortable table columns
+const SORTABLE_FIELDS = [
+  'activatedAt',
+  'lastValidation',
+  'licenseId',
+  'hardwareId',
+  'machineName',
+  'isActive',
+] as const;
+
+// Filters kept in the URL so filtered views can be shared as links
+const DEFAULT_FILTERS = { status: '', search: '', licenseId: '' };
+const FILTER_OPTIONS = { status: statusOptions.map((option) => option.value) };
+
 // Extract sx props to constants to prevent recreation on every render
-const titleSx = { mb: 3 };
+const headerBoxSx = { display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 3 };
+const headerActionsSx = { display: 'flex', alignItems: 'center', gap: 1 };
+const lastValidationBoxSx = { display: 'flex', alignItems: 'center', gap: 1 };
 const filtersGridSx = { mb: 3 };
 const errorBoxSx = { mb: 2 };
 
@@ -33,27 +71,52 @@ const DEBOUNCE_DELAY = 500;
 
 export const ActivationListPage = () => {
   const navigate = useNavigate();
-  const [page, setPage] = useState(0);
-  const [rowsPerPage, setRowsPerPage] = useState<number>(PAGINATION.DEFAULT_LIMIT);
-  const [statusFilter, setStatusFilter] = useState<string>('');
-  const [searchQuery, setSearchQuery] = useState('');
-  const [debouncedSearchQuery, setDebouncedSearchQuery] = useState('');
-  const [licenseIdFilter, setLicenseIdFilter] = useState<string>('');
-  const [debouncedLicenseIdFilter, setDebouncedLicenseIdFilter] = useState<string>('');
+  const { page, rowsPerPage, sortBy, sortOrder, filters, setPage, setRowsPerPage, setSort, setFilters } =
+    useListParams({
+      defaultFilters: DEFAULT_FILTERS,
+      filterOptions: FILTER_OPTIONS,
+      defaultSortBy: 'activatedAt',
+      defaultSortOrder: 'desc',
+      sortableFields: SORTABLE_FIELDS,
+    });
+  const { status: statusFilter, search: debouncedSearchQuery, licenseId: debouncedLicenseIdFilter } = filters;
+  const canManageLicenses = usePermission('licenses.manage');
+  const { data: preferences } = useGetPreferencesQuery();
+  const staleAfterDays = preferences?.activations?.staleAfterDays ?? STALE_ACTIVATIONS.DEFAULT_AFTER_DAYS;
+  // Performance: The cutoff only moves when the threshold changes, so it doesn't change the query args
+  const staleCutoff = useMemo(() => getStaleCutoff(staleAfterDays), [staleAfterDays]);
+  const isStaleFilter = statusFilter === STALE_STATUS;
+  const [staleDialogOpen, setStaleDialogOpen] = useState(false);
+  const [bulkProgress, setBulkProgress] = useState<BulkProgressItem[] | null>(null);
+  const dispatch = useDispatch<AppDispatch>();
+  const [deactivateActivation] = useDeactivateActivationInBatchMutation();
+  // Text inputs update immediately; the debounced value is what lives in the URL
+  const [searchQuery, setSearchQuery] = useState(debouncedSearchQuery);
+  const [licenseIdFilter, setLicenseIdFilter] = useState<string>(debouncedLicenseIdFilter);
 
   // Debounce timer refs
   const searchDebounceTimerRef = useRef<NodeJS.Timeout | null>(null);
   const licenseIdDebounceTimerRef = useRef<NodeJS.Timeout | null>(null);
 
+  // Keep the text inputs in sync when the URL changes (e.g. back navigation or a shared link)
+  useEffect(() => {
+    setSearchQuery(debouncedSearchQuery);
+  }, [debouncedSearchQuery]);
+
+  useEffect(() => {
+    setLicenseIdFilter(debouncedLicenseIdFilter);
+  }, [debouncedLicenseIdFilter]);
+
   // Debounce search query - wait 500ms after user stops typing
   useEffect(() => {
+    if (searchQuery === debouncedSearchQuery) return;
+
     if (searchDebounceTimerRef.current) {
       clearTimeout(searchDebounceTimerRef.current);
     }
 
     searchDebounceTimerRef.current = setTimeout(() => {
-      setDebouncedSearchQuery(searchQuery);
-      setPage(0); // Reset to first page when search changes
+      setFilters({ search: searchQuery }); // Also resets to first page
     }, DEBOUNCE_DELAY);
 
     return () => {
@@ -61,17 +124,18 @@ export const ActivationListPage = () => {
         clearTimeout(searchDebounceTimerRef.current);
       }
     };
-  }, [searchQuery]);
+  }, [searchQuery, debouncedSearchQuery, setFilters]);
 
   // Debounce license ID filter - wait 500ms after user stops typing
   useEffect(() => {
+    if (licenseIdFilter === debouncedLicenseIdFilter) return;
+
     if (licenseIdDebounceTimerRef.current) {
       clearTimeout(licenseIdDebounceTimerRef.current);
     }
 
     licenseIdDebounceTimerRef.current = setTimeout(() => {
-      setDebouncedLicenseIdFilter(licenseIdFilter);
-      setPage(0); // Reset to first page when filter changes
+      setFilters({ licenseId: licenseIdFilter }); // Also resets to first page
     }, DEBOUNCE_DELAY);
 
     return () => {
@@ -79,20 +143,32 @@ export const ActivationListPage = () => {
         clearTimeout(licenseIdDebounceTimerRef.current);
       }
     };
-  }, [licenseIdFilter]);
+  }, [licenseIdFilter, debouncedLicenseIdFilter, setFilters]);
 
   // Memoize query parameters to prevent unnecessary API refetches
   const queryParams = useMemo(
     () => ({
       page: page + 1,
       limit: rowsPerPage,
-      isActive: statusFilter ? statusFilter === 'true' : undefined,
+      // Stale activations are active ones last seen before the cutoff
+      isActive: isStaleFilter ? true : statusFilter ? statusFilter === 'true' : undefined,
+      validatedBefore: isStaleFilter ? staleCutoff : undefined,
       search: debouncedSearchQuery || undefined,
       licenseId: debouncedLicenseIdFilter ? Number(debouncedLicenseIdFilter) : undefined,
-      sortBy: 'activatedAt' as const,
-      sortOrder: 'desc' as const,
+      sortBy,
+      sortOrder,
     }),
-    [page, rowsPerPage, statusFilter, debouncedSearchQuery, debouncedLicenseIdFilter]
+    [
+      page,
+      rowsPerPage,
+      statusFilter,
+      isStaleFilter,
+      staleCutoff,
+      debouncedSearchQuery,
+      debouncedLicenseIdFilter,
+      sortBy,
+      sortOrder,
+    ]
   );
 
   const { data, isLoading, error } = useGetActivationsQuery(queryParams);
@@ -105,6 +181,14 @@ export const ActivationListPage = () => {
     [navigate]
   );
 
+  // Opens the row focused with j/k when Enter is pressed
+  const handleRowOpen = useCallback(
+    (row: Activation) => {
+      handleViewActivation(row.id);
+    },
+    [handleViewActivation]
+  );
+
   // Memoize license navigation handler to prevent recreation on every render
   const handleViewLicense = useCallback(
     (licenseId: number) => {
@@ -121,6 +205,7 @@ export const ActivationListPage = () => {
         id: 'licenseId',
         label: 'License ID',
         minWidth: 100,
+        sortable: true,
         align: 'center',
         format: (value: unknown) => {
           const licenseId = typeof value === 'number' ? value : Number(value);
@@ -149,6 +234,7 @@ export const ActivationListPage = () => {
         id: 'hardwareId',
         label: 'Hardware ID',
         minWidth: 200,
+        sortable: true,
         format: (value: unknown) => (
           <Typography variant="body2" sx={{ fontFamily: 'monospace', fontSize: '0.75rem' }}>
             {typeof value === 'string' ? value.substring(0, 16) + '...' : String(value ?? '')}
@@ -159,18 +245,37 @@ export const ActivationListPage = () => {
         id: 'machineName',
         label: 'Machine Name',
         minWidth: 150,
+        sortable: true,
         format: (value: unknown) => (typeof value === 'string' ? value : value === null ? '-' : String(value ?? '-')),
       },
       {
         id: 'activatedAt',
         label: 'Activated At',
         minWidth: 150,
+        sortable: true,
         format: (value: unknown) => typeof value === 'string' ? formatDateTime(value) : String(value ?? ''),
       },
+      {
+        id: 'lastValidation',
+        label: 'Last Validation',
+        minWidth: 180,
+        sortable: true,
+        format: (value: unknown, row: Activation) => (
+          <Box sx={lastValidationBoxSx}>
+            {typeof value === 'string' ? formatDateTime(value) : 'Never'}
+            {isActivationStale(row, staleCutoff) && (
+              <Tooltip title={`No validation in the last ${staleAfterDays} days. This seat still counts towards the license's user limit.`}>
+                <Chip label="Stale" color="warning" size="small" />
+              </Tooltip>
+            )}
+          </Box>
+        ),
+      },
       {
         id: 'isActive',
         label: 'Status',
         minWidth: 100,
+        sortable: true,
         align: 'center',
         format: (value: unknown) => {
           const isActive = typeof value === 'boolean' ? value : false;
@@ -195,7 +300,7 @@ export const ActivationListPage = () => {
         ),
       },
     ],
-    [handleViewActivation, handleViewLicense]
+    [handleViewActivation, handleViewLicense, staleCutoff, staleAfterDays]
   );
 
   // Memoize onChange handlers to prevent recreation on every render
@@ -204,29 +309,80 @@ export const ActivationListPage = () => {
     // Page reset is handled by debounce effect
   }, []);
 
-  const handleStatusChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
-    setStatusFilter(e.target.value);
-    setPage(0);
-  }, []);
+  const handleStatusChange = useCallback(
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      setFilters({ status: e.target.value });
+    },
+    [setFilters]
+  );
 
   const handleLicenseIdChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     setLicenseIdFilter(e.target.value);
     // Page reset is handled by debounce effect
   }, []);
 
-  const handleRowsPerPageChange = useCallback(
-    (newRowsPerPage: number) => {
-      setRowsPerPage(newRowsPerPage);
-      setPage(0);
+  const handleStaleDialogOpen = useCallback(() => {
+    setStaleDialogOpen(true);
+  }, []);
+
+  const handleStaleDialogCancel = useCallback(() => {
+    setStaleDialogOpen(false);
+  }, []);
+
+  /**
+   * Deactivate the previewed activations one at a time, reporting per-row progress
+   * (same approach as the bulk actions on the license list).
+   * Performance: Lists and licenses are refetched once after the batch, not after every row
+   */
+  const handleStaleDeactivateConfirm = useCallback(
+    async (activations: Activation[]) => {
+      setStaleDialogOpen(false);
+      const updateItem = (id: number, update: Partial<BulkProgressItem>) => {
+        setBulkProgress((prev) => (prev ? prev.map((item) => (item.id === id ? { ...item, ...update } : item)) : prev));
+      };
+
+      setBulkProgress(
+        activations.map((activation) => ({
+          id: activation.id,
+          label: `${activation.machineName || activation.hardwareId} (license ${activation.licenseId})`,
+          status: 'pending',
+        }))
+      );
+
+      for (const activation of activations) {
+        updateItem(activation.id, { status: 'running' });
+        try {
+          await deactivateActivation(activation.id).unwrap();
+          updateItem(activation.id, { status: 'success' });
+        } catch (err) {
+          console.error(`Failed to deactivate activation ${activation.id}:`, err);
+          updateItem(activation.id, { status: 'error', message: parseApiError(err, ERROR_DEACTIVATE_FAILED).message });
+        }
+      }
+      dispatch(activationApi.util.invalidateTags([...DEACTIVATION_TAGS]));
     },
-    []
+    [deactivateActivation, dispatch]
   );
 
+  const handleBulkProgressClose = useCallback(() => {
+    setBulkProgress(null);
+  }, []);
+
   return (
     <Box>
-      <Typography variant="h4" gutterBottom sx={titleSx}>
-        Activations
-      </Typography>
+      <Box sx={headerBoxSx}>
+        <Typography variant="h4">Activations</Typography>
+        <Box sx={headerActionsSx}>
+          {canManageLicenses && (
+            <Tooltip title={`Deactivate activations that haven't validated in ${staleAfterDays} days to free their seats. You'll see a preview first.`}>
+              <Button variant="outlined" color="warning" startIcon={<CleanupIcon />} onClick={handleStaleDialogOpen}>
+                Deactivate Stale
+              </Button>
+            </Tooltip>
+          )}
+          <SavedViewsMenu path={routes.activations.list} />
+        </Box>
+      </Box>
 
       <Grid container spacing={2} sx={filtersGridSx}>
         <Grid item xs={12} md={4}>
@@ -247,6 +403,7 @@ export const ActivationListPage = () => {
             value={statusFilter}
             onChange={handleStatusChange}
             variant="outlined"
+            helperText={isStaleFilter ? `Active, no validation in ${staleAfterDays} days` : undefined}
           >
             {statusOptions.map((option) => (
               <MenuItem key={option.value} value={option.value}>
@@ -280,9 +437,30 @@ export const ActivationListPage = () => {
         rowsPerPage={rowsPerPage}
         totalRows={data?.pagination.totalItems || 0}
         onPageChange={setPage}
-        onRowsPerPageChange={handleRowsPerPageChange}
+        onRowsPerPageChange={setRowsPerPage}
         loading={isLoading}
+        sortBy={sortBy}
+        sortOrder={sortOrder}
+        onSortChange={setSort}
         emptyMessage="No activations found"
+        onRowOpen={handleRowOpen}
+      />
+
+      {canManageLicenses && (
+        <DeactivateStaleDialog
+          open={staleDialogOpen}
+          staleAfterDays={staleAfterDays}
+          cutoff={staleCutoff}
+          onCancel={handleStaleDialogCancel}
+          onConfirm={handleStaleDeactivateConfirm}
+        />
+      )}
+
+      <BulkProgressDialog
+        open={bulkProgress !== null}
+        title="Deactivating Stale Activations"
+        items={bulkProgress || []}
+        onClose={handleBulkProgressClose}
       />
     </Box>
   );
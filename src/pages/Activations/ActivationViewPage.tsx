@@ -14,21 +14,28 @@ import {
   ArrowBack as BackIcon,
   ContentCopy as CopyIcon,
   Check as CheckIcon,
+  SwapHoriz as TransferIcon,
 } from '@mui/icons-material';
 import { useGetActivationByIdQuery } from '../../api/activationApi';
+import { TransferActivationDialog } from '../../components/activation/TransferActivationDialog';
+import { HardwareTimeline } from '../../components/license/HardwareTimeline';
 import { LoadingSpinner } from '../../components/common/Loading/LoadingSpinner';
 import { ErrorMessage } from '../../components/common/Error/ErrorMessage';
 import { formatDateTime } from '../../utils/formatters';
 import { routes } from '../../config/routes';
 import { useToastContext } from '../../components/common/Toast/useToastContext';
+import { usePermission } from '../../hooks/usePermission';
+import { HardwareBinding } from '../../types/license.types';
 
 // Constants
 const COPIED_TIMEOUT = 2000; // 2 seconds
 const SUCCESS_MESSAGE = 'License key copied to clipboard';
 const ERROR_MESSAGE = 'Failed to copy license key';
+const SUCCESS_TRANSFERRED = 'Activation transferred. The new hardware can now be activated.';
 
 // Extract sx props to constants to prevent recreation on every render
 const headerBoxSx = { display: 'flex', alignItems: 'center', gap: 2, mb: 3 };
+const headerTitleSx = { flexGrow: 1 };
 const paperSx = { p: 3, mb: 3 };
 const hardwareIdTypographySx = { fontFamily: 'monospace', mb: 2, wordBreak: 'break-all' };
 const statusBoxSx = { mb: 2 };
@@ -36,12 +43,15 @@ const bodyTypographySx = { mb: 2 };
 const licenseKeyBoxSx = { display: 'flex', alignItems: 'center', gap: 1, mb: 2 };
 const licenseKeyTypographySx = { fontFamily: 'monospace', flexGrow: 1 };
 const licenseTitleSx = { mb: 2, mt: 2 };
+const timelineTitleSx = { mb: 1 };
 
 export const ActivationViewPage = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
   const { showToast } = useToastContext();
   const [copied, setCopied] = useState(false);
+  const [transferDialogOpen, setTransferDialogOpen] = useState(false);
+  const canManageLicenses = usePermission('licenses.manage');
   const timeoutRef = useRef<NodeJS.Timeout | null>(null);
 
   const { data: activation, isLoading, error } = useGetActivationByIdQuery(Number(id!));
@@ -89,6 +99,23 @@ export const ActivationViewPage = () => {
     }
   }, [navigate, activation?.license]);
 
+  const handleTransferClick = useCallback(() => {
+    setTransferDialogOpen(true);
+  }, []);
+
+  const handleTransferClose = useCallback(() => {
+    setTransferDialogOpen(false);
+  }, []);
+
+  // Memoize handleTransferred to prevent recreation on every render
+  const handleTransferred = useCallback(
+    (binding: HardwareBinding) => {
+      setTransferDialogOpen(false);
+      showToast(`${SUCCESS_TRANSFERRED} (${binding.hardwareId})`, 'success');
+    },
+    [showToast]
+  );
+
   if (isLoading) {
     return <LoadingSpinner fullScreen />;
   }
@@ -108,7 +135,16 @@ export const ActivationViewPage = () => {
         <IconButton onClick={handleBack}>
           <BackIcon />
         </IconButton>
-        <Typography variant="h4">Activation Details</Typography>
+        <Typography variant="h4" sx={headerTitleSx}>
+          Activation Details
+        </Typography>
+        {canManageLicenses && activation.isActive && (
+          <Tooltip title="Deactivate this hardware and authorise a replacement machine in one step, e.g. when a POS terminal is replaced.">
+            <Button variant="outlined" color="warning" startIcon={<TransferIcon />} onClick={handleTransferClick}>
+              Transfer to New Hardware
+            </Button>
+          </Tooltip>
+        )}
       </Box>
 
       <Paper sx={paperSx}>
@@ -223,6 +259,22 @@ export const ActivationViewPage = () => {
           )}
         </Grid>
       </Paper>
+
+      <Paper sx={paperSx}>
+        <Typography variant="h6" sx={timelineTitleSx}>
+          Hardware History
+        </Typography>
+        <HardwareTimeline licenseId={activation.licenseId} currentActivationId={activation.id} />
+      </Paper>
+
+      {canManageLicenses && (
+        <TransferActivationDialog
+          open={transferDialogOpen}
+          activation={activation}
+          onClose={handleTransferClose}
+          onTransferred={handleTransferred}
+        />
+      )}
     </Box>
   );
 };
\ No newline at end of file
@@ -0,0 +1,271 @@
+import { useState, useCallback, useMemo } from 'react';
+import { Box, Typography, Button, Chip, IconButton, Tooltip } from '@mui/material';
+import {
+  PersonAdd as InviteIcon,
+  Block as DisableIcon,
+  CheckCircle as EnableIcon,
+  LockReset as ResetPasswordIcon,
+} from '@mui/icons-material';
+import { useSelector } from 'react-redux';
+import { RootState } from '../../store';
+import {
+  useGetAdminUsersQuery,
+  useUpdateAdminUserMutation,
+  useResetAdminUserPasswordMutation,
+} from '../../features/auth/slice/authApi';
+import { DataTable, Column } from '../../components/common/DataTable/DataTable';
+import { ConfirmDialog } from '../../components/common/Modals/ConfirmDialog';
+import { InviteAdminDialog } from '../../components/admin/InviteAdminDialog';
+import { TemporaryPasswordDialog } from '../../components/admin/TemporaryPasswordDialog';
+import { useToastContext } from '../../components/common/Toast/useToastContext';
+import { AdminUser } from '../../types/auth.types';
+import { formatDateTime, getAdminRoleLabel } from '../../utils/formatters';
+import { PAGINATION } from '../../utils/constants';
+
+// Constants
+const SUCCESS_DISABLED = 'Admin disabled';
+const SUCCESS_ENABLED = 'Admin enabled';
+const ERROR_LOADING_ADMINS = 'Failed to load admins. Please try again.';
+const ERROR_UPDATE_STATUS = 'Failed to update admin. Please try again.';
+const ERROR_RESET_PASSWORD = 'Failed to reset password. Please try again.';
+
+type PendingAction = { type: 'toggleActive' | 'resetPassword'; user: AdminUser };
+
+// Extract sx props to constants to prevent recreation on every render
+const titleBoxSx = { display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 3 };
+const errorBoxSx = { mb: 2 };
+const actionsBoxSx = { display: 'flex', gap: 0.5, justifyContent: 'center' };
+
+export const AdminUsersPage = () => {
+  const { showToast } = useToastContext();
+  const currentUserId = useSelector((state: RootState) => state.auth.user?.id);
+  const [page, setPage] = useState(0);
+  const [rowsPerPage, setRowsPerPage] = useState<number>(PAGINATION.DEFAULT_LIMIT);
+  const [inviteDialogOpen, setInviteDialogOpen] = useState(false);
+  const [pendingAction, setPendingAction] = useState<PendingAction | null>(null);
+  const [temporaryPassword, setTemporaryPassword] = useState<{ username: string; password: string } | null>(null);
+
+  const { data: adminUsers, isLoading, error } = useGetAdminUsersQuery();
+  const [updateAdminUser] = useUpdateAdminUserMutation();
+  const [resetAdminUserPassword] = useResetAdminUserPasswordMutation();
+
+  // The admin list is small, so it's paged client-side
+  const pageRows = useMemo(
+    () => (adminUsers || []).slice(page * rowsPerPage, (page + 1) * rowsPerPage),
+    [adminUsers, page, rowsPerPage]
+  );
+
+  const handleRowsPerPageChange = useCallback((newRowsPerPage: number) => {
+    setRowsPerPage(newRowsPerPage);
+    setPage(0);
+  }, []);
+
+  // Memoize dialog handlers to prevent recreation on every render
+  const handleOpenInvite = useCallback(() => {
+    setInviteDialogOpen(true);
+  }, []);
+
+  const handleCloseInvite = useCallback(() => {
+    setInviteDialogOpen(false);
+  }, []);
+
+  const handleInvited = useCallback((username: string, password: string) => {
+    setInviteDialogOpen(false);
+    setTemporaryPassword({ username, password });
+  }, []);
+
+  const handleCloseTemporaryPassword = useCallback(() => {
+    setTemporaryPassword(null);
+  }, []);
+
+  const handleCancelAction = useCallback(() => {
+    setPendingAction(null);
+  }, []);
+
+  // Memoize handleConfirmAction to prevent recreation on every render
+  const handleConfirmAction = useCallback(async () => {
+    if (!pendingAction) return;
+    const { type, user } = pendingAction;
+    setPendingAction(null);
+
+    if (type === 'toggleActive') {
+      try {
+        await updateAdminUser({ id: user.id, data: { isActive: !user.isActive } }).unwrap();
+        showToast(user.isActive ? SUCCESS_DISABLED : SUCCESS_ENABLED, 'success');
+      } catch (err) {
+        console.error('Failed to update admin:', err);
+        showToast(ERROR_UPDATE_STATUS, 'error');
+      }
+      return;
+    }
+
+    try {
+      const result = await resetAdminUserPassword(user.id).unwrap();
+      setTemporaryPassword({ username: user.username, password: result.temporaryPassword });
+    } catch (err) {
+      console.error('Failed to reset password:', err);
+      showToast(ERROR_RESET_PASSWORD, 'error');
+    }
+  }, [pendingAction, updateAdminUser, resetAdminUserPassword, showToast]);
+
+  // Create actions formatter with current handlers
+  // Admins can't disable or reset themselves here; Settings covers their own password
+  const actionsFormatter = useMemo(
+    () => (_value: unknown, row: AdminUser) =>
+      row.id === currentUserId ? (
+        <Typography variant="body2" color="text.secondary">
+          You
+        </Typography>
+      ) : (
+        <Box sx={actionsBoxSx}>
+          <Tooltip title={row.isActive ? 'Disable admin' : 'Enable admin'}>
+            <IconButton size="small" onClick={() => setPendingAction({ type: 'toggleActive', user: row })}>
+              {row.isActive ? <DisableIcon fontSize="small" /> : <EnableIcon fontSize="small" />}
+            </IconButton>
+          </Tooltip>
+          <Tooltip title="Reset password">
+            <span>
+              <IconButton
+                size="small"
+                disabled={!row.isActive}
+                onClick={() => setPendingAction({ type: 'resetPassword', user: row })}
+              >
+                <ResetPasswordIcon fontSize="small" />
+              </IconButton>
+            </span>
+          </Tooltip>
+        </Box>
+      ),
+    [currentUserId]
+  );
+
+  // Memoize columns array to prevent recreation on every render
+  const columns: Column<AdminUser>[] = useMemo(
+    () => [
+      { id: 'username', label: 'Username', minWidth: 140 },
+      {
+        id: 'phone',
+        label: 'Phone',
+        minWidth: 140,
+        format: (value: unknown) => (value as string | null) || '-',
+      },
+      {
+        id: 'role',
+        label: 'Role',
+        minWidth: 100,
+        format: (_value: unknown, row: AdminUser) => (
+          <Chip
+            label={getAdminRoleLabel(row.role)}
+            color={row.role === 'owner' ? 'primary' : 'default'}
+            size="small"
+          />
+        ),
+      },
+      {
+        id: 'isActive',
+        label: 'Status',
+        minWidth: 100,
+        format: (_value: unknown, row: AdminUser) => (
+          <Chip label={row.isActive ? 'Active' : 'Disabled'} color={row.isActive ? 'success' : 'default'} size="small" />
+        ),
+      },
+      {
+        id: 'lastLoginAt',
+        label: 'Last Login',
+        minWidth: 160,
+        format: (value: unknown) => (value ? formatDateTime(value as string) : 'Never'),
+      },
+      {
+        id: 'createdAt',
+        label: 'Created',
+        minWidth: 160,
+        format: (value: unknown) => formatDateTime(value as string),
+      },
+      {
+        id: 'actions',
+        label: 'Actions',
+        minWidth: 120,
+        align: 'center',
+        format: actionsFormatter,
+      },
+    ],
+    [actionsFormatter]
+  );
+
+  const confirmDialogProps = useMemo(() => {
+    if (!pendingAction) return null;
+    const { type, user } = pendingAction;
+    if (type === 'resetPassword') {
+      return {
+        title: 'Reset Password',
+        message: `Reset the password for ${user.username}? Their current password will stop working, they will be signed out everywhere, and a new temporary password will be generated.`,
+        confirmLabel: 'Reset Password',
+        confirmColor: 'warning' as const,
+      };
+    }
+    return user.isActive
+      ? {
+          title: 'Disable Admin',
+          message: `Disable ${user.username}? They will be signed out and won't be able to log in until re-enabled.`,
+          confirmLabel: 'Disable',
+          confirmColor: 'error' as const,
+        }
+      : {
+          title: 'Enable Admin',
+          message: `Enable ${user.username}? They will be able to log in again with their existing password.`,
+          confirmLabel: 'Enable',
+          confirmColor: 'primary' as const,
+        };
+  }, [pendingAction]);
+
+  return (
+    <Box>
+      <Box sx={titleBoxSx}>
+        <Typography variant="h4">Admin Users</Typography>
+        <Button variant="contained" startIcon={<InviteIcon />} onClick={handleOpenInvite}>
+          Invite Admin
+        </Button>
+      </Box>
+
+      {error && (
+        <Box sx={errorBoxSx}>
+          <Typography color="error">{ERROR_LOADING_ADMINS}</Typography>
+        </Box>
+      )}
+
+      <DataTable
+        columns={columns}
+        rows={pageRows}
+        page={page}
+        rowsPerPage={rowsPerPage}
+        totalRows={adminUsers?.length || 0}
+        onPageChange={setPage}
+        onRowsPerPageChange={handleRowsPerPageChange}
+        loading={isLoading}
+        emptyMessage="No admins found"
+      />
+
+      <InviteAdminDialog open={inviteDialogOpen} onClose={handleCloseInvite} onInvited={handleInvited} />
+
+      {confirmDialogProps && (
+        <ConfirmDialog
+          open
+          title={confirmDialogProps.title}
+          message={confirmDialogProps.message}
+          confirmLabel={confirmDialogProps.confirmLabel}
+          cancelLabel="Cancel"
+          confirmColor={confirmDialogProps.confirmColor}
+          onConfirm={handleConfirmAction}
+          onCancel={handleCancelAction}
+        />
+      )}
+
+      <TemporaryPasswordDialog
+        open={temporaryPassword !== null}
+        username={temporaryPassword?.username || ''}
+        temporaryPassword={temporaryPassword?.password || ''}
+        onClose={handleCloseTemporaryPassword}
+      />
+    </Box>
+  );
+};
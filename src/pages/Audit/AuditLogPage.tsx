@@ -0,0 +1,274 @@
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { Box, Typography, TextField, MenuItem, Grid } from '@mui/material';
+import { SingleInputDateRangeField } from '@mui/x-date-pickers-pro/SingleInputDateRangeField';
+import type { DateRange } from '@mui/x-date-pickers-pro/models';
+import { useNavigate } from 'react-router-dom';
+import { useGetAuditLogsQuery } from '../../api/auditApi';
+import { AuditLogTable } from '../../components/audit/AuditLogTable';
+import { AuditAction, AuditEntityType } from '../../types/audit.types';
+import { routes } from '../../config/routes';
+import { useListParams } from '../../hooks/useListParams';
+import { AUDIT_ACTION_LABEL_MAP } from '../../utils/formatters';
+import { dateToUTCDateString, dateToQueryParam, queryParamToDate } from '../../utils/dateUtils';
+
+// Constants
+const DEBOUNCE_DELAY = 500; // milliseconds
+const ERROR_LOADING_AUDIT = 'Failed to load audit log. Please try again.';
+
+const entityTypeOptions: { value: AuditEntityType | ''; label: string }[] = [
+  { value: '', label: 'All Entities' },
+  { value: 'license', label: 'Licenses' },
+  { value: 'activation', label: 'Activations' },
+  { value: 'subscription', label: 'Subscriptions' },
+  { value: 'payment', label: 'Payments' },
+];
+
+const actionOptions: { value: AuditAction | ''; label: string }[] = [
+  { value: '', label: 'All Actions' },
+  ...(Object.entries(AUDIT_ACTION_LABEL_MAP) as [AuditAction, string][]).map(([value, label]) => ({
+    value,
+    label,
+  })),
+];
+
+// Detail routes for entities that have a view page
+const ENTITY_ROUTES: Record<AuditEntityType, (id: number) => string> = {
+  license: routes.licenses.view,
+  activation: routes.activations.view,
+  subscription: routes.subscriptions.view,
+  payment: routes.payments.view,
+};
+
+// Columns the server can sort by; kept in sync with the sortable table columns
+const SORTABLE_FIELDS = ['createdAt'] as const;
+
+// Filters kept in the URL so filtered views can be shared as links.
+// Dates are stored as calendar days (YYYY-MM-DD) of the date range picker.
+const DEFAULT_FILTERS = { entityType: '', entityId: '', action: '', actor: '', startDate: '', endDate: '' };
+const FILTER_OPTIONS = {
+  entityType: entityTypeOptions.map((option) => option.value),
+  action: actionOptions.map((option) => option.value),
+};
+
+// Extract sx props to constants to prevent recreation on every render
+const titleSx = { mb: 3 };
+const filtersGridSx = { mb: 3 };
+const errorBoxSx = { mb: 2 };
+const dateRangeFieldSx = { width: '100%' };
+
+export const AuditLogPage = () => {
+  const navigate = useNavigate();
+  const { page, rowsPerPage, sortBy, sortOrder, filters, setPage, setRowsPerPage, setSort, setFilters } =
+    useListParams({
+      defaultFilters: DEFAULT_FILTERS,
+      filterOptions: FILTER_OPTIONS,
+      defaultSortBy: 'createdAt',
+      defaultSortOrder: 'desc',
+      sortableFields: SORTABLE_FIELDS,
+    });
+  const { actor: debouncedActor, entityId: debouncedEntityId } = filters;
+  // Inputs update immediately; the debounced/validated values are what live in the URL
+  const [actor, setActor] = useState(debouncedActor);
+  const [entityId, setEntityId] = useState(debouncedEntityId);
+  const [dateRange, setDateRange] = useState<DateRange<Date>>(() => [
+    queryParamToDate(filters.startDate),
+    queryParamToDate(filters.endDate),
+  ]);
+
+  // Debounce timer ref
+  const debounceTimerRef = useRef<NodeJS.Timeout | null>(null);
+
+  // Keep the inputs in sync when the URL changes (e.g. back navigation or a shared link)
+  useEffect(() => {
+    setActor(debouncedActor);
+  }, [debouncedActor]);
+
+  useEffect(() => {
+    setEntityId(debouncedEntityId);
+  }, [debouncedEntityId]);
+
+  useEffect(() => {
+    // Keep a partially typed range in the field as long as it still matches the URL
+    setDateRange((current) =>
+      (dateToQueryParam(current[0]) || '') === filters.startDate &&
+      (dateToQueryParam(current[1]) || '') === filters.endDate
+        ? current
+        : [queryParamToDate(filters.startDate), queryParamToDate(filters.endDate)]
+    );
+  }, [filters.startDate, filters.endDate]);
+
+  // Debounce text filters - wait DEBOUNCE_DELAY after user stops typing
+  useEffect(() => {
+    if (actor === debouncedActor && entityId === debouncedEntityId) return;
+
+    if (debounceTimerRef.current) {
+      clearTimeout(debounceTimerRef.current);
+    }
+
+    debounceTimerRef.current = setTimeout(() => {
+      setFilters({ actor, entityId }); // Also resets to first page
+    }, DEBOUNCE_DELAY);
+
+    return () => {
+      if (debounceTimerRef.current) {
+        clearTimeout(debounceTimerRef.current);
+      }
+    };
+  }, [actor, entityId, debouncedActor, debouncedEntityId, setFilters]);
+
+  // Memoize query parameters to prevent unnecessary API refetches
+  const queryParams = useMemo(
+    () => ({
+      page: page + 1,
+      limit: rowsPerPage,
+      entityType: (filters.entityType as AuditEntityType) || undefined,
+      entityId: debouncedEntityId ? Number(debouncedEntityId) : undefined,
+      action: (filters.action as AuditAction) || undefined,
+      actor: debouncedActor || undefined,
+      startDate: dateToUTCDateString(queryParamToDate(filters.startDate)),
+      endDate: dateToUTCDateString(queryParamToDate(filters.endDate)),
+      sortBy,
+      sortOrder,
+    }),
+    [page, rowsPerPage, filters, debouncedEntityId, debouncedActor, sortBy, sortOrder]
+  );
+
+  const { data, isFetching, error } = useGetAuditLogsQuery(queryParams);
+
+  // Memoize navigation handler to prevent recreation on every render
+  const handleEntityClick = useCallback(
+    (entityType: AuditEntityType, id: number) => {
+      navigate(ENTITY_ROUTES[entityType](id));
+    },
+    [navigate]
+  );
+
+  // Memoize filter change handlers to prevent recreation on every render
+  const handleEntityTypeChange = useCallback(
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      setFilters({ entityType: e.target.value });
+    },
+    [setFilters]
+  );
+
+  const handleActionChange = useCallback(
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      setFilters({ action: e.target.value });
+    },
+    [setFilters]
+  );
+
+  const handleActorChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    setActor(e.target.value);
+    // Page reset is handled by debounce effect
+  }, []);
+
+  const handleEntityIdChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    setEntityId(e.target.value);
+    // Page reset is handled by debounce effect
+  }, []);
+
+  const handleDateRangeChange = useCallback(
+    (newValue: DateRange<Date>) => {
+      setDateRange(newValue);
+      // Incomplete or invalid dates are left out of the URL until they parse
+      setFilters({
+        startDate: dateToQueryParam(newValue[0]) || '',
+        endDate: dateToQueryParam(newValue[1]) || '',
+      });
+    },
+    [setFilters]
+  );
+
+  return (
+    <Box>
+      <Typography variant="h4" gutterBottom sx={titleSx}>
+        Audit Log
+      </Typography>
+
+      <Grid container spacing={2} sx={filtersGridSx}>
+        <Grid item xs={12} sm={6} md={2}>
+          <TextField
+            fullWidth
+            select
+            label="Entity"
+            value={filters.entityType}
+            onChange={handleEntityTypeChange}
+            variant="outlined"
+          >
+            {entityTypeOptions.map((option) => (
+              <MenuItem key={option.value} value={option.value}>
+                {option.label}
+              </MenuItem>
+            ))}
+          </TextField>
+        </Grid>
+        <Grid item xs={12} sm={6} md={2}>
+          <TextField
+            fullWidth
+            label="Entity ID"
+            type="number"
+            value={entityId}
+            onChange={handleEntityIdChange}
+            variant="outlined"
+          />
+        </Grid>
+        <Grid item xs={12} sm={6} md={2}>
+          <TextField
+            fullWidth
+            select
+            label="Action"
+            value={filters.action}
+            onChange={handleActionChange}
+            variant="outlined"
+          >
+            {actionOptions.map((option) => (
+              <MenuItem key={option.value} value={option.value}>
+                {option.label}
+              </MenuItem>
+            ))}
+          </TextField>
+        </Grid>
+        <Grid item xs={12} sm={6} md={2}>
+          <TextField
+            fullWidth
+            label="By"
+            placeholder="Username"
+            value={actor}
+            onChange={handleActorChange}
+            variant="outlined"
+          />
+        </Grid>
+        <Grid item xs={12} md={4}>
+          <SingleInputDateRangeField
+            value={dateRange}
+            onChange={handleDateRangeChange}
+            label="Date Range"
+            sx={dateRangeFieldSx}
+          />
+        </Grid>
+      </Grid>
+
+      {error && (
+        <Box sx={errorBoxSx}>
+          <Typography color="error">{ERROR_LOADING_AUDIT}</Typography>
+        </Box>
+      )}
+
+      <AuditLogTable
+        entries={data?.entries || []}
+        page={page}
+        rowsPerPage={rowsPerPage}
+        totalRows={data?.pagination.totalItems || 0}
+        onPageChange={setPage}
+        onRowsPerPageChange={setRowsPerPage}
+        loading={isFetching}
+        showEntity
+        onEntityClick={handleEntityClick}
+        sortBy={sortBy}
+        sortOrder={sortOrder}
+        onSortChange={setSort}
+      />
+    </Box>
+  );
+};
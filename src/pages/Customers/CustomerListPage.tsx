@@ -0,0 +1,231 @@
+import { useState, useEffect, useRef, useMemo, useCallback } from 'react';
+import { Box, Typography, TextField, Grid, Chip, IconButton, Tooltip } from '@mui/material';
+import { Visibility as ViewIcon, Add as AddIcon } from '@mui/icons-material';
+import { useGetCustomersQuery } from '../../api/customerApi';
+import { DataTable, Column } from '../../components/common/DataTable/DataTable';
+import { CustomerSummary } from '../../types/customer.types';
+import { formatDate, formatCurrency } from '../../utils/formatters';
+import { useNavigate } from 'react-router-dom';
+import { routes } from '../../config/routes';
+import { PAGINATION } from '../../utils/constants';
+import { usePermission } from '../../hooks/usePermission';
+
+// Constants
+const DEBOUNCE_DELAY = 500; // milliseconds
+const ERROR_LOADING_CUSTOMERS = 'Failed to load customers. Please try again.';
+
+// Extract sx props to constants to prevent recreation on every render
+const titleSx = { mb: 3 };
+const filtersGridSx = { mb: 3 };
+const errorBoxSx = { mb: 2 };
+const phoneTypographySx = { fontFamily: 'monospace' };
+const actionsBoxSx = { display: 'flex', gap: 1, justifyContent: 'center' };
+
+export const CustomerListPage = () => {
+  const navigate = useNavigate();
+  // Actions the current role can't perform are hidden rather than disabled
+  const canManageLicenses = usePermission('licenses.manage');
+  const [page, setPage] = useState(0);
+  const [rowsPerPage, setRowsPerPage] = useState<number>(PAGINATION.DEFAULT_LIMIT);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [debouncedSearchQuery, setDebouncedSearchQuery] = useState('');
+
+  // Debounce timer ref
+  const searchDebounceTimerRef = useRef<NodeJS.Timeout | null>(null);
+
+  // Debounce search query - wait DEBOUNCE_DELAY after user stops typing
+  useEffect(() => {
+    if (searchDebounceTimerRef.current) {
+      clearTimeout(searchDebounceTimerRef.current);
+    }
+
+    searchDebounceTimerRef.current = setTimeout(() => {
+      setDebouncedSearchQuery(searchQuery);
+      setPage(0); // Reset to first page when search changes
+    }, DEBOUNCE_DELAY);
+
+    return () => {
+      if (searchDebounceTimerRef.current) {
+        clearTimeout(searchDebounceTimerRef.current);
+      }
+    };
+  }, [searchQuery]);
+
+  // Memoize query parameters to prevent unnecessary API refetches
+  const queryParams = useMemo(
+    () => ({
+      page: page + 1,
+      limit: rowsPerPage,
+      search: debouncedSearchQuery || undefined,
+      sortBy: 'lifetimeRevenue',
+      sortOrder: 'desc' as const,
+    }),
+    [page, rowsPerPage, debouncedSearchQuery]
+  );
+
+  const { data, isLoading, error } = useGetCustomersQuery(queryParams);
+
+  // Memoize navigation handlers to prevent recreation on every render
+  const handleViewCustomer = useCallback(
+    (phone: string) => {
+      navigate(routes.customers.view(phone));
+    },
+    [navigate]
+  );
+
+  // Opens the row focused with j/k when Enter is pressed
+  const handleRowOpen = useCallback(
+    (row: CustomerSummary) => {
+      handleViewCustomer(row.customerPhone);
+    },
+    [handleViewCustomer]
+  );
+
+  const handleCreateLicense = useCallback(
+    (customer: CustomerSummary) => {
+      const params = new URLSearchParams({
+        customerName: customer.customerName || '',
+        customerPhone: customer.customerPhone,
+      });
+      navigate(`${routes.licenses.create}?${params.toString()}`);
+    },
+    [navigate]
+  );
+
+  // Memoize columns array to prevent recreation on every render
+  // This is critical for performance since DataTable uses this array
+  const columns: Column<CustomerSummary>[] = useMemo(
+    () => [
+      {
+        id: 'customerName',
+        label: 'Customer',
+        minWidth: 160,
+        format: (value: unknown) => (value as string | null) || '-',
+      },
+      {
+        id: 'customerPhone',
+        label: 'Phone',
+        minWidth: 150,
+        format: (value: unknown) => (
+          <Typography variant="body2" sx={phoneTypographySx}>
+            {String(value ?? '')}
+          </Typography>
+        ),
+      },
+      {
+        id: 'licenseCount',
+        label: 'Licenses',
+        minWidth: 100,
+        align: 'center',
+        format: (_value: unknown, row: CustomerSummary) => `${row.activeLicenseCount} / ${row.licenseCount}`,
+      },
+      {
+        id: 'locationCount',
+        label: 'Locations',
+        minWidth: 100,
+        align: 'center',
+      },
+      {
+        id: 'openSubscriptionsCount',
+        label: 'Open Subscriptions',
+        minWidth: 140,
+        align: 'center',
+        format: (value: unknown) => (
+          <Chip
+            label={String(value ?? 0)}
+            color={(value as number) > 0 ? 'primary' : 'default'}
+            size="small"
+          />
+        ),
+      },
+      {
+        id: 'lifetimeRevenue',
+        label: 'Lifetime Revenue',
+        minWidth: 140,
+        align: 'right',
+        format: (value: unknown) => formatCurrency(value as number),
+      },
+      {
+        id: 'lastPaymentDate',
+        label: 'Last Payment',
+        minWidth: 120,
+        format: (value: unknown) => formatDate(value as string | null),
+      },
+      {
+        id: 'actions',
+        label: 'Actions',
+        minWidth: 120,
+        align: 'center',
+        format: (_value: unknown, row: CustomerSummary) => (
+          <Box sx={actionsBoxSx}>
+            <Tooltip title="View customer account">
+              <IconButton size="small" onClick={() => handleViewCustomer(row.customerPhone)}>
+                <ViewIcon fontSize="small" />
+              </IconButton>
+            </Tooltip>
+            {canManageLicenses && (
+              <Tooltip title="Create a new license for this customer">
+                <IconButton size="small" onClick={() => handleCreateLicense(row)}>
+                  <AddIcon fontSize="small" />
+                </IconButton>
+              </Tooltip>
+            )}
+          </Box>
+        ),
+      },
+    ],
+    [handleViewCustomer, handleCreateLicense, canManageLicenses]
+  );
+
+  // Memoize filter change handler to prevent recreation on every render
+  const handleSearchChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    setSearchQuery(e.target.value);
+    // Page reset is handled by debounce effect
+  }, []);
+
+  // Memoize handleRowsPerPageChange to prevent recreation on every render
+  const handleRowsPerPageChange = useCallback((newRowsPerPage: number) => {
+    setRowsPerPage(newRowsPerPage);
+    setPage(0);
+  }, []);
+
+  return (
+    <Box>
+      <Typography variant="h4" sx={titleSx}>
+        Customers
+      </Typography>
+
+      <Grid container spacing={2} sx={filtersGridSx}>
+        <Grid item xs={12} md={6}>
+          <TextField
+            fullWidth
+            label="Search"
+            placeholder="Search by customer name, phone, or branch/location"
+            value={searchQuery}
+            onChange={handleSearchChange}
+            variant="outlined"
+          />
+        </Grid>
+      </Grid>
+
+      {error && (
+        <Box sx={errorBoxSx}>
+          <Typography color="error">{ERROR_LOADING_CUSTOMERS}</Typography>
+        </Box>
+      )}
+
+      <DataTable
+        columns={columns}
+        rows={data?.customers || []}
+        page={page}
+        rowsPerPage={rowsPerPage}
+        totalRows={data?.pagination.totalItems || 0}
+        onPageChange={setPage}
+        onRowsPerPageChange={handleRowsPerPageChange}
+        loading={isLoading}
+        emptyMessage="No customers found"
+        onRowOpen={handleRowOpen}
+      />
+    </Box>
+  );
+};
@@ -0,0 +1,372 @@
+import { useParams, useNavigate } from 'react-router-dom';
+import { useState, useCallback, useMemo, memo } from 'react';
+import {
+  Box,
+  Typography,
+  Paper,
+  Tabs,
+  Tab,
+  Button,
+  Grid,
+  Chip,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  IconButton,
+  Tooltip,
+  Link,
+} from '@mui/material';
+import { ArrowBack as BackIcon, Add as AddIcon } from '@mui/icons-material';
+import { useGetCustomerByPhoneQuery } from '../../api/customerApi';
+import { LicenseStatusBadge } from '../../components/license/LicenseStatusBadge';
+import { LoadingSpinner } from '../../components/common/Loading/LoadingSpinner';
+import { ErrorMessage } from '../../components/common/Error/ErrorMessage';
+import { formatDate, formatCurrency, formatDateTime, getPaymentTypeLabel, getPaymentTypeColor } from '../../utils/formatters';
+import { routes } from '../../config/routes';
+import { usePermission } from '../../hooks/usePermission';
+
+// Constants
+const ERROR_LOADING_CUSTOMER_MESSAGE = 'Failed to load customer details. Please try again.';
+const ERROR_LOADING_CUSTOMER_TITLE = 'Error Loading Customer';
+
+// Extract sx props to constants to prevent recreation on every render
+const tabPanelBoxSx = { pt: 3 };
+const headerBoxSx = {
+  display: 'flex',
+  flexDirection: { xs: 'column', sm: 'row' },
+  alignItems: { xs: 'flex-start', sm: 'center' },
+  gap: 2,
+  mb: 3,
+};
+const headerTitleBoxSx = { display: 'flex', alignItems: 'center', gap: 2, flexGrow: 1 };
+const paperSx = { p: 3, mb: 3 };
+const bodyTypographySx = { mb: 2 };
+const highlightTypographySx = { mb: 2, color: 'primary.main' };
+const monospaceSx = { fontFamily: 'monospace' };
+const linkSx = { cursor: 'pointer' };
+
+interface TabPanelProps {
+  children?: React.ReactNode;
+  index: number;
+  value: number;
+}
+
+// Memoize TabPanel to prevent unnecessary re-renders
+const TabPanel = memo(({ children, value, index }: TabPanelProps) => {
+  return (
+    <div role="tabpanel" hidden={value !== index}>
+      {value === index && <Box sx={tabPanelBoxSx}>{children}</Box>}
+    </div>
+  );
+});
+TabPanel.displayName = 'TabPanel';
+
+export const CustomerViewPage = () => {
+  const { phone } = useParams<{ phone: string }>();
+  const navigate = useNavigate();
+  const [tabValue, setTabValue] = useState(0);
+  // Actions the current role can't perform are hidden rather than disabled
+  const canManageLicenses = usePermission('licenses.manage');
+
+  const { data: customer, isLoading, error } = useGetCustomerByPhoneQuery(phone!, { skip: !phone });
+
+  // Performance: Build licenseId -> license key lookup once so related tables can show keys
+  const licenseKeyById = useMemo(() => {
+    const lookup = new Map<number, string>();
+    customer?.licenses.forEach((license) => lookup.set(license.id, license.licenseKey));
+    return lookup;
+  }, [customer?.licenses]);
+
+  // Memoize navigation handlers to prevent recreation on every render
+  const handleBack = useCallback(() => {
+    navigate(routes.customers.list);
+  }, [navigate]);
+
+  const handleCreateLicense = useCallback(() => {
+    if (!customer) return;
+    const params = new URLSearchParams({
+      customerName: customer.customerName || '',
+      customerPhone: customer.customerPhone,
+    });
+    navigate(`${routes.licenses.create}?${params.toString()}`);
+  }, [navigate, customer]);
+
+  const handleViewLicense = useCallback(
+    (id: number) => {
+      navigate(routes.licenses.view(id));
+    },
+    [navigate]
+  );
+
+  // Memoize tab change handler to prevent recreation on every render
+  const handleTabChange = useCallback((_event: React.SyntheticEvent, newValue: number) => {
+    setTabValue(newValue);
+  }, []);
+
+  if (isLoading) {
+    return <LoadingSpinner fullScreen />;
+  }
+
+  if (error || !customer) {
+    return <ErrorMessage message={ERROR_LOADING_CUSTOMER_MESSAGE} title={ERROR_LOADING_CUSTOMER_TITLE} />;
+  }
+
+  const renderLicenseLink = (licenseId: number) => (
+    <Link sx={{ ...linkSx, ...monospaceSx }} onClick={() => handleViewLicense(licenseId)}>
+      {licenseKeyById.get(licenseId) || licenseId}
+    </Link>
+  );
+
+  return (
+    <Box>
+      <Box sx={headerBoxSx}>
+        <Box sx={headerTitleBoxSx}>
+          <IconButton onClick={handleBack}>
+            <BackIcon />
+          </IconButton>
+          <Typography variant="h4">{customer.customerName || customer.customerPhone}</Typography>
+        </Box>
+        {canManageLicenses && (
+          <Tooltip title="Create a new license for another branch/location of this customer. Customer name and phone are prefilled.">
+            <span>
+              <Button variant="contained" startIcon={<AddIcon />} onClick={handleCreateLicense}>
+                New License
+              </Button>
+            </span>
+          </Tooltip>
+        )}
+      </Box>
+
+      <Paper sx={paperSx}>
+        <Grid container spacing={3}>
+          <Grid item xs={12} md={4}>
+            <Typography variant="subtitle2" color="text.secondary">
+              Customer Phone
+            </Typography>
+            <Typography variant="body1" sx={{ ...bodyTypographySx, ...monospaceSx }}>
+              {customer.customerPhone}
+            </Typography>
+          </Grid>
+          <Grid item xs={12} md={4}>
+            <Typography variant="subtitle2" color="text.secondary">
+              Lifetime Revenue
+            </Typography>
+            <Typography variant="h5" sx={highlightTypographySx}>
+              {formatCurrency(customer.lifetimeRevenue)}
+            </Typography>
+          </Grid>
+          <Grid item xs={12} md={4}>
+            <Typography variant="subtitle2" color="text.secondary">
+              Open Subscriptions
+            </Typography>
+            <Typography variant="h5" sx={highlightTypographySx}>
+              {customer.openSubscriptionsCount}
+            </Typography>
+          </Grid>
+          <Grid item xs={12} md={4}>
+            <Typography variant="subtitle2" color="text.secondary">
+              Licenses (Active / Total)
+            </Typography>
+            <Typography variant="body1" sx={bodyTypographySx}>
+              {customer.activeLicenseCount} / {customer.licenseCount}
+            </Typography>
+          </Grid>
+          <Grid item xs={12} md={4}>
+            <Typography variant="subtitle2" color="text.secondary">
+              Branches/Locations
+            </Typography>
+            <Typography variant="body1" sx={bodyTypographySx}>
+              {customer.locationCount}
+            </Typography>
+          </Grid>
+          <Grid item xs={12} md={4}>
+            <Typography variant="subtitle2" color="text.secondary">
+              Customer Since
+            </Typography>
+            <Typography variant="body1" sx={bodyTypographySx}>
+              {formatDate(customer.firstPurchaseDate)}
+            </Typography>
+          </Grid>
+        </Grid>
+      </Paper>
+
+      <Paper>
+        <Tabs value={tabValue} onChange={handleTabChange}>
+          <Tab label={`Licenses (${customer.licenses.length})`} />
+          <Tab label={`Subscriptions (${customer.subscriptions.length})`} />
+          <Tab label={`Payments (${customer.payments.length})`} />
+          <Tab label={`Activations (${customer.activations.length})`} />
+        </Tabs>
+
+        <TabPanel value={tabValue} index={0}>
+          <TableContainer>
+            <Table>
+              <TableHead>
+                <TableRow>
+                  <TableCell>License Key</TableCell>
+                  <TableCell>Branch/Location</TableCell>
+                  <TableCell>Status</TableCell>
+                  <TableCell>Users</TableCell>
+                  <TableCell>Purchase Date</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {customer.licenses.length > 0 ? (
+                  customer.licenses.map((license) => (
+                    <TableRow key={license.id} hover>
+                      <TableCell>{renderLicenseLink(license.id)}</TableCell>
+                      <TableCell>{license.locationName || '-'}</TableCell>
+                      <TableCell>
+                        <LicenseStatusBadge status={license.status} />
+                      </TableCell>
+                      <TableCell>
+                        {license.userCount} / {license.userLimit}
+                      </TableCell>
+                      <TableCell>{formatDate(license.purchaseDate)}</TableCell>
+                    </TableRow>
+                  ))
+                ) : (
+                  <TableRow>
+                    <TableCell colSpan={5} align="center">
+                      No licenses found
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        </TabPanel>
+
+        <TabPanel value={tabValue} index={1}>
+          <TableContainer>
+            <Table>
+              <TableHead>
+                <TableRow>
+                  <TableCell>License</TableCell>
+                  <TableCell>Start Date</TableCell>
+                  <TableCell>End Date</TableCell>
+                  <TableCell>Annual Fee</TableCell>
+                  <TableCell>Status</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {customer.subscriptions.length > 0 ? (
+                  customer.subscriptions.map((subscription) => (
+                    <TableRow key={subscription.id}>
+                      <TableCell>{renderLicenseLink(subscription.licenseId)}</TableCell>
+                      <TableCell>{formatDate(subscription.startDate)}</TableCell>
+                      <TableCell>{formatDate(subscription.endDate)}</TableCell>
+                      <TableCell>{formatCurrency(subscription.annualFee)}</TableCell>
+                      <TableCell>
+                        <Chip
+                          label={subscription.status}
+                          color={
+                            subscription.status === 'active'
+                              ? 'success'
+                              : subscription.status === 'grace_period'
+                              ? 'warning'
+                              : 'default'
+                          }
+                          size="small"
+                        />
+                      </TableCell>
+                    </TableRow>
+                  ))
+                ) : (
+                  <TableRow>
+                    <TableCell colSpan={5} align="center">
+                      No subscriptions found
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        </TabPanel>
+
+        <TabPanel value={tabValue} index={2}>
+          <TableContainer>
+            <Table>
+              <TableHead>
+                <TableRow>
+                  <TableCell>License</TableCell>
+                  <TableCell>Payment Date</TableCell>
+                  <TableCell>Amount</TableCell>
+                  <TableCell>Type</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {customer.payments.length > 0 ? (
+                  customer.payments.map((payment) => (
+                    <TableRow key={payment.id}>
+                      <TableCell>{renderLicenseLink(payment.licenseId)}</TableCell>
+                      <TableCell>{formatDate(payment.paymentDate)}</TableCell>
+                      <TableCell>{formatCurrency(payment.amount)}</TableCell>
+                      <TableCell>
+                        <Chip
+                          label={getPaymentTypeLabel(payment.paymentType, payment.isAnnualSubscription)}
+                          color={getPaymentTypeColor(payment.paymentType, payment.isAnnualSubscription)}
+                          size="small"
+                        />
+                      </TableCell>
+                    </TableRow>
+                  ))
+                ) : (
+                  <TableRow>
+                    <TableCell colSpan={4} align="center">
+                      No payments found
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        </TabPanel>
+
+        <TabPanel value={tabValue} index={3}>
+          <TableContainer>
+            <Table>
+              <TableHead>
+                <TableRow>
+                  <TableCell>License</TableCell>
+                  <TableCell>Hardware ID</TableCell>
+                  <TableCell>Machine Name</TableCell>
+                  <TableCell>Activated At</TableCell>
+                  <TableCell>Status</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {customer.activations.length > 0 ? (
+                  customer.activations.map((activation) => (
+                    <TableRow key={activation.id}>
+                      <TableCell>{renderLicenseLink(activation.licenseId)}</TableCell>
+                      <TableCell sx={monospaceSx}>{activation.hardwareId}</TableCell>
+                      <TableCell>{activation.machineName || '-'}</TableCell>
+                      <TableCell>{formatDateTime(activation.activatedAt)}</TableCell>
+                      <TableCell>
+                        <Chip
+                          label={activation.isActive ? 'Active' : 'Inactive'}
+                          color={activation.isActive ? 'success' : 'default'}
+                          size="small"
+                        />
+                      </TableCell>
+                    </TableRow>
+                  ))
+                ) : (
+                  <TableRow>
+                    <TableCell colSpan={5} align="center">
+                      No activations found
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        </TabPanel>
+      </Paper>
+    </Box>
+  );
+};
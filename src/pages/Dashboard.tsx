@@ -1,4 +1,20 @@
-import { Box, Grid, Typography, Paper, Button, Alert, Link, Chip, Divider } from '@mui/material';
+import {
+  Box,
+  Grid,
+  Typography,
+  Paper,
+  Button,
+  Alert,
+  Link,
+  Chip,
+  Divider,
+  ToggleButton,
+  ToggleButtonGroup,
+  FormControlLabel,
+  Switch,
+} from '@mui/material';
+import { SingleInputDateRangeField } from '@mui/x-date-pickers-pro/SingleInputDateRangeField';
+import type { DateRange } from '@mui/x-date-pickers-pro/models';
 import {
   VpnKey as LicenseIcon,
   CheckCircle as ActiveIcon,
@@ -10,13 +26,17 @@ import {
   ArrowForward as ArrowForwardIcon,
   TrendingUp as TrendingUpIcon,
 } from '@mui/icons-material';
-import { useMemo, lazy, Suspense, useCallback } from 'react';
+import { useMemo, lazy, Suspense, useCallback, useState } from 'react';
 import { StatsCard } from '../components/dashboard/StatsCard';
-import { useGetDashboardStatsQuery } from '../api/statsApi';
+import { useGetDashboardStatsQuery, useGetStatsTimeSeriesQuery, StatsInterval } from '../api/statsApi';
 import { useGetPaymentsQuery } from '../api/paymentApi';
+import { useGetSubscriptionsQuery } from '../api/subscriptionApi';
 import { useNavigate } from 'react-router-dom';
 import { routes } from '../config/routes';
+import { usePermission } from '../hooks/usePermission';
 import { formatCurrency, formatDate } from '../utils/formatters';
+import { buildRenewalForecast } from '../utils/renewalForecast';
+import { dateToUTCDateString } from '../utils/dateUtils';
 // Performance optimization: Lazy load chart components to reduce initial bundle size by 100-150KB
 const LicenseStatusChart = lazy(() => 
   import('../components/dashboard/LicenseStatusChart').then(module => ({
@@ -38,6 +58,16 @@ const SubscriptionsChart = lazy(() =>
     default: module.SubscriptionsChart
   }))
 );
+const RenewalForecastChart = lazy(() => 
+  import('../components/dashboard/RenewalForecastChart').then(module => ({
+    default: module.RenewalForecastChart
+  }))
+);
+const TrendChart = lazy(() => 
+  import('../components/dashboard/TrendChart').then(module => ({
+    default: module.TrendChart
+  }))
+);
 const SummaryStatsGrid = lazy(() => 
   import('../components/dashboard/SummaryStatsGrid').then(module => ({
     default: module.SummaryStatsGrid
@@ -49,6 +79,23 @@ import { ErrorMessage } from '../components/common/Error/ErrorMessage';
 // Constants
 const ERROR_LOADING_DASHBOARD_MESSAGE = 'Failed to load dashboard statistics. Please try again later.';
 const ERROR_LOADING_DASHBOARD_TITLE = 'Error Loading Dashboard';
+// Subscriptions loaded for the renewal forecast; sorted by end date so only far-out months are cut off
+const FORECAST_SUBSCRIPTION_LIMIT = 1000;
+const DEFAULT_TREND_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ERROR_LOADING_TRENDS = 'Failed to load trends. Please try again.';
+
+const intervalOptions: { value: StatsInterval; label: string }[] = [
+  { value: 'day', label: 'Day' },
+  { value: 'week', label: 'Week' },
+  { value: 'month', label: 'Month' },
+];
+
+// Default trend range: the last DEFAULT_TREND_DAYS days including today
+const getDefaultTrendRange = (): DateRange<Date> => [
+  new Date(Date.now() - (DEFAULT_TREND_DAYS - 1) * DAY_MS),
+  new Date(),
+];
 
 // Extract sx props to constants to prevent recreation on every render
 const titleTypographySx = { mb: 2.5 };
@@ -62,9 +109,15 @@ const recentPaymentsListSx = { mt: 2 };
 const recentPaymentItemSx = { py: 1.5, borderBottom: '1px solid', borderColor: 'divider' };
 const recentPaymentItemLastSx = { py: 1.5 };
 const viewAllLinkSx = { mt: 2, display: 'flex', justifyContent: 'flex-end' };
+const trendControlsPaperSx = { p: 2.5 };
+const trendControlsBoxSx = { display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 2 };
+const trendRangeFieldSx = { minWidth: 280 };
+const trendsTitleSx = { flexGrow: 1 };
 
 export const DashboardPage = () => {
   const navigate = useNavigate();
+  const canManageLicenses = usePermission('licenses.manage');
+  const canCreatePayments = usePermission('payments.create');
   const { data: stats, isLoading, error } = useGetDashboardStatsQuery();
   
   // Fetch recent payments for the dashboard
@@ -75,6 +128,78 @@ export const DashboardPage = () => {
     sortOrder: 'desc',
   });
 
+  // Fetch open subscriptions for the renewal forecast
+  const { data: activeSubscriptionsData } = useGetSubscriptionsQuery({
+    page: 1,
+    limit: FORECAST_SUBSCRIPTION_LIMIT,
+    status: 'active',
+    sortBy: 'endDate',
+    sortOrder: 'asc',
+  });
+  const { data: gracePeriodSubscriptionsData } = useGetSubscriptionsQuery({
+    page: 1,
+    limit: FORECAST_SUBSCRIPTION_LIMIT,
+    status: 'grace_period',
+    sortBy: 'endDate',
+    sortOrder: 'asc',
+  });
+
+  // Trend controls
+  const [trendRange, setTrendRange] = useState<DateRange<Date>>(getDefaultTrendRange);
+  const [trendInterval, setTrendInterval] = useState<StatsInterval>('day');
+  const [compareTrends, setCompareTrends] = useState(true);
+
+  // Memoize date calculations to prevent recalculation on every render
+  const trendStartDate = useMemo(() => dateToUTCDateString(trendRange[0]) || '', [trendRange]);
+  const trendEndDate = useMemo(() => dateToUTCDateString(trendRange[1]) || '', [trendRange]);
+
+  // Only query once both ends of the range are valid
+  const {
+    data: trendSeries,
+    isFetching: isFetchingTrends,
+    error: trendsError,
+  } = useGetStatsTimeSeriesQuery(
+    { startDate: trendStartDate, endDate: trendEndDate, interval: trendInterval, compare: compareTrends },
+    { skip: !trendStartDate || !trendEndDate }
+  );
+
+  // Memoize trend control handlers to prevent recreation on every render
+  const handleTrendRangeChange = useCallback((newValue: DateRange<Date>) => {
+    setTrendRange(newValue);
+  }, []);
+
+  const handleTrendIntervalChange = useCallback(
+    (_event: React.MouseEvent<HTMLElement>, newInterval: StatsInterval | null) => {
+      // ToggleButtonGroup passes null when the active button is clicked again
+      if (newInterval) {
+        setTrendInterval(newInterval);
+      }
+    },
+    []
+  );
+
+  const handleCompareTrendsChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+    setCompareTrends(event.target.checked);
+  }, []);
+
+  // Memoize forecast to prevent recalculation on every render
+  const renewalForecast = useMemo(
+    () =>
+      buildRenewalForecast(
+        activeSubscriptionsData?.subscriptions || [],
+        gracePeriodSubscriptionsData?.subscriptions || []
+      ),
+    [activeSubscriptionsData?.subscriptions, gracePeriodSubscriptionsData?.subscriptions]
+  );
+
+  const isForecastPartial = useMemo(
+    () =>
+      [activeSubscriptionsData, gracePeriodSubscriptionsData].some(
+        (result) => result !== undefined && result.pagination.totalItems > result.subscriptions.length
+      ),
+    [activeSubscriptionsData, gracePeriodSubscriptionsData]
+  );
+
   // Memoize chart data to prevent recreation on every render
   const licenseStatusChartData = useMemo(
     () => ({
@@ -195,15 +320,89 @@ export const DashboardPage = () => {
           />
         </Grid>
 
+        {/* Trends - Bucketed time series for the selected range */}
+        <Grid item xs={12}>
+          <Paper sx={trendControlsPaperSx}>
+            <Box sx={trendControlsBoxSx}>
+              <Typography variant="h6" sx={trendsTitleSx}>
+                Trends
+              </Typography>
+              <SingleInputDateRangeField
+                value={trendRange}
+                onChange={handleTrendRangeChange}
+                label="Date Range"
+                size="small"
+                sx={trendRangeFieldSx}
+              />
+              <ToggleButtonGroup
+                value={trendInterval}
+                exclusive
+                onChange={handleTrendIntervalChange}
+                size="small"
+              >
+                {intervalOptions.map((option) => (
+                  <ToggleButton key={option.value} value={option.value}>
+                    {option.label}
+                  </ToggleButton>
+                ))}
+              </ToggleButtonGroup>
+              <FormControlLabel
+                control={<Switch checked={compareTrends} onChange={handleCompareTrendsChange} />}
+                label="Compare to previous period"
+              />
+            </Box>
+            {trendsError && (
+              <Typography color="error" variant="body2">
+                {ERROR_LOADING_TRENDS}
+              </Typography>
+            )}
+          </Paper>
+        </Grid>
+        {trendSeries ? (
+          <>
+            <Grid item xs={12} md={6}>
+              <Suspense fallback={<LoadingSpinner />}>
+                <TrendChart
+                  title="Revenue Trend"
+                  metric="revenue"
+                  series={trendSeries}
+                  showComparison={compareTrends}
+                />
+              </Suspense>
+            </Grid>
+            <Grid item xs={12} md={6}>
+              <Suspense fallback={<LoadingSpinner />}>
+                <TrendChart
+                  title="Activations Trend"
+                  metric="activations"
+                  series={trendSeries}
+                  showComparison={compareTrends}
+                />
+              </Suspense>
+            </Grid>
+          </>
+        ) : (
+          isFetchingTrends && (
+            <Grid item xs={12}>
+              <LoadingSpinner />
+            </Grid>
+          )
+        )}
+
         {/* Charts - Lazy loaded for better performance */}
         <Grid item xs={12} md={6}>
           <Suspense fallback={<LoadingSpinner />}>
-            <LicenseStatusChart data={licenseStatusChartData} />
+            <RevenueChart initialRevenue={stats.initialRevenue} annualRevenue={stats.annualRevenue} />
           </Suspense>
         </Grid>
         <Grid item xs={12} md={6}>
           <Suspense fallback={<LoadingSpinner />}>
-            <RevenueChart initialRevenue={stats.initialRevenue} annualRevenue={stats.annualRevenue} />
+            <RenewalForecastChart forecast={renewalForecast} isPartial={isForecastPartial} />
+          </Suspense>
+        </Grid>
+        <Grid item xs={12} md={6}>
+          <Suspense fallback={<LoadingSpinner />}>
+            <LicenseStatusChart data={licenseStatusChartData} />
           </Suspense>
         </Grid>
         <Grid item xs={12} md={6}>
@@ -267,42 +466,50 @@ export const DashboardPage = () => {
             <Typography variant="h6" sx={sectionTitleSx}>
               Quick Actions
             </Typography>
-            <Button
-              fullWidth
-              variant="contained"
-              startIcon={<AddIcon />}
-              onClick={handleCreateLicense}
-              sx={quickActionButtonSx}
-            >
-              Create New License
-            </Button>
-            <Button
-              fullWidth
-              variant="outlined"
-              startIcon={<PaymentIcon />}
-              onClick={handleCreatePayment}
-              sx={quickActionButtonSx}
-            >
-              Record Payment
-            </Button>
-            <Button
-              fullWidth
-              variant="outlined"
-              startIcon={<PersonAddIcon />}
-              onClick={handleIncreaseUserLimit}
-              sx={quickActionButtonSx}
-            >
-              Increase User Limit
-            </Button>
-            <Button
-              fullWidth
-              variant="outlined"
-              startIcon={<RefreshIcon />}
-              onClick={handleReactivateLicense}
-              sx={quickActionButtonSx}
-            >
-              Reactivate License
-            </Button>
+            {canManageLicenses && (
+              <Button
+                fullWidth
+                variant="contained"
+                startIcon={<AddIcon />}
+                onClick={handleCreateLicense}
+                sx={quickActionButtonSx}
+              >
+                Create New License
+              </Button>
+            )}
+            {canCreatePayments && (
+              <Button
+                fullWidth
+                variant="outlined"
+                startIcon={<PaymentIcon />}
+                onClick={handleCreatePayment}
+                sx={quickActionButtonSx}
+              >
+                Record Payment
+              </Button>
+            )}
+            {canManageLicenses && (
+              <Button
+                fullWidth
+                variant="outlined"
+                startIcon={<PersonAddIcon />}
+                onClick={handleIncreaseUserLimit}
+                sx={quickActionButtonSx}
+              >
+                Increase User Limit
+              </Button>
+            )}
+            {canManageLicenses && (
+              <Button
+                fullWidth
+                variant="outlined"
+                startIcon={<RefreshIcon />}
+                onClick={handleReactivateLicense}
+                sx={quickActionButtonSx}
+              >
+                Reactivate License
+              </Button>
+            )}
             <Divider sx={{ my: 2 }} />
             <Button
               fullWidth
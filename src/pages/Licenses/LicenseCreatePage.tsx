@@ -1,7 +1,7 @@
-import { useState, useCallback, useRef, useEffect } from 'react';
+import { useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import { Box, Typography, Paper, Alert, IconButton, Button, Divider, Tooltip } from '@mui/material';
 import { ContentCopy as CopyIcon, Check as CheckIcon, Info as InfoIcon, ArrowBack as ArrowBackIcon } from '@mui/icons-material';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { LicenseForm } from '../../components/license/LicenseForm';
 import { useCreateLicenseMutation } from '../../api/licenseApi';
 import { useGetPreferencesQuery } from '../../api/preferencesApi';
@@ -37,19 +37,30 @@ const alertListSx = { mt: 1, mb: 1, pl: 2.5 };
 const buttonsBoxSx = { display: 'flex', gap: 2, justifyContent: 'flex-end' };
 const headerBoxSx = { display: 'flex', alignItems: 'center', gap: 2, mb: 2.5 };
 const backIconButtonSx = { mr: -1 };
-const errorAlertSx = { mb: 2.5 };
 const formPaperSx = { p: 1.5 };
 
 export const LicenseCreatePage = () => {
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
   const [createLicense, { isLoading }] = useCreateLicenseMutation();
   const { data: preferences } = useGetPreferencesQuery();
   const isPhoneVerificationEnabled = preferences?.general?.phoneNumberVerification ?? true;
   const [generatedLicenseKey, setGeneratedLicenseKey] = useState<string | null>(null);
-  const [error, setError] = useState<string | null>(null);
   const [copied, setCopied] = useState(false);
   const copyTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
+  // Prefill customer details when creating a license for an existing customer
+  // (e.g., another branch/location opened from the customer page)
+  const prefillCustomerName = searchParams.get('customerName') || '';
+  const prefillCustomerPhone = searchParams.get('customerPhone') || '';
+  const initialData = useMemo(
+    () =>
+      prefillCustomerName || prefillCustomerPhone
+        ? { customerName: prefillCustomerName, customerPhone: prefillCustomerPhone }
+        : undefined,
+    [prefillCustomerName, prefillCustomerPhone]
+  );
+
   // Cleanup timeout on unmount
   useEffect(() => {
     return () => {
@@ -60,16 +71,11 @@ export const LicenseCreatePage = () => {
   }, []);
 
   // Memoize handleSubmit to prevent recreation on every render
+  // Errors propagate to LicenseForm, which reports them
   const handleSubmit = useCallback(
     async (data: CreateLicenseInput | UpdateLicenseInput) => {
-      try {
-        setError(null);
-        const result = await createLicense(data as CreateLicenseInput).unwrap();
-        setGeneratedLicenseKey(result.licenseKey);
-      } catch (err: unknown) {
-        const error = err as { data?: { message?: string } };
-        setError(error?.data?.message || ERROR_DEFAULT);
-      }
+      const result = await createLicense(data as CreateLicenseInput).unwrap();
+      setGeneratedLicenseKey(result.licenseKey);
     },
     [createLicense]
   );
@@ -105,11 +111,6 @@ export const LicenseCreatePage = () => {
     navigate(routes.licenses.list);
   }, [navigate]);
 
-  // Memoize error close handler to prevent recreation on every render
-  const handleErrorClose = useCallback(() => {
-    setError(null);
-  }, []);
-
   if (generatedLicenseKey) {
     return (
       <Box>
@@ -174,11 +175,6 @@ export const LicenseCreatePage = () => {
         </IconButton>
         <Typography variant="h4">Create New License</Typography>
       </Box>
-      {error && (
-        <Alert severity="error" sx={errorAlertSx} onClose={handleErrorClose}>
-          {error}
-        </Alert>
-      )}
       <Paper sx={formPaperSx}>
         <Alert severity="info" sx={infoAlertSx}>
           <Typography variant="body2" component="div">
@@ -193,7 +189,13 @@ export const LicenseCreatePage = () => {
             </Box>
           </Typography>
         </Alert>
-        <LicenseForm onSubmit={handleSubmit} isLoading={isLoading} submitLabel="Create License" />
+        <LicenseForm
+          initialData={initialData}
+          onSubmit={handleSubmit}
+          isLoading={isLoading}
+          submitLabel="Create License"
+          submitErrorMessage={ERROR_DEFAULT}
+        />
       </Paper>
     </Box>
   );
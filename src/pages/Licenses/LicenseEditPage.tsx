@@ -9,6 +9,7 @@ import { ErrorMessage } from '../../components/common/Error/ErrorMessage';
 import { UpdateLicenseInput } from '../../types/license.types';
 import { routes } from '../../config/routes';
 import { utcDateStringToDate } from '../../utils/dateUtils';
+import { parseApiError } from '../../utils/apiError';
 
 // Constants
 const REDIRECT_DELAY = 1500; // 1.5 seconds
@@ -24,7 +25,6 @@ const paperSx = { p: 1.5 };
 export const LicenseEditPage = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
-  const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState(false);
   const redirectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
@@ -53,18 +53,21 @@ export const LicenseEditPage = () => {
         clearTimeout(redirectTimeoutRef.current);
       }
 
+      // Errors propagate to LicenseForm, which reports them
       try {
-        setError(null);
         await updateLicense({ id: licenseId, data }).unwrap();
-        setSuccess(true);
-        redirectTimeoutRef.current = setTimeout(() => {
+      } catch (err) {
+        // Queued while offline: the update is sent when the connection returns
+        if (parseApiError(err, ERROR_DEFAULT).kind === 'queued') {
           navigate(routes.licenses.view(licenseId));
-          redirectTimeoutRef.current = null;
-        }, REDIRECT_DELAY);
-      } catch (err: unknown) {
-        const error = err as { data?: { message?: string } };
-        setError(error?.data?.message || ERROR_DEFAULT);
+        }
+        throw err;
       }
+      setSuccess(true);
+      redirectTimeoutRef.current = setTimeout(() => {
+        navigate(routes.licenses.view(licenseId));
+        redirectTimeoutRef.current = null;
+      }, REDIRECT_DELAY);
     },
     [licenseId, updateLicense, navigate]
   );
@@ -76,11 +79,6 @@ export const LicenseEditPage = () => {
     }
   }, [navigate, licenseId]);
 
-  // Memoize error close handler to prevent recreation on every render
-  const handleErrorClose = useCallback(() => {
-    setError(null);
-  }, []);
-
   // Memoize initialData to prevent recreation on every render
   // This is important since LicenseForm memoizes defaultValues based on initialData
   // Must be before early returns to follow rules of hooks
@@ -131,12 +129,6 @@ export const LicenseEditPage = () => {
         </Alert>
       )}
 
-      {error && (
-        <Alert severity="error" sx={alertSx} onClose={handleErrorClose}>
-          {error}
-        </Alert>
-      )}
-
       <Alert severity="info" sx={alertSx}>
         <Typography variant="body2" component="div">
           <strong>What happens when you update a license:</strong>
@@ -159,6 +151,7 @@ export const LicenseEditPage = () => {
           onSubmit={handleSubmit}
           isLoading={isUpdating}
           submitLabel="Update License"
+          submitErrorMessage={ERROR_DEFAULT}
         />
       </Paper>
     </Box>
@@ -10,6 +10,7 @@ import {
   Tooltip,
   Chip,
   Menu,
+  Paper,
 } from '@mui/material';
 import {
   Add as AddIcon,
@@ -24,17 +25,36 @@ import {
   Check as CheckIcon,
   Block as BlockIcon,
   MoreVert as MoreVertIcon,
+  PauseCircle as SuspendIcon,
+  PlayCircle as UnsuspendIcon,
+  Autorenew as RenewIcon,
+  Clear as ClearIcon,
 } from '@mui/icons-material';
-import { useGetLicensesQuery, useRevokeLicenseMutation, useDeleteLicenseMutation, useLazyExportLicensesCSVQuery } from '../../api/licenseApi';
+import {
+  useGetLicensesQuery,
+  useRevokeLicenseMutation,
+  useDeleteLicenseMutation,
+  useLazyExportLicensesCSVQuery,
+  useUpdateLicenseMutation,
+} from '../../api/licenseApi';
+import { useLazyGetSubscriptionsQuery, useRenewSubscriptionMutation } from '../../api/subscriptionApi';
 import { DataTable, Column } from '../../components/common/DataTable/DataTable';
 import { License, LicenseStatus } from '../../types/license.types';
 import { LicenseStatusBadge } from '../../components/license/LicenseStatusBadge';
 import { formatDate, formatCurrency } from '../../utils/formatters';
 import { useNavigate } from 'react-router-dom';
 import { routes } from '../../config/routes';
-import { PAGINATION } from '../../utils/constants';
+import { SHORTCUTS } from '../../config/shortcuts';
+import { useListParams } from '../../hooks/useListParams';
+import { usePermission } from '../../hooks/usePermission';
+import { useApiErrorHandler } from '../../hooks/useApiErrorHandler';
+import { parseApiError } from '../../utils/apiError';
+import { useKeyboardShortcut } from '../../hooks/useKeyboardShortcut';
 import { ConfirmDialog } from '../../components/common/Modals/ConfirmDialog';
+import { SavedViewsMenu } from '../../components/common/SavedViews/SavedViewsMenu';
 import { useToastContext } from '../../components/common/Toast/useToastContext';
+import { BulkProgressDialog, BulkProgressItem } from '../../components/common/Modals/BulkProgressDialog';
+import { buildCSV, downloadCSV, CSVColumn } from '../../utils/csvExport';
 
 // Constants
 // Performance optimization: Adaptive debounce delay - shorter for better UX while preventing excessive API calls
@@ -55,6 +75,62 @@ const SUCCESS_DELETED = 'License deleted permanently';
 const ERROR_DELETE_FAILED = 'Failed to delete license. Please try again.';
 const ERROR_EXPORT_FAILED = 'Failed to export CSV. Please try again.';
 const ERROR_LOADING_LICENSES = 'Failed to load licenses. Please try again.';
+const ERROR_BULK_ACTION_FAILED = 'Request failed';
+const ERROR_NO_SUBSCRIPTION = 'No subscription found for this license';
+const SKIPPED_ALREADY_REVOKED = 'Skipped: already revoked';
+const SKIPPED_ALREADY_SUSPENDED = 'Skipped: already suspended';
+const SKIPPED_NOT_SUSPENDED = 'Skipped: not suspended';
+
+type BulkAction = 'revoke' | 'suspend' | 'unsuspend' | 'renew';
+
+// Confirmation copy for each bulk action
+const BULK_ACTION_CONFIG: Record<
+  BulkAction,
+  { title: string; message: string; confirmLabel: string; confirmColor: 'primary' | 'error' | 'warning' }
+> = {
+  revoke: {
+    title: 'Revoke Selected Licenses',
+    message:
+      'Revoke all selected licenses? Each license will be marked as revoked and its activations deactivated. Revoked licenses can be reactivated later.',
+    confirmLabel: 'Revoke',
+    confirmColor: 'warning',
+  },
+  suspend: {
+    title: 'Suspend Selected Licenses',
+    message: 'Suspend all selected licenses? Customers will not be able to use suspended licenses until they are unsuspended.',
+    confirmLabel: 'Suspend',
+    confirmColor: 'warning',
+  },
+  unsuspend: {
+    title: 'Unsuspend Selected Licenses',
+    message: 'Set all selected suspended licenses back to active?',
+    confirmLabel: 'Unsuspend',
+    confirmColor: 'primary',
+  },
+  renew: {
+    title: 'Renew Subscriptions',
+    message:
+      "Renew the latest subscription of every selected license for another year? Payments are not recorded automatically; add them from each license's payment page.",
+    confirmLabel: 'Renew',
+    confirmColor: 'primary',
+  },
+};
+
+// Columns for client-side CSV export of the current selection
+const SELECTION_CSV_COLUMNS: CSVColumn<License>[] = [
+  { header: 'ID', value: (license) => license.id },
+  { header: 'License Key', value: (license) => license.licenseKey },
+  { header: 'Customer Name', value: (license) => license.customerName },
+  { header: 'Customer Phone', value: (license) => license.customerPhone },
+  { header: 'Branch/Location', value: (license) => license.locationName },
+  { header: 'Status', value: (license) => license.status },
+  { header: 'Free Trial', value: (license) => (license.isFreeTrial ? 'Yes' : 'No') },
+  { header: 'Users', value: (license) => license.userCount },
+  { header: 'User Limit', value: (license) => license.userLimit },
+  { header: 'Initial Price', value: (license) => license.initialPrice },
+  { header: 'Purchase Date', value: (license) => license.purchaseDate },
+  { header: 'End Date', value: (license) => license.endDate },
+];
 
 const statusOptions: { value: LicenseStatus | ''; label: string }[] = [
   { value: '', label: 'All Statuses' },
@@ -64,6 +140,25 @@ const statusOptions: { value: LicenseStatus | ''; label: string }[] = [
   { value: 'suspended', label: 'Suspended' },
 ];
 
+// Columns the server can sort by; kept in sync with the sortable table columns
+const SORTABLE_FIELDS = [
+  'createdAt',
+  'id',
+  'licenseKey',
+  'customerName',
+  'locationName',
+  'status',
+  'initialPrice',
+  'purchaseDate',
+] as const;
+
+// Filters kept in the URL so filtered views can be shared as links
+const DEFAULT_FILTERS = { status: '', freeTrial: '', search: '' };
+const FILTER_OPTIONS = {
+  status: statusOptions.map((option) => option.value),
+  freeTrial: ['', 'true', 'false'],
+};
+
 // Extract sx props to constants to prevent recreation on every render
 const titleBoxSx = { mb: 2.5 };
 const titleTypographySx = { mb: 2 };
@@ -84,33 +179,62 @@ const freeTrialChipSx = { fontWeight: 'medium' };
 const userCountBoxSx = { display: 'flex', alignItems: 'center', justifyContent: 'center', gap: 1 };
 const fullChipSx = { height: 20, fontSize: '0.7rem' };
 const actionsBoxSx = { display: 'flex', gap: 1, justifyContent: 'center' };
+const bulkToolbarSx = {
+  display: 'flex',
+  alignItems: 'center',
+  flexWrap: 'wrap',
+  gap: 1,
+  p: 1.5,
+  mb: 2,
+  bgcolor: 'primary.main',
+  color: 'primary.contrastText',
+};
+const bulkToolbarTitleSx = { flexGrow: 1, fontWeight: 600 };
+const bulkButtonSx = { color: 'inherit', borderColor: 'currentColor' };
 
 export const LicenseListPage = () => {
   const navigate = useNavigate();
   const { showToast } = useToastContext();
-  const [page, setPage] = useState(0);
-  const [rowsPerPage, setRowsPerPage] = useState<number>(PAGINATION.DEFAULT_LIMIT);
-  const [statusFilter, setStatusFilter] = useState<LicenseStatus | ''>('');
-  const [freeTrialFilter, setFreeTrialFilter] = useState<'' | 'true' | 'false'>('');
-  const [searchQuery, setSearchQuery] = useState('');
-  const [debouncedSearchQuery, setDebouncedSearchQuery] = useState('');
+  const { handleApiError } = useApiErrorHandler();
+  const { page, rowsPerPage, sortBy, sortOrder, filters, setPage, setRowsPerPage, setSort, setFilters } =
+    useListParams({
+      defaultFilters: DEFAULT_FILTERS,
+      filterOptions: FILTER_OPTIONS,
+      defaultSortBy: 'createdAt',
+      defaultSortOrder: 'desc',
+      sortableFields: SORTABLE_FIELDS,
+    });
+  // Filter values are validated against FILTER_OPTIONS by useListParams
+  const statusFilter = filters.status as LicenseStatus | '';
+  const freeTrialFilter = filters.freeTrial as '' | 'true' | 'false';
+  const debouncedSearchQuery = filters.search;
+  // The search input updates immediately; the debounced value is what lives in the URL
+  const [searchQuery, setSearchQuery] = useState(debouncedSearchQuery);
   const [revokeDialogOpen, setRevokeDialogOpen] = useState(false);
   const [licenseToRevoke, setLicenseToRevoke] = useState<number | null>(null);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [licenseToDelete, setLicenseToDelete] = useState<number | null>(null);
   const [copiedKey, setCopiedKey] = useState<string | null>(null);
   const [actionMenuAnchor, setActionMenuAnchor] = useState<{ el: HTMLElement; license: License } | null>(null);
-
-  const [sortBy] = useState('createdAt');
-  const [sortOrder] = useState<'asc' | 'desc'>('desc');
+  // Selected licenses are kept by ID so the selection persists across pages
+  const [selectedLicenses, setSelectedLicenses] = useState<Record<number, License>>({});
+  const [bulkAction, setBulkAction] = useState<BulkAction | null>(null);
+  const [bulkProgress, setBulkProgress] = useState<{ title: string; items: BulkProgressItem[] } | null>(null);
 
   // Debounce timer ref
   const searchDebounceTimerRef = useRef<NodeJS.Timeout | null>(null);
   // Copy timeout ref
   const copyTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
+  // Keep the search input in sync when the URL changes (e.g. back navigation or a shared link)
+  useEffect(() => {
+    setSearchQuery(debouncedSearchQuery);
+  }, [debouncedSearchQuery]);
+
   // Debounce search query - adaptive delay based on query length
   useEffect(() => {
+    if (searchQuery === debouncedSearchQuery) return;
+
     if (searchDebounceTimerRef.current) {
       clearTimeout(searchDebounceTimerRef.current);
     }
@@ -119,8 +243,7 @@ export const LicenseListPage = () => {
     const delay = searchQuery.length > 0 ? getDebounceDelay(searchQuery.length) : DEFAULT_DEBOUNCE_DELAY;
 
     searchDebounceTimerRef.current = setTimeout(() => {
-      setDebouncedSearchQuery(searchQuery);
-      setPage(0); // Reset to first page when search changes
+      setFilters({ search: searchQuery }); // Also resets to first page
     }, delay);
 
     return () => {
@@ -128,7 +251,7 @@ export const LicenseListPage = () => {
         clearTimeout(searchDebounceTimerRef.current);
       }
     };
-  }, [searchQuery]);
+  }, [searchQuery, debouncedSearchQuery, setFilters]);
 
   // Cleanup copy timeout on unmount
   useEffect(() => {
@@ -157,9 +280,139 @@ export const LicenseListPage = () => {
 
   const { data, isLoading, error } = useGetLicensesQuery(queryParams);
 
+  // Actions the current role can't perform are hidden rather than disabled
+  const canManageLicenses = usePermission('licenses.manage');
+  const canRevokeLicenses = usePermission('licenses.revoke');
+  const canDeleteLicenses = usePermission('licenses.delete');
+  const canCreatePayments = usePermission('payments.create');
+  const canRenewSubscriptions = usePermission('subscriptions.renew');
+
   const [revokeLicense] = useRevokeLicenseMutation();
   const [deleteLicense] = useDeleteLicenseMutation();
   const [exportCSV] = useLazyExportLicensesCSVQuery();
+  const [updateLicense] = useUpdateLicenseMutation();
+  const [getSubscriptions] = useLazyGetSubscriptionsQuery();
+  const [renewSubscription] = useRenewSubscriptionMutation();
+
+  // Memoize selection derived values to prevent recalculation on every render
+  const selectedIds = useMemo(() => Object.keys(selectedLicenses).map(Number), [selectedLicenses]);
+  const selectedCount = selectedIds.length;
+
+  // Memoize handleSelectionChange to prevent recreation on every render
+  const handleSelectionChange = useCallback((rows: License[], selected: boolean) => {
+    setSelectedLicenses((prev) => {
+      const next = { ...prev };
+      rows.forEach((row) => {
+        if (selected) {
+          next[row.id] = row;
+        } else {
+          delete next[row.id];
+        }
+      });
+      return next;
+    });
+  }, []);
+
+  const handleClearSelection = useCallback(() => {
+    setSelectedLicenses({});
+  }, []);
+
+  /**
+   * Run an action for each selected license sequentially, reporting per-row progress.
+   * Requests are sent one at a time to avoid flooding the server and to keep results ordered.
+   * The action resolves with an optional message, or throws to mark the row as failed.
+   */
+  const runBulkAction = useCallback(
+    async (title: string, action: (license: License) => Promise<string | void>) => {
+      const licenses = Object.values(selectedLicenses);
+      const updateItem = (id: number, update: Partial<BulkProgressItem>) => {
+        setBulkProgress((prev) =>
+          prev
+            ? { ...prev, items: prev.items.map((item) => (item.id === id ? { ...item, ...update } : item)) }
+            : prev
+        );
+      };
+
+      setBulkProgress({
+        title,
+        items: licenses.map((license) => ({ id: license.id, label: license.licenseKey, status: 'pending' })),
+      });
+
+      for (const license of licenses) {
+        updateItem(license.id, { status: 'running' });
+        try {
+          const message = await action(license);
+          updateItem(license.id, { status: 'success', message: message || undefined });
+        } catch (err) {
+          console.error(`Bulk action failed for license ${license.id}:`, err);
+          updateItem(license.id, {
+            status: 'error',
+            message: err instanceof Error ? err.message : parseApiError(err, ERROR_BULK_ACTION_FAILED).message,
+          });
+        }
+      }
+    },
+    [selectedLicenses]
+  );
+
+  // Memoize handleBulkConfirm to prevent recreation on every render
+  const handleBulkConfirm = useCallback(async () => {
+    const action = bulkAction;
+    setBulkAction(null);
+    if (!action) return;
+
+    switch (action) {
+      case 'revoke':
+        await runBulkAction('Revoking Licenses', async (license) => {
+          if (license.status === 'revoked') return SKIPPED_ALREADY_REVOKED;
+          await revokeLicense(license.id).unwrap();
+        });
+        break;
+      case 'suspend':
+        await runBulkAction('Suspending Licenses', async (license) => {
+          if (license.status === 'suspended') return SKIPPED_ALREADY_SUSPENDED;
+          await updateLicense({ id: license.id, data: { status: 'suspended' } }).unwrap();
+        });
+        break;
+      case 'unsuspend':
+        await runBulkAction('Unsuspending Licenses', async (license) => {
+          if (license.status !== 'suspended') return SKIPPED_NOT_SUSPENDED;
+          await updateLicense({ id: license.id, data: { status: 'active' } }).unwrap();
+        });
+        break;
+      case 'renew':
+        await runBulkAction('Renewing Subscriptions', async (license) => {
+          // List rows don't include relations, so look up the latest subscription first
+          const { subscriptions } = await getSubscriptions({
+            licenseId: license.id,
+            page: 1,
+            limit: 1,
+            sortBy: 'endDate',
+            sortOrder: 'desc',
+          }).unwrap();
+          const latest = subscriptions[0];
+          if (!latest) throw new Error(ERROR_NO_SUBSCRIPTION);
+          const result = await renewSubscription(latest.id).unwrap();
+          return `Renewed until ${formatDate(result.subscription.endDate)}`;
+        });
+        break;
+    }
+  }, [bulkAction, runBulkAction, revokeLicense, updateLicense, getSubscriptions, renewSubscription]);
+
+  const handleBulkCancel = useCallback(() => {
+    setBulkAction(null);
+  }, []);
+
+  const handleBulkProgressClose = useCallback(() => {
+    setBulkProgress(null);
+    setSelectedLicenses({});
+  }, []);
+
+  // Memoize handleExportSelection to prevent recreation on every render
+  const handleExportSelection = useCallback(() => {
+    const csv = buildCSV(Object.values(selectedLicenses), SELECTION_CSV_COLUMNS);
+    downloadCSV(csv, `licenses_selection_${new Date().toISOString().split('T')[0]}.csv`);
+  }, [selectedLicenses]);
 
   // Memoize handleRevokeClick to prevent recreation on every render
   const handleRevokeClick = useCallback((id: number) => {
@@ -177,10 +430,9 @@ export const LicenseListPage = () => {
       setRevokeDialogOpen(false);
       setLicenseToRevoke(null);
     } catch (err) {
-      console.error('Failed to revoke license:', err);
-      showToast(ERROR_REVOKE_FAILED, 'error');
+      handleApiError(err, { fallbackMessage: ERROR_REVOKE_FAILED });
     }
-  }, [licenseToRevoke, revokeLicense, showToast]);
+  }, [licenseToRevoke, revokeLicense, showToast, handleApiError]);
 
   // Memoize handleRevokeCancel to prevent recreation on every render
   const handleRevokeCancel = useCallback(() => {
@@ -204,10 +456,9 @@ export const LicenseListPage = () => {
       setDeleteDialogOpen(false);
       setLicenseToDelete(null);
     } catch (err) {
-      console.error('Failed to delete license:', err);
-      showToast(ERROR_DELETE_FAILED, 'error');
+      handleApiError(err, { fallbackMessage: ERROR_DELETE_FAILED });
     }
-  }, [licenseToDelete, deleteLicense, showToast]);
+  }, [licenseToDelete, deleteLicense, showToast, handleApiError]);
 
   // Memoize handleDeleteCancel to prevent recreation on every render
   const handleDeleteCancel = useCallback(() => {
@@ -263,6 +514,14 @@ export const LicenseListPage = () => {
     [navigate]
   );
 
+  // Opens the row focused with j/k when Enter is pressed
+  const handleRowOpen = useCallback(
+    (row: License) => {
+      handleViewLicense(row.id);
+    },
+    [handleViewLicense]
+  );
+
   const handleEditLicense = useCallback(
     (id: number) => {
       navigate(routes.licenses.edit(id));
@@ -281,6 +540,8 @@ export const LicenseListPage = () => {
     navigate(routes.licenses.create);
   }, [navigate]);
 
+  useKeyboardShortcut(SHORTCUTS.create.keys, handleCreateLicense, canManageLicenses);
+
   const handleIncreaseUserLimit = useCallback(() => {
     navigate(routes.licenses.increaseUserLimit);
   }, [navigate]);
@@ -315,22 +576,20 @@ export const LicenseListPage = () => {
     }
   }, [exportCSV, statusFilter, debouncedSearchQuery, freeTrialFilter, sortBy, sortOrder, showToast]);
 
-  // Memoize handleRowsPerPageChange to prevent recreation on every render
-  const handleRowsPerPageChange = useCallback((newRowsPerPage: number) => {
-    setRowsPerPage(newRowsPerPage);
-    setPage(0);
-  }, []);
-
   // Memoize filter change handlers to prevent recreation on every render
-  const handleStatusChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
-    setStatusFilter(e.target.value as LicenseStatus | '');
-    setPage(0);
-  }, []);
+  const handleStatusChange = useCallback(
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      setFilters({ status: e.target.value });
+    },
+    [setFilters]
+  );
 
-  const handleFreeTrialChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
-    setFreeTrialFilter(e.target.value as '' | 'true' | 'false');
-    setPage(0);
-  }, []);
+  const handleFreeTrialChange = useCallback(
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      setFilters({ freeTrial: e.target.value });
+    },
+    [setFilters]
+  );
 
   const handleSearchChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     setSearchQuery(e.target.value);
@@ -453,6 +712,7 @@ export const LicenseListPage = () => {
         id: 'id',
         label: 'ID',
         minWidth: 80,
+        sortable: true,
         align: 'center',
         format: (value: unknown) => (
           <Typography variant="body2" sx={idTypographySx}>
@@ -464,24 +724,28 @@ export const LicenseListPage = () => {
         id: 'licenseKey',
         label: 'License Key',
         minWidth: 200,
+        sortable: true,
         format: licenseKeyFormatter,
       },
       {
         id: 'customerName',
         label: 'Customer',
         minWidth: 150,
+        sortable: true,
         format: (_value: unknown) => (_value as string | null) || '-',
       },
       {
         id: 'locationName',
         label: 'Branch/Location',
         minWidth: 150,
+        sortable: true,
         format: (_value: unknown) => (_value as string | null) || '-',
       },
       {
         id: 'status',
         label: 'Status',
         minWidth: 100,
+        sortable: true,
         align: 'center',
         format: (_value: unknown, row: License) => {
           // Check if license has been activated
@@ -558,6 +822,7 @@ export const LicenseListPage = () => {
         id: 'initialPrice',
         label: 'Price',
         minWidth: 100,
+        sortable: true,
         align: 'right',
         format: (_value: unknown) => formatCurrency(_value as number),
       },
@@ -565,6 +830,7 @@ export const LicenseListPage = () => {
         id: 'purchaseDate',
         label: 'Purchase Date',
         minWidth: 120,
+        sortable: true,
         format: (_value: unknown) => formatDate(_value as string),
       },
       {
@@ -585,25 +851,30 @@ export const LicenseListPage = () => {
           Licenses
         </Typography>
         <Box sx={buttonsBoxSx}>
-          <Tooltip title="Increase the user limit for a license. This allows more users to be added to the license. The change takes effect immediately.">
-            <span>
-              <Button
-                variant="outlined"
-                startIcon={<PersonAddIcon />}
-                onClick={handleIncreaseUserLimit}
-                sx={buttonSx}
-              >
-                Increase User Limit
-              </Button>
-            </span>
-          </Tooltip>
-          <Tooltip title="Reactivate a license by deactivating all existing activations. This allows the customer to re-enter their license key. All license data (subscriptions, payments, deadlines) will be preserved.">
-            <span>
-              <Button variant="outlined" startIcon={<RefreshIcon />} onClick={handleReactivateLicense} sx={buttonSx}>
-                Reactivate License
-              </Button>
-            </span>
-          </Tooltip>
+          <SavedViewsMenu path={routes.licenses.list} />
+          {canManageLicenses && (
+            <>
+              <Tooltip title="Increase the user limit for a license. This allows more users to be added to the license. The change takes effect immediately.">
+                <span>
+                  <Button
+                    variant="outlined"
+                    startIcon={<PersonAddIcon />}
+                    onClick={handleIncreaseUserLimit}
+                    sx={buttonSx}
+                  >
+                    Increase User Limit
+                  </Button>
+                </span>
+              </Tooltip>
+              <Tooltip title="Reactivate a license by deactivating all existing activations. This allows the customer to re-enter their license key. All license data (subscriptions, payments, deadlines) will be preserved.">
+                <span>
+                  <Button variant="outlined" startIcon={<RefreshIcon />} onClick={handleReactivateLicense} sx={buttonSx}>
+                    Reactivate License
+                  </Button>
+                </span>
+              </Tooltip>
+            </>
+          )}
           <Tooltip title="Export all licenses matching the current filters to a CSV file. The export includes license details, customer information, status, and user counts.">
             <span>
               <Button variant="outlined" startIcon={<ExportIcon />} onClick={handleExportCSV} sx={buttonSx}>
@@ -611,13 +882,15 @@ export const LicenseListPage = () => {
               </Button>
             </span>
           </Tooltip>
-          <Tooltip title="Create a new license. You'll need to provide customer information, location details, and pricing. A unique license key will be generated automatically. An initial payment record will be created unless it's a free trial.">
-            <span>
-              <Button variant="contained" startIcon={<AddIcon />} onClick={handleCreateLicense} sx={buttonSx}>
-                Create License
-              </Button>
-            </span>
-          </Tooltip>
+          {canManageLicenses && (
+            <Tooltip title="Create a new license. You'll need to provide customer information, location details, and pricing. A unique license key will be generated automatically. An initial payment record will be created unless it's a free trial.">
+              <span>
+                <Button variant="contained" startIcon={<AddIcon />} onClick={handleCreateLicense} sx={buttonSx}>
+                  Create License
+                </Button>
+              </span>
+            </Tooltip>
+          )}
         </Box>
       </Box>
 
@@ -670,6 +943,72 @@ export const LicenseListPage = () => {
         </Box>
       )}
 
+      {selectedCount > 0 && (
+        <Paper sx={bulkToolbarSx}>
+          <Typography variant="body1" sx={bulkToolbarTitleSx}>
+            {selectedCount} license{selectedCount !== 1 ? 's' : ''} selected
+          </Typography>
+          {canRevokeLicenses && (
+            <Button
+              size="small"
+              variant="outlined"
+              startIcon={<BlockIcon />}
+              sx={bulkButtonSx}
+              onClick={() => setBulkAction('revoke')}
+            >
+              Revoke
+            </Button>
+          )}
+          {canManageLicenses && (
+            <>
+              <Button
+                size="small"
+                variant="outlined"
+                startIcon={<SuspendIcon />}
+                sx={bulkButtonSx}
+                onClick={() => setBulkAction('suspend')}
+              >
+                Suspend
+              </Button>
+              <Button
+                size="small"
+                variant="outlined"
+                startIcon={<UnsuspendIcon />}
+                sx={bulkButtonSx}
+                onClick={() => setBulkAction('unsuspend')}
+              >
+                Unsuspend
+              </Button>
+            </>
+          )}
+          {canRenewSubscriptions && (
+            <Button
+              size="small"
+              variant="outlined"
+              startIcon={<RenewIcon />}
+              sx={bulkButtonSx}
+              onClick={() => setBulkAction('renew')}
+            >
+              Renew Subscriptions
+            </Button>
+          )}
+          <Button
+            size="small"
+            variant="outlined"
+            startIcon={<ExportIcon />}
+            sx={bulkButtonSx}
+            onClick={handleExportSelection}
+          >
+            Export Selection
+          </Button>
+          <Tooltip title="Clear selection">
+            <IconButton size="small" color="inherit" onClick={handleClearSelection}>
+              <ClearIcon fontSize="small" />
+            </IconButton>
+          </Tooltip>
+        </Paper>
+      )}
+
       <DataTable
         columns={columns}
         rows={data?.licenses || []}
@@ -677,9 +1016,35 @@ export const LicenseListPage = () => {
         rowsPerPage={rowsPerPage}
         totalRows={data?.pagination.totalItems || 0}
         onPageChange={setPage}
-        onRowsPerPageChange={handleRowsPerPageChange}
+        onRowsPerPageChange={setRowsPerPage}
         loading={isLoading}
+        sortBy={sortBy}
+        sortOrder={sortOrder}
+        onSortChange={setSort}
         emptyMessage="No licenses found"
+        onRowOpen={handleRowOpen}
+        selectedIds={selectedIds}
+        onSelectionChange={handleSelectionChange}
+      />
+
+      {bulkAction && (
+        <ConfirmDialog
+          open
+          title={BULK_ACTION_CONFIG[bulkAction].title}
+          message={`${BULK_ACTION_CONFIG[bulkAction].message} (${selectedCount} selected)`}
+          confirmLabel={BULK_ACTION_CONFIG[bulkAction].confirmLabel}
+          cancelLabel="Cancel"
+          confirmColor={BULK_ACTION_CONFIG[bulkAction].confirmColor}
+          onConfirm={handleBulkConfirm}
+          onCancel={handleBulkCancel}
+        />
+      )}
+
+      <BulkProgressDialog
+        open={bulkProgress !== null}
+        title={bulkProgress?.title || ''}
+        items={bulkProgress?.items || []}
+        onClose={handleBulkProgressClose}
       />
 
       <ConfirmDialog
@@ -721,33 +1086,45 @@ export const LicenseListPage = () => {
           <ViewIcon fontSize="small" sx={{ mr: 1 }} />
           View Details
         </MenuItem>
-        <MenuItem onClick={handleMenuEdit}>
-          <EditIcon fontSize="small" sx={{ mr: 1 }} />
-          Edit License
-        </MenuItem>
-        <MenuItem onClick={handleMenuIncreaseUserLimit}>
-          <PersonAddIcon fontSize="small" sx={{ mr: 1 }} />
-          Increase User Limit
-        </MenuItem>
-        <MenuItem onClick={handleMenuAddPayment}>
-          <PaymentIcon fontSize="small" sx={{ mr: 1 }} />
-          Add Payment
-        </MenuItem>
-        <MenuItem onClick={handleMenuReactivate}>
-          <RefreshIcon fontSize="small" sx={{ mr: 1 }} />
-          Reactivate License
-        </MenuItem>
-        <MenuItem
-          onClick={handleMenuRevoke}
-          disabled={actionMenuAnchor?.license.status === 'revoked'}
-        >
-          <BlockIcon fontSize="small" sx={{ mr: 1 }} />
-          Revoke License
-        </MenuItem>
-        <MenuItem onClick={handleMenuDelete} sx={{ color: 'error.main' }}>
-          <DeleteIcon fontSize="small" sx={{ mr: 1 }} />
-          Delete Permanently
-        </MenuItem>
+        {canManageLicenses && (
+          <MenuItem onClick={handleMenuEdit}>
+            <EditIcon fontSize="small" sx={{ mr: 1 }} />
+            Edit License
+          </MenuItem>
+        )}
+        {canManageLicenses && (
+          <MenuItem onClick={handleMenuIncreaseUserLimit}>
+            <PersonAddIcon fontSize="small" sx={{ mr: 1 }} />
+            Increase User Limit
+          </MenuItem>
+        )}
+        {canCreatePayments && (
+          <MenuItem onClick={handleMenuAddPayment}>
+            <PaymentIcon fontSize="small" sx={{ mr: 1 }} />
+            Add Payment
+          </MenuItem>
+        )}
+        {canManageLicenses && (
+          <MenuItem onClick={handleMenuReactivate}>
+            <RefreshIcon fontSize="small" sx={{ mr: 1 }} />
+            Reactivate License
+          </MenuItem>
+        )}
+        {canRevokeLicenses && (
+          <MenuItem
+            onClick={handleMenuRevoke}
+            disabled={actionMenuAnchor?.license.status === 'revoked'}
+          >
+            <BlockIcon fontSize="small" sx={{ mr: 1 }} />
+            Revoke License
+          </MenuItem>
+        )}
+        {canDeleteLicenses && (
+          <MenuItem onClick={handleMenuDelete} sx={{ color: 'error.main' }}>
+            <DeleteIcon fontSize="small" sx={{ mr: 1 }} />
+            Delete Permanently
+          </MenuItem>
+        )}
       </Menu>
 
     </Box>
@@ -16,6 +16,7 @@ import {
   TableRow,
   IconButton,
   Tooltip,
+  Link,
 } from '@mui/material';
 import {
   Edit as EditIcon,
@@ -37,6 +38,12 @@ import { formatDate, formatCurrency, formatDateTime, getPaymentTypeLabel, getPay
 import { routes } from '../../config/routes';
 import { Activation, Subscription, Payment } from '../../types/license.types';
 import { useToastContext } from '../../components/common/Toast/useToastContext';
+import { useGetAuditLogsQuery } from '../../api/auditApi';
+import { AuditLogTable } from '../../components/audit/AuditLogTable';
+import { HardwareTimeline } from '../../components/license/HardwareTimeline';
+import { PAGINATION } from '../../utils/constants';
+import { usePermission } from '../../hooks/usePermission';
+import { useApiErrorHandler } from '../../hooks/useApiErrorHandler';
 
 // Constants
 const COPIED_TIMEOUT = 2000; // 2 seconds
@@ -46,6 +53,7 @@ const SUCCESS_REVOKED = 'License revoked successfully';
 const ERROR_REVOKE_FAILED = 'Failed to revoke license. Please try again.';
 const SUCCESS_REACTIVATED = 'License reactivation reset successfully';
 const ERROR_REACTIVATE_FAILED = 'Failed to reset license reactivation. Please try again.';
+const HISTORY_TAB_INDEX = 3;
 
 // Extract sx props to constants to prevent recreation on every render
 const tabPanelBoxSx = { pt: 3 };
@@ -77,6 +85,8 @@ const bodyTypographySx = { mb: 2 };
 const usersBoxSx = { display: 'flex', alignItems: 'center', gap: 2, mb: 2 };
 const increaseUserLimitButtonSx = { mt: 1 };
 const hardwareIdTableCellSx = { fontFamily: 'monospace', fontSize: '0.875rem' };
+const customerLinkSx = { cursor: 'pointer' };
+const hardwareHistoryTitleSx = { mt: 3, mb: 1 };
 
 interface TabPanelProps {
   children?: React.ReactNode;
@@ -98,7 +108,10 @@ export const LicenseViewPage = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
   const { showToast } = useToastContext();
+  const { handleApiError } = useApiErrorHandler();
   const [tabValue, setTabValue] = useState(0);
+  const [historyPage, setHistoryPage] = useState(0);
+  const [historyRowsPerPage, setHistoryRowsPerPage] = useState<number>(PAGINATION.DEFAULT_LIMIT);
   const [revokeDialogOpen, setRevokeDialogOpen] = useState(false);
   const [reactivateDialogOpen, setReactivateDialogOpen] = useState(false);
   const [copied, setCopied] = useState(false);
@@ -108,9 +121,27 @@ export const LicenseViewPage = () => {
   const licenseId = useMemo(() => (id ? Number(id) : null), [id]);
 
   const { data: license, isLoading, error } = useGetLicenseByIdQuery(licenseId!);
+  // Actions the current role can't perform are hidden rather than disabled
+  const canManageLicenses = usePermission('licenses.manage');
+  const canRevokeLicenses = usePermission('licenses.revoke');
+  const canCreatePayments = usePermission('payments.create');
+
   const [revokeLicense] = useRevokeLicenseMutation();
   const [reactivateLicense, { isLoading: isReactivating }] = useReactivateLicenseMutation();
 
+  // Performance: History is only fetched once the History tab is opened
+  const { data: historyData, isFetching: isFetchingHistory } = useGetAuditLogsQuery(
+    {
+      entityType: 'license',
+      entityId: licenseId!,
+      page: historyPage + 1,
+      limit: historyRowsPerPage,
+      sortBy: 'createdAt',
+      sortOrder: 'desc',
+    },
+    { skip: !licenseId || tabValue !== HISTORY_TAB_INDEX }
+  );
+
   // Cleanup timeout on unmount
   useEffect(() => {
     return () => {
@@ -129,10 +160,9 @@ export const LicenseViewPage = () => {
       showToast(SUCCESS_REVOKED, 'success');
       navigate(routes.licenses.list);
     } catch (err) {
-      console.error('Failed to revoke license:', err);
-      showToast(ERROR_REVOKE_FAILED, 'error');
+      handleApiError(err, { fallbackMessage: ERROR_REVOKE_FAILED });
     }
-  }, [license, revokeLicense, showToast, navigate]);
+  }, [license, revokeLicense, showToast, navigate, handleApiError]);
 
   // Memoize handleReactivate to prevent recreation on every render
   const handleReactivate = useCallback(async () => {
@@ -142,10 +172,9 @@ export const LicenseViewPage = () => {
       setReactivateDialogOpen(false);
       showToast(result.message || SUCCESS_REACTIVATED, 'success');
     } catch (err) {
-      console.error('Failed to reactivate license:', err);
-      showToast(ERROR_REACTIVATE_FAILED, 'error');
+      handleApiError(err, { fallbackMessage: ERROR_REACTIVATE_FAILED });
     }
-  }, [license, reactivateLicense, showToast]);
+  }, [license, reactivateLicense, showToast, handleApiError]);
 
   // Memoize handleCopyLicenseKey to prevent recreation on every render
   const handleCopyLicenseKey = useCallback(async () => {
@@ -187,12 +216,24 @@ export const LicenseViewPage = () => {
     }
   }, [navigate, license]);
 
+  const handleViewCustomer = useCallback(() => {
+    if (license?.customerPhone) {
+      navigate(routes.customers.view(license.customerPhone));
+    }
+  }, [navigate, license]);
+
   const handleIncreaseUserLimit = useCallback(() => {
     if (license) {
       navigate(`${routes.licenses.increaseUserLimit}?licenseKey=${encodeURIComponent(license.licenseKey)}`);
     }
   }, [navigate, license]);
 
+  // Memoize handleHistoryRowsPerPageChange to prevent recreation on every render
+  const handleHistoryRowsPerPageChange = useCallback((newRowsPerPage: number) => {
+    setHistoryRowsPerPage(newRowsPerPage);
+    setHistoryPage(0);
+  }, []);
+
   // Memoize tab change handler to prevent recreation on every render
   const handleTabChange = useCallback((_event: React.SyntheticEvent, newValue: number) => {
     setTabValue(newValue);
@@ -239,48 +280,54 @@ export const LicenseViewPage = () => {
           <Typography variant="h4" sx={{ fontSize: { xs: '1.5rem', sm: '2.125rem' } }}>License Details</Typography>
         </Box>
         <Box sx={headerButtonsBoxSx}>
-          <Tooltip title="Add a payment record for this license. This can be an initial payment, annual subscription payment, or user limit increase payment. Payments extend subscriptions and update license status.">
-            <span>
-              <Button 
-                variant="outlined" 
-                startIcon={<PaymentIcon />} 
-                onClick={handleAddPayment}
-                size="small"
-                sx={{ fontSize: { xs: '0.75rem', sm: '0.875rem' } }}
-              >
-                Add Payment
-              </Button>
-            </span>
-          </Tooltip>
-          <Tooltip title="Edit license information (customer name, phone, location, prices). This does not affect existing subscriptions or payments.">
-            <span>
-              <Button 
-                variant="outlined" 
-                startIcon={<EditIcon />} 
-                onClick={handleEditLicense}
-                size="small"
-                sx={{ fontSize: { xs: '0.75rem', sm: '0.875rem' } }}
-              >
-                Edit
-              </Button>
-            </span>
-          </Tooltip>
-          <Tooltip title="Reactivate this license by deactivating all existing activations. This allows the customer to re-enter their license key. All license data (subscriptions, payments, deadlines) will be preserved.">
-            <span>
-              <Button
-                variant="outlined"
-                color="primary"
-                startIcon={<RefreshIcon />}
-                onClick={handleOpenReactivateDialog}
-                disabled={isReactivating}
-                size="small"
-                sx={{ fontSize: { xs: '0.75rem', sm: '0.875rem' } }}
-              >
-                Reactivate
-              </Button>
-            </span>
-          </Tooltip>
-          {license.status !== 'revoked' && (
+          {canCreatePayments && (
+            <Tooltip title="Add a payment record for this license. This can be an initial payment, annual subscription payment, or user limit increase payment. Payments extend subscriptions and update license status.">
+              <span>
+                <Button 
+                  variant="outlined" 
+                  startIcon={<PaymentIcon />} 
+                  onClick={handleAddPayment}
+                  size="small"
+                  sx={{ fontSize: { xs: '0.75rem', sm: '0.875rem' } }}
+                >
+                  Add Payment
+                </Button>
+              </span>
+            </Tooltip>
+          )}
+          {canManageLicenses && (
+            <Tooltip title="Edit license information (customer name, phone, location, prices). This does not affect existing subscriptions or payments.">
+              <span>
+                <Button 
+                  variant="outlined" 
+                  startIcon={<EditIcon />} 
+                  onClick={handleEditLicense}
+                  size="small"
+                  sx={{ fontSize: { xs: '0.75rem', sm: '0.875rem' } }}
+                >
+                  Edit
+                </Button>
+              </span>
+            </Tooltip>
+          )}
+          {canManageLicenses && (
+            <Tooltip title="Reactivate this license by deactivating all existing activations. This allows the customer to re-enter their license key. All license data (subscriptions, payments, deadlines) will be preserved.">
+              <span>
+                <Button
+                  variant="outlined"
+                  color="primary"
+                  startIcon={<RefreshIcon />}
+                  onClick={handleOpenReactivateDialog}
+                  disabled={isReactivating}
+                  size="small"
+                  sx={{ fontSize: { xs: '0.75rem', sm: '0.875rem' } }}
+                >
+                  Reactivate
+                </Button>
+              </span>
+            </Tooltip>
+          )}
+          {canRevokeLicenses && license.status !== 'revoked' && (
             <Tooltip title="Revoke this license permanently. This action cannot be undone. The license will be marked as revoked, all activations will be deactivated, and the customer will no longer be able to use the license.">
               <span>
                 <Button 
@@ -349,7 +396,15 @@ export const LicenseViewPage = () => {
               Customer Phone
             </Typography>
             <Typography variant="body1" sx={bodyTypographySx}>
-              {license.customerPhone || '-'}
+              {license.customerPhone ? (
+                <Tooltip title="View all licenses, payments and activations for this customer">
+                  <Link sx={customerLinkSx} onClick={handleViewCustomer}>
+                    {license.customerPhone}
+                  </Link>
+                </Tooltip>
+              ) : (
+                '-'
+              )}
             </Typography>
           </Grid>
           <Grid item xs={12} md={6}>
@@ -403,23 +458,25 @@ export const LicenseViewPage = () => {
               />
             </Box>
           </Grid>
-          <Grid item xs={12} md={6}>
-            <Typography variant="subtitle2" color="text.secondary">
-              User Limit Management
-            </Typography>
-            <Tooltip title="Increase the user limit for this license. This allows more users to be added to the license. The change takes effect immediately and allows additional users to be created in the desktop application.">
-              <span>
-                <Button
-                  variant="outlined"
-                  startIcon={<PersonAddIcon />}
-                  onClick={handleIncreaseUserLimit}
-                  sx={increaseUserLimitButtonSx}
-                >
-                  Increase User Limit
-                </Button>
-              </span>
-            </Tooltip>
-          </Grid>
+          {canManageLicenses && (
+            <Grid item xs={12} md={6}>
+              <Typography variant="subtitle2" color="text.secondary">
+                User Limit Management
+              </Typography>
+              <Tooltip title="Increase the user limit for this license. This allows more users to be added to the license. The change takes effect immediately and allows additional users to be created in the desktop application.">
+                <span>
+                  <Button
+                    variant="outlined"
+                    startIcon={<PersonAddIcon />}
+                    onClick={handleIncreaseUserLimit}
+                    sx={increaseUserLimitButtonSx}
+                  >
+                    Increase User Limit
+                  </Button>
+                </span>
+              </Tooltip>
+            </Grid>
+          )}
         </Grid>
       </Paper>
 
@@ -428,6 +485,7 @@ export const LicenseViewPage = () => {
           <Tab label="Activations" />
           <Tab label="Subscriptions" />
           <Tab label="Payments" />
+          <Tab label="History" />
         </Tabs>
 
         <TabPanel value={tabValue} index={0}>
@@ -467,6 +525,10 @@ export const LicenseViewPage = () => {
               </TableBody>
             </Table>
           </TableContainer>
+          <Typography variant="h6" sx={hardwareHistoryTitleSx}>
+            Hardware History
+          </Typography>
+          <HardwareTimeline licenseId={license.id} />
         </TabPanel>
 
         <TabPanel value={tabValue} index={1}>
@@ -550,6 +612,18 @@ export const LicenseViewPage = () => {
             </Table>
           </TableContainer>
         </TabPanel>
+
+        <TabPanel value={tabValue} index={HISTORY_TAB_INDEX}>
+          <AuditLogTable
+            entries={historyData?.entries || []}
+            page={historyPage}
+            rowsPerPage={historyRowsPerPage}
+            totalRows={historyData?.pagination.totalItems || 0}
+            onPageChange={setHistoryPage}
+            onRowsPerPageChange={handleHistoryRowsPerPageChange}
+            loading={isFetchingHistory}
+          />
+        </TabPanel>
       </Paper>
 
       <ConfirmDialog
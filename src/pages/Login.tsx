@@ -1,7 +1,18 @@
 import { memo } from 'react';
+import { Navigate } from 'react-router-dom';
+import { useSelector } from 'react-redux';
+import { RootState } from '../store';
+import { routes } from '../config/routes';
 import { LoginForm } from '../features/auth/components/LoginForm';
 
 function LoginPageComponent() {
+  // Leave the login page when a session starts in another tab
+  const isAuthenticated = useSelector((state: RootState) => state.auth.isAuthenticated);
+
+  if (isAuthenticated) {
+    return <Navigate to={routes.dashboard} replace />;
+  }
+
   return <LoginForm />;
 }
 
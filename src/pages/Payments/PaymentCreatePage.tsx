@@ -24,6 +24,7 @@ import { useCreatePaymentMutation } from '../../api/paymentApi';
 import { useLazyGetLicenseByKeyQuery } from '../../api/licenseApi';
 import { routes } from '../../config/routes';
 import { useToastContext } from '../../components/common/Toast/useToastContext';
+import { useApiErrorHandler } from '../../hooks/useApiErrorHandler';
 import { dateToUTCISOString } from '../../utils/dateUtils';
 import moment from 'moment-timezone';
 import { License } from '../../types/license.types';
@@ -41,6 +42,12 @@ const ERROR_PAYMENT_TYPE_REQUIRED = 'Payment type is required';
 const ERROR_USER_QUANTITY_INVALID = 'Quantity of users must be greater than 0';
 const ERROR_AMOUNT_INVALID = 'Amount must be 0 or greater';
 const ERROR_PAYMENT_DATE_INVALID = 'Invalid payment date';
+// Server validation fields that are named differently in this form
+const SERVER_FIELD_MAP: Record<string, string> = {
+  licenseId: 'licenseKey',
+  additionalUsers: 'userQuantity',
+  isAnnualSubscription: 'paymentType',
+};
 
 // Extract sx props to constants to prevent recreation on every render
 const headerBoxSx = { display: 'flex', alignItems: 'center', gap: 2, mb: 3 };
@@ -58,6 +65,7 @@ const paymentHistoryLabelSx = { mb: 1 };
 export const PaymentCreatePage = () => {
   const navigate = useNavigate();
   const { showToast } = useToastContext();
+  const { handleApiError } = useApiErrorHandler();
   const [searchParams] = useSearchParams();
   const [createPayment, { isLoading }] = useCreatePaymentMutation();
 
@@ -274,12 +282,20 @@ export const PaymentCreatePage = () => {
         showToast(SUCCESS_CREATED, 'success');
         navigate(routes.payments.list);
       } catch (err: unknown) {
-        const error = err as { data?: { message?: string }; message?: string };
-        const errorMessage = error?.data?.message || error?.message || ERROR_DEFAULT;
-        showToast(errorMessage, 'error');
+        const apiError = handleApiError(err, {
+          fallbackMessage: ERROR_DEFAULT,
+          setFieldError: (field, message) => {
+            const formField = SERVER_FIELD_MAP[field] || field;
+            setErrors((prev) => ({ ...prev, [formField]: message }));
+          },
+        });
+        // Queued while offline: the payment is recorded when the connection returns
+        if (apiError.kind === 'queued') {
+          navigate(routes.payments.list);
+        }
       }
     },
-    [validateForm, licenseData, amount, paymentDate, paymentType, userQuantity, createPayment, showToast, navigate]
+    [validateForm, licenseData, amount, paymentDate, paymentType, userQuantity, createPayment, showToast, handleApiError, navigate]
   );
 
   // Memoize navigation handlers to prevent recreation on every render
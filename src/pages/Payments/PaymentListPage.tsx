@@ -9,24 +9,37 @@ import {
   IconButton,
   Button,
   Paper,
+  Tooltip,
 } from '@mui/material';
-import { Visibility as ViewIcon, FileDownload as ExportIcon, Add as AddIcon, AttachMoney as MoneyIcon } from '@mui/icons-material';
+import {
+  Visibility as ViewIcon,
+  FileDownload as ExportIcon,
+  Add as AddIcon,
+  AttachMoney as MoneyIcon,
+  PictureAsPdf as PdfIcon,
+} from '@mui/icons-material';
 import { SingleInputDateRangeField } from '@mui/x-date-pickers-pro/SingleInputDateRangeField';
-import { useGetPaymentsQuery, useLazyExportPaymentsCSVQuery } from '../../api/paymentApi';
+import { useGetPaymentsQuery, useLazyExportPaymentsCSVQuery, useLazyGetPaymentByIdQuery } from '../../api/paymentApi';
 import { DataTable, Column } from '../../components/common/DataTable/DataTable';
+import { SavedViewsMenu } from '../../components/common/SavedViews/SavedViewsMenu';
 import { Payment } from '../../types/license.types';
 import { formatDate, formatCurrency, getPaymentTypeLabel, getPaymentTypeColor } from '../../utils/formatters';
 import { useNavigate } from 'react-router-dom';
 import { routes } from '../../config/routes';
-import { PAGINATION } from '../../utils/constants';
+import { SHORTCUTS } from '../../config/shortcuts';
+import { useListParams } from '../../hooks/useListParams';
+import { usePermission } from '../../hooks/usePermission';
+import { useKeyboardShortcut } from '../../hooks/useKeyboardShortcut';
 import type { DateRange } from '@mui/x-date-pickers-pro/models';
 import { useToastContext } from '../../components/common/Toast/useToastContext';
-import { dateToUTCDateString } from '../../utils/dateUtils';
+import { dateToUTCDateString, dateToQueryParam, queryParamToDate } from '../../utils/dateUtils';
+import { downloadPaymentPdf } from '../../utils/paymentPdf';
 
 // Constants
 const DEBOUNCE_DELAY = 500; // milliseconds
 const ERROR_EXPORT_FAILED = 'Failed to export CSV. Please try again.';
 const ERROR_LOADING_PAYMENTS = 'Failed to load payments. Please try again.';
+const ERROR_INVOICE_FAILED = 'Failed to generate invoice. Please try again.';
 
 const typeOptions: { value: string; label: string }[] = [
   { value: '', label: 'All Types' },
@@ -34,12 +47,21 @@ const typeOptions: { value: string; label: string }[] = [
   { value: 'false', label: 'Initial Purchase' },
 ];
 
+// Columns the server can sort by; kept in sync with the sortable table columns
+const SORTABLE_FIELDS = ['paymentDate', 'licenseId', 'amount', 'paymentType'] as const;
+
+// Filters kept in the URL so filtered views can be shared as links.
+// Dates are stored as calendar days (YYYY-MM-DD) of the date range picker.
+const DEFAULT_FILTERS = { type: '', licenseId: '', startDate: '', endDate: '' };
+const FILTER_OPTIONS = { type: typeOptions.map((option) => option.value) };
+
 // Extract sx props to constants to prevent recreation on every render
 const headerBoxSx = { display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 3 };
 const buttonsBoxSx = { display: 'flex', gap: 2 };
 const filtersGridSx = { mb: 3 };
 const totalAmountBoxSx = { mb: 3 };
 const errorBoxSx = { mb: 2 };
+const actionsBoxSx = { display: 'flex', gap: 1, justifyContent: 'center' };
 const totalAmountCardSx = {
   p: 3,
   bgcolor: 'primary.main',
@@ -71,26 +93,52 @@ const totalAmountValueSx = {
 
 export const PaymentListPage = () => {
   const navigate = useNavigate();
+  const canCreatePayments = usePermission('payments.create');
   const { showToast } = useToastContext();
-  const [page, setPage] = useState(0);
-  const [rowsPerPage, setRowsPerPage] = useState<number>(PAGINATION.DEFAULT_LIMIT);
-  const [typeFilter, setTypeFilter] = useState<string>('');
-  const [licenseIdFilter, setLicenseIdFilter] = useState<string>('');
-  const [debouncedLicenseIdFilter, setDebouncedLicenseIdFilter] = useState<string>('');
-  const [dateRange, setDateRange] = useState<DateRange<Date>>([null, null]);
+  const { page, rowsPerPage, sortBy, sortOrder, filters, setPage, setRowsPerPage, setSort, setFilters } =
+    useListParams({
+      defaultFilters: DEFAULT_FILTERS,
+      filterOptions: FILTER_OPTIONS,
+      defaultSortBy: 'paymentDate',
+      defaultSortOrder: 'desc',
+      sortableFields: SORTABLE_FIELDS,
+    });
+  const { type: typeFilter, licenseId: debouncedLicenseIdFilter } = filters;
+  // Inputs update immediately; the debounced/validated values are what live in the URL
+  const [licenseIdFilter, setLicenseIdFilter] = useState<string>(debouncedLicenseIdFilter);
+  const [dateRange, setDateRange] = useState<DateRange<Date>>(() => [
+    queryParamToDate(filters.startDate),
+    queryParamToDate(filters.endDate),
+  ]);
 
   // Debounce timer ref
   const licenseIdDebounceTimerRef = useRef<NodeJS.Timeout | null>(null);
 
+  // Keep the inputs in sync when the URL changes (e.g. back navigation or a shared link)
+  useEffect(() => {
+    setLicenseIdFilter(debouncedLicenseIdFilter);
+  }, [debouncedLicenseIdFilter]);
+
+  useEffect(() => {
+    // Keep a partially typed range in the field as long as it still matches the URL
+    setDateRange((current) =>
+      (dateToQueryParam(current[0]) || '') === filters.startDate &&
+      (dateToQueryParam(current[1]) || '') === filters.endDate
+        ? current
+        : [queryParamToDate(filters.startDate), queryParamToDate(filters.endDate)]
+    );
+  }, [filters.startDate, filters.endDate]);
+
   // Debounce license ID filter - wait DEBOUNCE_DELAY after user stops typing
   useEffect(() => {
+    if (licenseIdFilter === debouncedLicenseIdFilter) return;
+
     if (licenseIdDebounceTimerRef.current) {
       clearTimeout(licenseIdDebounceTimerRef.current);
     }
 
     licenseIdDebounceTimerRef.current = setTimeout(() => {
-      setDebouncedLicenseIdFilter(licenseIdFilter);
-      setPage(0); // Reset to first page when filter changes
+      setFilters({ licenseId: licenseIdFilter }); // Also resets to first page
     }, DEBOUNCE_DELAY);
 
     return () => {
@@ -98,11 +146,14 @@ export const PaymentListPage = () => {
         clearTimeout(licenseIdDebounceTimerRef.current);
       }
     };
-  }, [licenseIdFilter]);
+  }, [licenseIdFilter, debouncedLicenseIdFilter, setFilters]);
 
   // Memoize date calculations to prevent recalculation on every render
-  const startDate = useMemo(() => dateToUTCDateString(dateRange[0]) || '', [dateRange]);
-  const endDate = useMemo(() => dateToUTCDateString(dateRange[1]) || '', [dateRange]);
+  const startDate = useMemo(
+    () => dateToUTCDateString(queryParamToDate(filters.startDate)) || '',
+    [filters.startDate]
+  );
+  const endDate = useMemo(() => dateToUTCDateString(queryParamToDate(filters.endDate)) || '', [filters.endDate]);
 
   // Memoize query parameters to prevent unnecessary re-renders of the query hook
   const queryParams = useMemo(
@@ -113,15 +164,17 @@ export const PaymentListPage = () => {
       licenseId: debouncedLicenseIdFilter ? Number(debouncedLicenseIdFilter) : undefined,
       startDate: startDate || undefined,
       endDate: endDate || undefined,
-      sortBy: 'paymentDate',
-      sortOrder: 'desc' as const,
+      sortBy,
+      sortOrder,
     }),
-    [page, rowsPerPage, typeFilter, debouncedLicenseIdFilter, startDate, endDate]
+    [page, rowsPerPage, typeFilter, debouncedLicenseIdFilter, startDate, endDate, sortBy, sortOrder]
   );
 
   const { data, isLoading, error } = useGetPaymentsQuery(queryParams);
 
   const [exportCSV] = useLazyExportPaymentsCSVQuery();
+  const [getPaymentById] = useLazyGetPaymentByIdQuery();
+  const [invoicePaymentId, setInvoicePaymentId] = useState<number | null>(null);
 
   // Memoize handleExportCSV to prevent recreation on every render
   const handleExportCSV = useCallback(async () => {
@@ -149,6 +202,24 @@ export const PaymentListPage = () => {
     }
   }, [exportCSV, typeFilter, debouncedLicenseIdFilter, startDate, endDate, showToast]);
 
+  // Memoize handleDownloadInvoice to prevent recreation on every render
+  // List rows don't include the license, so fetch the full payment before generating the PDF
+  const handleDownloadInvoice = useCallback(
+    async (id: number) => {
+      setInvoicePaymentId(id);
+      try {
+        const payment = await getPaymentById(id, true).unwrap();
+        downloadPaymentPdf(payment, 'invoice');
+      } catch (err) {
+        console.error('Failed to generate invoice:', err);
+        showToast(ERROR_INVOICE_FAILED, 'error');
+      } finally {
+        setInvoicePaymentId(null);
+      }
+    },
+    [getPaymentById, showToast]
+  );
+
   // Memoize navigation handler to prevent recreation on every render
   const handleViewPayment = useCallback(
     (id: number) => {
@@ -157,6 +228,14 @@ export const PaymentListPage = () => {
     [navigate]
   );
 
+  // Opens the row focused with j/k when Enter is pressed
+  const handleRowOpen = useCallback(
+    (row: Payment) => {
+      handleViewPayment(row.id);
+    },
+    [handleViewPayment]
+  );
+
   // Memoize license navigation handler to prevent recreation on every render
   const handleViewLicense = useCallback(
     (licenseId: number) => {
@@ -169,6 +248,8 @@ export const PaymentListPage = () => {
     navigate(routes.payments.create);
   }, [navigate]);
 
+  useKeyboardShortcut(SHORTCUTS.create.keys, handleCreatePayment, canCreatePayments);
+
   // Memoize columns array to prevent recreation on every render
   // This is critical for performance since DataTable uses this array
   const columns: Column<Payment>[] = useMemo(
@@ -177,6 +258,7 @@ export const PaymentListPage = () => {
         id: 'licenseId',
         label: 'License ID',
         minWidth: 100,
+        sortable: true,
         align: 'center',
         format: (value: unknown) => {
           const licenseId = typeof value === 'number' ? value : Number(value);
@@ -205,6 +287,7 @@ export const PaymentListPage = () => {
         id: 'amount',
         label: 'Amount',
         minWidth: 120,
+        sortable: true,
         align: 'right',
         format: (value: unknown) => (typeof value === 'number' ? formatCurrency(value) : String(value ?? '')),
       },
@@ -212,12 +295,14 @@ export const PaymentListPage = () => {
         id: 'paymentDate',
         label: 'Payment Date',
         minWidth: 120,
+        sortable: true,
         format: (value: unknown) => (typeof value === 'string' ? formatDate(value) : String(value ?? '')),
       },
       {
         id: 'paymentType',
         label: 'Type',
         minWidth: 120,
+        sortable: true,
         align: 'center',
         format: (value: unknown, row: Payment) => (
           <Chip
@@ -233,48 +318,67 @@ export const PaymentListPage = () => {
         minWidth: 100,
         align: 'center',
         format: (_value: unknown, row: Payment) => (
-          <IconButton size="small" onClick={() => handleViewPayment(row.id)}>
-            <ViewIcon fontSize="small" />
-          </IconButton>
+          <Box sx={actionsBoxSx}>
+            <IconButton size="small" onClick={() => handleViewPayment(row.id)}>
+              <ViewIcon fontSize="small" />
+            </IconButton>
+            <Tooltip title="Download invoice (PDF)">
+              <span>
+                <IconButton
+                  size="small"
+                  onClick={() => handleDownloadInvoice(row.id)}
+                  disabled={invoicePaymentId === row.id}
+                >
+                  <PdfIcon fontSize="small" />
+                </IconButton>
+              </span>
+            </Tooltip>
+          </Box>
         ),
       },
     ],
-    [handleViewPayment, handleViewLicense]
+    [handleViewPayment, handleViewLicense, handleDownloadInvoice, invoicePaymentId]
   );
 
   // Memoize filter change handlers to prevent recreation on every render
-  const handleTypeChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
-    setTypeFilter(e.target.value);
-    setPage(0);
-  }, []);
+  const handleTypeChange = useCallback(
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      setFilters({ type: e.target.value });
+    },
+    [setFilters]
+  );
 
   const handleLicenseIdChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     setLicenseIdFilter(e.target.value);
     // Page reset is handled by debounce effect
   }, []);
 
-  const handleDateRangeChange = useCallback((newValue: DateRange<Date>) => {
-    setDateRange(newValue);
-    setPage(0);
-  }, []);
-
-  // Memoize handleRowsPerPageChange to prevent recreation on every render
-  const handleRowsPerPageChange = useCallback((newRowsPerPage: number) => {
-    setRowsPerPage(newRowsPerPage);
-    setPage(0);
-  }, []);
+  const handleDateRangeChange = useCallback(
+    (newValue: DateRange<Date>) => {
+      setDateRange(newValue);
+      // Incomplete or invalid dates are left out of the URL until they parse
+      setFilters({
+        startDate: dateToQueryParam(newValue[0]) || '',
+        endDate: dateToQueryParam(newValue[1]) || '',
+      });
+    },
+    [setFilters]
+  );
 
   return (
     <Box>
       <Box sx={headerBoxSx}>
         <Typography variant="h4">Payments</Typography>
         <Box sx={buttonsBoxSx}>
-          <Button variant="contained" startIcon={<AddIcon />} onClick={handleCreatePayment}>
-            Create Payment
-          </Button>
+          {canCreatePayments && (
+            <Button variant="contained" startIcon={<AddIcon />} onClick={handleCreatePayment}>
+              Create Payment
+            </Button>
+          )}
           <Button variant="outlined" startIcon={<ExportIcon />} onClick={handleExportCSV} disabled={isLoading}>
             Export CSV
           </Button>
+          <SavedViewsMenu path={routes.payments.list} />
         </Box>
       </Box>
 
@@ -354,9 +458,13 @@ export const PaymentListPage = () => {
         rowsPerPage={rowsPerPage}
         totalRows={data?.pagination.totalItems || 0}
         onPageChange={setPage}
-        onRowsPerPageChange={handleRowsPerPageChange}
+        onRowsPerPageChange={setRowsPerPage}
         loading={isLoading}
+        sortBy={sortBy}
+        sortOrder={sortOrder}
+        onSortChange={setSort}
         emptyMessage="No payments found"
+        onRowOpen={handleRowOpen}
       />
     </Box>
   );
@@ -14,6 +14,7 @@ import {
   ArrowBack as BackIcon,
   ContentCopy as CopyIcon,
   Check as CheckIcon,
+  PictureAsPdf as PdfIcon,
 } from '@mui/icons-material';
 import { useGetPaymentByIdQuery } from '../../api/paymentApi';
 import { LoadingSpinner } from '../../components/common/Loading/LoadingSpinner';
@@ -21,6 +22,7 @@ import { ErrorMessage } from '../../components/common/Error/ErrorMessage';
 import { formatDate, formatCurrency, getPaymentTypeLabel, getPaymentTypeColor } from '../../utils/formatters';
 import { routes } from '../../config/routes';
 import { useToastContext } from '../../components/common/Toast/useToastContext';
+import { downloadPaymentPdf } from '../../utils/paymentPdf';
 
 // Constants
 const COPIED_TIMEOUT = 2000; // 2 seconds
@@ -28,9 +30,11 @@ const SUCCESS_COPIED = 'License key copied to clipboard';
 const ERROR_COPY_FAILED = 'Failed to copy license key';
 const ERROR_LOADING_PAYMENT_MESSAGE = 'Failed to load payment details. Please try again.';
 const ERROR_LOADING_PAYMENT_TITLE = 'Error Loading Payment';
+const ERROR_RECEIPT_FAILED = 'Failed to generate receipt. Please try again.';
 
 // Extract sx props to constants to prevent recreation on every render
 const headerBoxSx = { display: 'flex', alignItems: 'center', gap: 2, mb: 3 };
+const headerTitleSx = { flexGrow: 1 };
 const paperSx = { p: 3, mb: 3 };
 const amountTypographySx = { mb: 2, color: 'primary.main' };
 const statusBoxSx = { mb: 2 };
@@ -94,6 +98,18 @@ export const PaymentViewPage = () => {
     }
   }, [navigate, payment?.license]);
 
+  // Memoize handleDownloadReceipt to prevent recreation on every render
+  const handleDownloadReceipt = useCallback(() => {
+    if (!payment) return;
+
+    try {
+      downloadPaymentPdf(payment, 'receipt');
+    } catch (err) {
+      console.error('Failed to generate receipt:', err);
+      showToast(ERROR_RECEIPT_FAILED, 'error');
+    }
+  }, [payment, showToast]);
+
   if (isLoading) {
     return <LoadingSpinner fullScreen />;
   }
@@ -110,7 +126,16 @@ export const PaymentViewPage = () => {
         <IconButton onClick={handleBack}>
           <BackIcon />
         </IconButton>
-        <Typography variant="h4">Payment Details</Typography>
+        <Typography variant="h4" sx={headerTitleSx}>
+          Payment Details
+        </Typography>
+        <Tooltip title="Download a branded PDF receipt for this payment, including the license key, customer, location, payment type, amount and date.">
+          <span>
+            <Button variant="outlined" startIcon={<PdfIcon />} onClick={handleDownloadReceipt}>
+              Download Receipt
+            </Button>
+          </span>
+        </Tooltip>
       </Box>
 
       <Paper sx={paperSx}>
@@ -1,14 +1,22 @@
-import { Box, Typography, Paper, Grid, Switch, FormControlLabel, Divider, Button, Alert } from '@mui/material';
-import { Save as SaveIcon, Settings as SettingsIcon, People as PeopleIcon, Category as CategoryIcon } from '@mui/icons-material';
+import { Box, Typography, Paper, Grid, Switch, FormControlLabel, Divider, Button, Alert, TextField } from '@mui/material';
+import {
+  Save as SaveIcon,
+  Settings as SettingsIcon,
+  People as PeopleIcon,
+  Category as CategoryIcon,
+  Devices as DevicesIcon,
+} from '@mui/icons-material';
 import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { useGetPreferencesQuery, useUpdatePreferencesMutation } from '../../api/preferencesApi';
 import { LoadingSpinner } from '../../components/common/Loading/LoadingSpinner';
+import { STALE_ACTIVATIONS } from '../../utils/constants';
 
 // Constants
 const SUCCESS_TIMEOUT = 3000; // 3 seconds
 const SUCCESS_UPDATED = 'Preferences updated successfully!';
 const ERROR_UPDATE = 'Failed to update preferences. Please try again.';
 const ERROR_NO_CHANGES = 'No changes detected';
+const ERROR_STALE_AFTER_DAYS = `Enter a whole number of days between ${STALE_ACTIVATIONS.MIN_AFTER_DAYS} and ${STALE_ACTIVATIONS.MAX_AFTER_DAYS}`;
 
 // Extract sx props to constants to prevent recreation on every render
 const titleTypographySx = { mb: 2.5 };
@@ -18,6 +26,11 @@ const iconSx = { mr: 1, color: 'primary.main' };
 const dividerSx = { mb: 2.5 };
 const alertSx = { mt: 1 };
 const saveButtonSx = { mt: 2 };
+const staleAfterDaysFieldSx = { maxWidth: 240 };
+const staleHelperTextSx = { mt: 1 };
+
+const isValidStaleAfterDays = (days: number): boolean =>
+  Number.isInteger(days) && days >= STALE_ACTIVATIONS.MIN_AFTER_DAYS && days <= STALE_ACTIVATIONS.MAX_AFTER_DAYS;
 
 export const PreferencesPage = () => {
   const { data: preferences, isLoading, refetch } = useGetPreferencesQuery();
@@ -29,6 +42,9 @@ export const PreferencesPage = () => {
   });
   const [customerPrefs, setCustomerPrefs] = useState({});
   const [licenseTypeVersionPrefs, setLicenseTypeVersionPrefs] = useState({});
+  // Kept as text so the field can be cleared while typing
+  const [staleAfterDays, setStaleAfterDays] = useState(String(STALE_ACTIVATIONS.DEFAULT_AFTER_DAYS));
+  const savedStaleAfterDays = preferences?.activations?.staleAfterDays ?? STALE_ACTIVATIONS.DEFAULT_AFTER_DAYS;
 
   // Success/error state
   const [saved, setSaved] = useState(false);
@@ -45,6 +61,7 @@ export const PreferencesPage = () => {
       });
       setCustomerPrefs(preferences.customer || {});
       setLicenseTypeVersionPrefs(preferences.licenseTypeVersion || {});
+      setStaleAfterDays(String(preferences.activations?.staleAfterDays ?? STALE_ACTIVATIONS.DEFAULT_AFTER_DAYS));
     }
   }, [preferences]);
 
@@ -73,9 +90,12 @@ export const PreferencesPage = () => {
     return (
       generalPrefs.phoneNumberVerification !== (preferences.general?.phoneNumberVerification ?? true) ||
       JSON.stringify(customerPrefs) !== JSON.stringify(preferences.customer || {}) ||
-      JSON.stringify(licenseTypeVersionPrefs) !== JSON.stringify(preferences.licenseTypeVersion || {})
+      JSON.stringify(licenseTypeVersionPrefs) !== JSON.stringify(preferences.licenseTypeVersion || {}) ||
+      Number(staleAfterDays) !== savedStaleAfterDays
     );
-  }, [preferences, generalPrefs, customerPrefs, licenseTypeVersionPrefs]);
+  }, [preferences, generalPrefs, customerPrefs, licenseTypeVersionPrefs, staleAfterDays, savedStaleAfterDays]);
+
+  const staleAfterDaysError = !isValidStaleAfterDays(Number(staleAfterDays));
 
   // Handle save
   const handleSave = useCallback(async () => {
@@ -87,11 +107,17 @@ export const PreferencesPage = () => {
       return;
     }
 
+    if (staleAfterDaysError) {
+      setErrorMsg(ERROR_STALE_AFTER_DAYS);
+      return;
+    }
+
     try {
       const updates: {
         general?: Partial<typeof generalPrefs>;
         customer?: typeof customerPrefs;
         licenseTypeVersion?: typeof licenseTypeVersionPrefs;
+        activations?: { staleAfterDays: number };
       } = {};
 
       // Only include changed sections
@@ -107,6 +133,10 @@ export const PreferencesPage = () => {
         updates.licenseTypeVersion = licenseTypeVersionPrefs;
       }
 
+      if (Number(staleAfterDays) !== savedStaleAfterDays) {
+        updates.activations = { staleAfterDays: Number(staleAfterDays) };
+      }
+
       await updatePreferences(updates).unwrap();
       setSaved(true);
 
@@ -126,7 +156,18 @@ export const PreferencesPage = () => {
       // Error is handled by useEffect
       console.error('Preferences update error:', error);
     }
-  }, [hasChanges, generalPrefs, customerPrefs, licenseTypeVersionPrefs, preferences, updatePreferences, refetch]);
+  }, [
+    hasChanges,
+    staleAfterDaysError,
+    generalPrefs,
+    customerPrefs,
+    licenseTypeVersionPrefs,
+    staleAfterDays,
+    savedStaleAfterDays,
+    preferences,
+    updatePreferences,
+    refetch,
+  ]);
 
   // Handle phone number verification toggle
   const handlePhoneVerificationChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
@@ -136,6 +177,11 @@ export const PreferencesPage = () => {
     }));
   }, []);
 
+  // Handle stale activation threshold change
+  const handleStaleAfterDaysChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+    setStaleAfterDays(event.target.value);
+  }, []);
+
   if (isLoading) {
     return <LoadingSpinner fullScreen />;
   }
@@ -205,6 +251,31 @@ export const PreferencesPage = () => {
           </Paper>
         </Grid>
 
+        {/* Activation Preferences */}
+        <Grid item xs={12}>
+          <Paper sx={paperSx}>
+            <Box sx={iconBoxSx}>
+              <DevicesIcon sx={iconSx} />
+              <Typography variant="h6">Activation Preferences</Typography>
+            </Box>
+            <Divider sx={dividerSx} />
+
+            <TextField
+              label="Stale After (days)"
+              type="number"
+              value={staleAfterDays}
+              onChange={handleStaleAfterDaysChange}
+              error={staleAfterDaysError}
+              helperText={staleAfterDaysError ? ERROR_STALE_AFTER_DAYS : undefined}
+              inputProps={{ min: STALE_ACTIVATIONS.MIN_AFTER_DAYS, max: STALE_ACTIVATIONS.MAX_AFTER_DAYS }}
+              sx={staleAfterDaysFieldSx}
+            />
+            <Typography variant="body2" color="text.secondary" sx={staleHelperTextSx}>
+              Active activations that haven't validated with the server for this many days are flagged as stale on the Activations page, where they can be filtered and deactivated in bulk to free seats.
+            </Typography>
+          </Paper>
+        </Grid>
+
         {/* Save Button */}
         <Grid item xs={12}>
           <Box sx={{ display: 'flex', justifyContent: 'flex-end' }}>
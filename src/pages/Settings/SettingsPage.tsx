@@ -9,6 +9,8 @@ import {
   useChangePasswordMutation,
 } from '../../features/auth/slice/authApi';
 import { LoadingSpinner } from '../../components/common/Loading/LoadingSpinner';
+import { TwoFactorSettingsCard } from '../../components/settings/TwoFactorSettingsCard';
+import { SessionsCard } from '../../components/settings/SessionsCard';
 import { config } from '../../config/env';
 
 // Constants
@@ -592,6 +594,16 @@ export const SettingsPage = () => {
           </Paper>
         </Grid>
 
+        {/* Two-Factor Authentication */}
+        <Grid item xs={12} md={6}>
+          <TwoFactorSettingsCard phone={userInfo?.phone || ''} enabled={userInfo?.twoFactorEnabled ?? false} />
+        </Grid>
+
+        {/* Active Sessions */}
+        <Grid item xs={12} md={6}>
+          <SessionsCard />
+        </Grid>
+
         {/* Application Info */}
         <Grid item xs={12}>
           <Paper sx={paperSx}>
@@ -9,15 +9,17 @@ import {
   IconButton,
 } from '@mui/material';
 import { Visibility as ViewIcon, Refresh as RenewIcon } from '@mui/icons-material';
-import { useGetSubscriptionsQuery, useRenewSubscriptionMutation } from '../../api/subscriptionApi';
+import { useGetSubscriptionsQuery } from '../../api/subscriptionApi';
 import { DataTable, Column } from '../../components/common/DataTable/DataTable';
+import { SavedViewsMenu } from '../../components/common/SavedViews/SavedViewsMenu';
 import { Subscription } from '../../types/license.types';
 import { formatDate, formatCurrency } from '../../utils/formatters';
 import { getDaysRemaining } from '../../utils/dateUtils';
 import { useNavigate } from 'react-router-dom';
 import { routes } from '../../config/routes';
-import { PAGINATION } from '../../utils/constants';
-import { ConfirmDialog } from '../../components/common/Modals/ConfirmDialog';
+import { useListParams } from '../../hooks/useListParams';
+import { usePermission } from '../../hooks/usePermission';
+import { RenewalWizardDialog } from '../../components/subscription/RenewalWizardDialog';
 
 // Constants
 const ERROR_LOADING_SUBSCRIPTIONS = 'Failed to load subscriptions. Please try again.';
@@ -38,8 +40,15 @@ const STATUS_COLOR_MAP: Record<string, 'success' | 'warning' | 'default'> = {
   expired: 'default',
 };
 
+// Columns the server can sort by; kept in sync with the sortable table columns
+const SORTABLE_FIELDS = ['endDate', 'licenseId', 'startDate', 'annualFee', 'status'] as const;
+
+// Filters kept in the URL so filtered views can be shared as links
+const DEFAULT_FILTERS = { status: '' };
+const FILTER_OPTIONS = { status: statusOptions.map((option) => option.value) };
+
 // Extract sx props to constants to prevent recreation on every render
-const titleTypographySx = { mb: 3 };
+const headerBoxSx = { display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 3 };
 const filtersGridSx = { mb: 3 };
 const errorBoxSx = { mb: 2 };
 const daysRemainingTypographySx = { fontWeight: 400 };
@@ -48,11 +57,19 @@ const actionsBoxSx = { display: 'flex', gap: 1, justifyContent: 'center' };
 
 export const SubscriptionListPage = () => {
   const navigate = useNavigate();
-  const [page, setPage] = useState(0);
-  const [rowsPerPage, setRowsPerPage] = useState<number>(PAGINATION.DEFAULT_LIMIT);
-  const [statusFilter, setStatusFilter] = useState<string>('');
-  const [renewDialogOpen, setRenewDialogOpen] = useState(false);
-  const [selectedSubscriptionId, setSelectedSubscriptionId] = useState<number | null>(null);
+  const { page, rowsPerPage, sortBy, sortOrder, filters, setPage, setRowsPerPage, setSort, setFilters } =
+    useListParams({
+      defaultFilters: DEFAULT_FILTERS,
+      filterOptions: FILTER_OPTIONS,
+      defaultSortBy: 'endDate',
+      defaultSortOrder: 'asc',
+      sortableFields: SORTABLE_FIELDS,
+    });
+  const statusFilter = filters.status;
+  const canCreatePayments = usePermission('payments.create');
+  const [renewWizardOpen, setRenewWizardOpen] = useState(false);
+  // Kept after closing so the wizard keeps its content during the close transition
+  const [selectedSubscription, setSelectedSubscription] = useState<Subscription | null>(null);
 
   // Memoize query parameters to prevent unnecessary re-renders of the query hook
   const queryParams = useMemo(
@@ -60,35 +77,20 @@ export const SubscriptionListPage = () => {
       page: page + 1,
       limit: rowsPerPage,
       status: statusFilter || undefined,
-      sortBy: 'endDate',
-      sortOrder: 'asc' as const,
+      sortBy,
+      sortOrder,
     }),
-    [page, rowsPerPage, statusFilter]
+    [page, rowsPerPage, statusFilter, sortBy, sortOrder]
   );
 
   const { data, isLoading, error } = useGetSubscriptionsQuery(queryParams);
 
-  const [renewSubscription] = useRenewSubscriptionMutation();
-
-  // Memoize handleRenewClick to prevent recreation on every render
-  const handleRenewClick = useCallback((subscriptionId: number) => {
-    setSelectedSubscriptionId(subscriptionId);
-    setRenewDialogOpen(true);
+  // Renewing records the annual payment, so it goes through the same wizard as the view page
+  const handleRenewClick = useCallback((subscription: Subscription) => {
+    setSelectedSubscription(subscription);
+    setRenewWizardOpen(true);
   }, []);
 
-  // Memoize handleRenewConfirm to prevent recreation on every render
-  const handleRenewConfirm = useCallback(async () => {
-    if (!selectedSubscriptionId) return;
-
-    try {
-      await renewSubscription(selectedSubscriptionId).unwrap();
-      setRenewDialogOpen(false);
-      setSelectedSubscriptionId(null);
-    } catch (err) {
-      console.error('Failed to renew subscription:', err);
-    }
-  }, [selectedSubscriptionId, renewSubscription]);
-
   // Memoize navigation handler to prevent recreation on every render
   const handleViewSubscription = useCallback(
     (id: number) => {
@@ -97,6 +99,14 @@ export const SubscriptionListPage = () => {
     [navigate]
   );
 
+  // Opens the row focused with j/k when Enter is pressed
+  const handleRowOpen = useCallback(
+    (row: Subscription) => {
+      handleViewSubscription(row.id);
+    },
+    [handleViewSubscription]
+  );
+
   // Memoize license navigation handler to prevent recreation on every render
   const handleViewLicense = useCallback(
     (licenseId: number) => {
@@ -106,21 +116,16 @@ export const SubscriptionListPage = () => {
   );
 
   // Memoize filter change handler to prevent recreation on every render
-  const handleStatusChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
-    setStatusFilter(e.target.value);
-    setPage(0);
-  }, []);
-
-  // Memoize handleRowsPerPageChange to prevent recreation on every render
-  const handleRowsPerPageChange = useCallback((newRowsPerPage: number) => {
-    setRowsPerPage(newRowsPerPage);
-    setPage(0);
-  }, []);
+  const handleStatusChange = useCallback(
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      setFilters({ status: e.target.value });
+    },
+    [setFilters]
+  );
 
-  // Memoize dialog close handler to prevent recreation on every render
-  const handleRenewDialogClose = useCallback(() => {
-    setRenewDialogOpen(false);
-    setSelectedSubscriptionId(null);
+  // Memoize wizard close handler to prevent recreation on every render
+  const handleRenewWizardClose = useCallback(() => {
+    setRenewWizardOpen(false);
   }, []);
 
   // Memoize columns array to prevent recreation on every render
@@ -131,6 +136,7 @@ export const SubscriptionListPage = () => {
         id: 'licenseId',
         label: 'License ID',
         minWidth: 100,
+        sortable: true,
         align: 'center',
         format: (value: unknown) => {
           const licenseId = typeof value === 'number' ? value : Number(value);
@@ -159,12 +165,14 @@ export const SubscriptionListPage = () => {
         id: 'startDate',
         label: 'Start Date',
         minWidth: 120,
+        sortable: true,
         format: (value: unknown) => formatDate(value as string),
       },
       {
         id: 'endDate',
         label: 'End Date',
         minWidth: 120,
+        sortable: true,
         format: (value: unknown) => formatDate(value as string),
       },
       {
@@ -191,6 +199,7 @@ export const SubscriptionListPage = () => {
         id: 'annualFee',
         label: 'Annual Fee',
         minWidth: 100,
+        sortable: true,
         align: 'right',
         format: (value: unknown) => formatCurrency(value as number),
       },
@@ -198,6 +207,7 @@ export const SubscriptionListPage = () => {
         id: 'status',
         label: 'Status',
         minWidth: 120,
+        sortable: true,
         align: 'center',
         format: (value: unknown) => {
           const statusValue = value as string;
@@ -215,8 +225,8 @@ export const SubscriptionListPage = () => {
             <IconButton size="small" onClick={() => handleViewSubscription(row.id)}>
               <ViewIcon fontSize="small" />
             </IconButton>
-            {row.status === 'expired' || row.status === 'grace_period' ? (
-              <IconButton size="small" color="primary" onClick={() => handleRenewClick(row.id)}>
+            {canCreatePayments && (row.status === 'expired' || row.status === 'grace_period') ? (
+              <IconButton size="small" color="primary" onClick={() => handleRenewClick(row)}>
                 <RenewIcon fontSize="small" />
               </IconButton>
             ) : null}
@@ -224,14 +234,15 @@ export const SubscriptionListPage = () => {
         ),
       },
     ],
-    [handleViewSubscription, handleRenewClick, handleViewLicense]
+    [handleViewSubscription, handleRenewClick, handleViewLicense, canCreatePayments]
   );
 
   return (
     <Box>
-      <Typography variant="h4" gutterBottom sx={titleTypographySx}>
-        Subscriptions
-      </Typography>
+      <Box sx={headerBoxSx}>
+        <Typography variant="h4">Subscriptions</Typography>
+        <SavedViewsMenu path={routes.subscriptions.list} />
+      </Box>
 
       <Grid container spacing={2} sx={filtersGridSx}>
         <Grid item xs={12} md={4}>
@@ -265,21 +276,22 @@ export const SubscriptionListPage = () => {
         rowsPerPage={rowsPerPage}
         totalRows={data?.pagination.totalItems || 0}
         onPageChange={setPage}
-        onRowsPerPageChange={handleRowsPerPageChange}
+        onRowsPerPageChange={setRowsPerPage}
         loading={isLoading}
+        sortBy={sortBy}
+        sortOrder={sortOrder}
+        onSortChange={setSort}
         emptyMessage="No subscriptions found"
+        onRowOpen={handleRowOpen}
       />
 
-      <ConfirmDialog
-        open={renewDialogOpen}
-        title="Renew Subscription"
-        message="Are you sure you want to renew this subscription? This will extend the subscription for another year."
-        confirmLabel="Renew"
-        cancelLabel="Cancel"
-        confirmColor="primary"
-        onConfirm={handleRenewConfirm}
-        onCancel={handleRenewDialogClose}
-      />
+      {canCreatePayments && selectedSubscription && (
+        <RenewalWizardDialog
+          open={renewWizardOpen}
+          subscription={selectedSubscription}
+          onClose={handleRenewWizardClose}
+        />
+      )}
     </Box>
   );
 };
\ No newline at end of file
@@ -7,7 +7,6 @@ import {
   Chip,
   Button,
   IconButton,
-  Alert,
   Tooltip,
 } from '@mui/material';
 import {
@@ -17,22 +16,21 @@ import {
   Check as CheckIcon,
 } from '@mui/icons-material';
 import { useState, useCallback, useMemo, useRef, useEffect } from 'react';
-import { useGetSubscriptionByIdQuery, useRenewSubscriptionMutation } from '../../api/subscriptionApi';
+import { useGetSubscriptionByIdQuery } from '../../api/subscriptionApi';
 import { LoadingSpinner } from '../../components/common/Loading/LoadingSpinner';
 import { ErrorMessage } from '../../components/common/Error/ErrorMessage';
-import { ConfirmDialog } from '../../components/common/Modals/ConfirmDialog';
+import { RenewalWizardDialog } from '../../components/subscription/RenewalWizardDialog';
 import { formatDate, formatCurrency } from '../../utils/formatters';
 import { getDaysRemaining } from '../../utils/dateUtils';
 import { routes } from '../../config/routes';
 import { useToastContext } from '../../components/common/Toast/useToastContext';
+import { usePermission } from '../../hooks/usePermission';
 
 // Constants
 const COPIED_TIMEOUT = 2000; // 2 seconds
-const SUCCESS_TIMEOUT = 3000; // 3 seconds
 const WARNING_THRESHOLD_DAYS = 30;
 const SUCCESS_COPIED = 'License key copied to clipboard';
 const ERROR_COPY_FAILED = 'Failed to copy license key';
-const SUCCESS_RENEWED = 'Subscription renewed successfully!';
 const ERROR_LOADING_SUBSCRIPTION_MESSAGE = 'Failed to load subscription details. Please try again.';
 const ERROR_LOADING_SUBSCRIPTION_TITLE = 'Error Loading Subscription';
 
@@ -45,7 +43,6 @@ const STATUS_COLOR_MAP: Record<string, 'success' | 'warning' | 'default'> = {
 
 // Extract sx props to constants to prevent recreation on every render
 const headerBoxSx = { display: 'flex', alignItems: 'center', gap: 2, mb: 2.5 };
-const successAlertSx = { mb: 2.5 };
 const paperSx = { p: 1.5, mb: 2.5 };
 const statusBoxSx = { mb: 1 };
 const bodyTypographySx = { mb: 1 };
@@ -58,27 +55,23 @@ export const SubscriptionViewPage = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
   const { showToast } = useToastContext();
-  const [renewDialogOpen, setRenewDialogOpen] = useState(false);
-  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  // Renewing records the annual payment, so it needs payment rights
+  const canCreatePayments = usePermission('payments.create');
+  const [renewWizardOpen, setRenewWizardOpen] = useState(false);
   const [copied, setCopied] = useState(false);
   const copyTimeoutRef = useRef<NodeJS.Timeout | null>(null);
-  const successTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
   // Memoize subscriptionId to avoid repeated Number(id!) calls
   const subscriptionId = useMemo(() => (id ? Number(id) : null), [id]);
 
   const { data: subscription, isLoading, error } = useGetSubscriptionByIdQuery(subscriptionId!);
-  const [renewSubscription, { isLoading: isRenewing }] = useRenewSubscriptionMutation();
 
-  // Cleanup timeouts on unmount
+  // Cleanup timeout on unmount
   useEffect(() => {
     return () => {
       if (copyTimeoutRef.current) {
         clearTimeout(copyTimeoutRef.current);
       }
-      if (successTimeoutRef.current) {
-        clearTimeout(successTimeoutRef.current);
-      }
     };
   }, []);
 
@@ -105,29 +98,6 @@ export const SubscriptionViewPage = () => {
     }
   }, [subscription?.license, showToast]);
 
-  // Memoize handleRenew to prevent recreation on every render
-  const handleRenew = useCallback(async () => {
-    if (!subscription) return;
-
-    try {
-      await renewSubscription(subscription.id).unwrap();
-      setRenewDialogOpen(false);
-      setSuccessMessage(SUCCESS_RENEWED);
-
-      // Clear any existing timeout
-      if (successTimeoutRef.current) {
-        clearTimeout(successTimeoutRef.current);
-      }
-
-      successTimeoutRef.current = setTimeout(() => {
-        setSuccessMessage(null);
-        successTimeoutRef.current = null;
-      }, SUCCESS_TIMEOUT);
-    } catch (err) {
-      console.error('Failed to renew subscription:', err);
-    }
-  }, [subscription, renewSubscription]);
-
   // Memoize navigation handlers to prevent recreation on every render
   const handleBack = useCallback(() => {
     navigate(routes.subscriptions.list);
@@ -139,16 +109,12 @@ export const SubscriptionViewPage = () => {
     }
   }, [navigate, subscription?.license]);
 
-  const handleOpenRenewDialog = useCallback(() => {
-    setRenewDialogOpen(true);
-  }, []);
-
-  const handleRenewDialogClose = useCallback(() => {
-    setRenewDialogOpen(false);
+  const handleOpenRenewWizard = useCallback(() => {
+    setRenewWizardOpen(true);
   }, []);
 
-  const handleSuccessMessageClose = useCallback(() => {
-    setSuccessMessage(null);
+  const handleRenewWizardClose = useCallback(() => {
+    setRenewWizardOpen(false);
   }, []);
 
   // Memoize derived values to prevent recalculation on every render
@@ -197,10 +163,10 @@ export const SubscriptionViewPage = () => {
           <BackIcon />
         </IconButton>
         <Typography variant="h4">Subscription Details</Typography>
-        {canRenew && (
-          <Tooltip title="Renew this subscription. This will extend the subscription period by one year from today. The subscription status will change to active and the end date will be updated.">
+        {canRenew && canCreatePayments && (
+          <Tooltip title="Renew this subscription and record the annual payment. The subscription is extended by one year from the payment date; you'll see the new dates before confirming and get a receipt at the end.">
             <span>
-              <Button variant="contained" startIcon={<RenewIcon />} onClick={handleOpenRenewDialog} disabled={isRenewing}>
+              <Button variant="contained" startIcon={<RenewIcon />} onClick={handleOpenRenewWizard}>
                 Renew Subscription
               </Button>
             </span>
@@ -208,12 +174,6 @@ export const SubscriptionViewPage = () => {
         )}
       </Box>
 
-      {successMessage && (
-        <Alert severity="success" sx={successAlertSx} onClose={handleSuccessMessageClose}>
-          {successMessage}
-        </Alert>
-      )}
-
       <Paper sx={paperSx}>
         <Grid container spacing={2.5}>
           <Grid item xs={12} md={6}>
@@ -322,16 +282,9 @@ export const SubscriptionViewPage = () => {
         </Grid>
       </Paper>
 
-      <ConfirmDialog
-        open={renewDialogOpen}
-        title="Renew Subscription"
-        message="Are you sure you want to renew this subscription? This will extend the subscription period for another year from today. The subscription status will change to active, the end date will be updated, and the license will remain active during the extended period."
-        confirmLabel="Renew"
-        cancelLabel="Cancel"
-        confirmColor="primary"
-        onConfirm={handleRenew}
-        onCancel={handleRenewDialogClose}
-      />
+      {canCreatePayments && (
+        <RenewalWizardDialog open={renewWizardOpen} subscription={subscription} onClose={handleRenewWizardClose} />
+      )}
     </Box>
   );
 };
\ No newline at end of file
@@ -2,6 +2,9 @@ import { configureStore } from '@reduxjs/toolkit';
 import { baseApi } from '../api/baseApi';
 import { healthApi } from '../api/healthApi';
 import authReducer from '../features/auth/slice/authSlice';
+import { startAuthStorageSync } from '../features/auth/slice/authStorageSync';
+import offlineReducer from '../features/offline/slice/offlineSlice';
+import { startOfflineSync } from '../features/offline/slice/offlineSync';
 
 /**
  * Redux store configuration.
@@ -15,10 +18,14 @@ import authReducer from '../features/auth/slice/authSlice';
  *    API caching and request deduplication.
  * 4. Single reducer composition: Reducers are composed at store creation time, ensuring
  *    efficient state updates.
+ *
+ * The auth session is kept in sync across browser tabs (see authStorageSync), and changes made
+ * offline are replayed when the connection returns (see offlineSync).
  */
 export const store = configureStore({
   reducer: {
     auth: authReducer,
+    offline: offlineReducer,
     [baseApi.reducerPath]: baseApi.reducer,
     [healthApi.reducerPath]: healthApi.reducer,
   },
@@ -40,5 +47,8 @@ export const store = configureStore({
     }).concat(baseApi.middleware, healthApi.middleware),
 });
 
+startAuthStorageSync(store);
+startOfflineSync(store);
+
 export type RootState = ReturnType<typeof store.getState>;
 export type AppDispatch = typeof store.dispatch;
\ No newline at end of file
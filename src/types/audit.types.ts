@@ -0,0 +1,55 @@
+/**
+ * Entity types recorded in the audit trail.
+ */
+export type AuditEntityType = 'license' | 'activation' | 'subscription' | 'payment';
+
+/**
+ * Mutations recorded in the audit trail.
+ * License actions mirror the mutations in licenseApi.
+ */
+export type AuditAction =
+  | 'create'
+  | 'update'
+  | 'revoke'
+  | 'delete'
+  | 'reactivate'
+  | 'increase_user_limit'
+  | 'suspend'
+  | 'unsuspend'
+  | 'renew'
+  | 'deactivate'
+  | 'transfer';
+
+/**
+ * A single field change captured by an audit entry.
+ *
+ * Performance considerations:
+ * - Values are stored as received (unknown) and only stringified when rendered
+ * - TypeScript compiles to efficient JavaScript with no runtime overhead
+ */
+export interface AuditChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+/**
+ * Audit log entry describing who changed what and when.
+ *
+ * Performance considerations:
+ * - Actor details are denormalised so the list doesn't need a user lookup per row
+ * - Changes only include fields that actually changed, keeping payloads small
+ */
+export interface AuditLogEntry {
+  id: number;
+  entityType: AuditEntityType;
+  entityId: number;
+  action: AuditAction;
+  actor: {
+    id: number;
+    username: string;
+  } | null; // null for system-initiated changes (e.g., scheduled expiry)
+  changes: AuditChange[];
+  ipAddress: string | null;
+  createdAt: string;
+}
@@ -11,6 +11,56 @@ export interface LoginCredentials {
   password: string;
 }
 
+/**
+ * Admin role, decoded from the `role` claim of the JWT.
+ *
+ * - viewer: read-only access
+ * - support: manage licenses (create, edit, suspend, revoke), but not delete them or record payments
+ * - finance: record payments and renew subscriptions
+ * - owner: full access, including permanent deletion
+ */
+export type AdminRole = 'viewer' | 'support' | 'finance' | 'owner';
+
+/**
+ * Admin account as listed in the admin user management console.
+ *
+ * - `isActive` is false for disabled accounts, which can no longer log in
+ * - `lastLoginAt` is null for invited admins who have not logged in yet
+ */
+export interface AdminUser {
+  id: number;
+  username: string;
+  phone: string | null;
+  role: AdminRole;
+  isActive: boolean;
+  lastLoginAt: string | null;
+  createdAt: string;
+}
+
+/**
+ * Signed-in session of the current admin (one per device/browser login).
+ *
+ * - `device` is a readable summary of the user agent (e.g. "Chrome on Windows")
+ * - `isCurrent` marks the session making the request
+ */
+export interface AdminSession {
+  id: string;
+  device: string;
+  ipAddress: string | null;
+  lastSeenAt: string;
+  createdAt: string;
+  isCurrent: boolean;
+}
+
+/**
+ * Input for inviting a new admin.
+ */
+export interface InviteAdminUserInput {
+  username: string;
+  phone?: string;
+  role: AdminRole;
+}
+
 /**
  * Authentication response from the API.
  *
@@ -22,6 +72,8 @@ export interface LoginCredentials {
  */
 export interface AuthResponse {
   token: string;
+  // Long-lived token used to obtain new access tokens without logging in again
+  refreshToken?: string;
   user: {
     id: number;
     phone: string;
@@ -29,6 +81,20 @@ export interface AuthResponse {
   };
 }
 
+/**
+ * Second login step for admins with two-factor authentication enabled.
+ *
+ * `/admin/login` returns this instead of a token. The client sends an OTP to `phone`,
+ * verifies it, and exchanges the verification token plus `challengeToken` for an `AuthResponse`.
+ */
+export interface TwoFactorChallenge {
+  twoFactorRequired: true;
+  challengeToken: string;
+  phone: string;
+}
+
+export type LoginResult = AuthResponse | TwoFactorChallenge;
+
 /**
  * Authentication state in Redux store.
  *
@@ -46,8 +112,10 @@ export interface AuthResponse {
  */
 export interface AuthState {
   token: string | null;
+  refreshToken: string | null;
   user: AuthResponse['user'] | null;
   isAuthenticated: boolean;
   isLoading: boolean;
   tokenExpiry: string | null; // Token expiration time (ISO string for Redux serialization)
+  role: AdminRole | null; // Decoded from the token; null when logged out
 }
\ No newline at end of file
@@ -0,0 +1,38 @@
+import { License, Activation, Subscription, Payment } from './license.types';
+
+/**
+ * Customer summary aggregated from all licenses sharing the same phone number.
+ *
+ * Performance considerations:
+ * - Aggregates (counts, revenue) are computed server-side to avoid loading every license
+ * - The phone number doubles as the identifier, so no extra lookup table is needed
+ * - TypeScript compiles to efficient JavaScript with no runtime overhead
+ */
+export interface CustomerSummary {
+  id: string; // Customer identifier (the customer phone number)
+  customerPhone: string;
+  customerName: string | null;
+  licenseCount: number;
+  activeLicenseCount: number;
+  locationCount: number;
+  activeActivationsCount: number;
+  openSubscriptionsCount: number;
+  lifetimeRevenue: number;
+  firstPurchaseDate: string | null;
+  lastPaymentDate: string | null;
+}
+
+/**
+ * Customer account with every license, payment, activation and subscription attached to it.
+ *
+ * Performance considerations:
+ * - Related records are returned in one response so the detail page needs a single request
+ * - Each payment/activation/subscription keeps its licenseId for efficient grouping per location
+ * - TypeScript compiles to efficient JavaScript with no runtime overhead
+ */
+export interface CustomerDetail extends CustomerSummary {
+  licenses: License[];
+  activations: Activation[];
+  subscriptions: Subscription[];
+  payments: Payment[];
+}
@@ -129,6 +129,37 @@ export interface Activation {
   isActive: boolean;
 }
 
+/**
+ * Moves a license to replacement hardware: the current activation is deactivated and the new
+ * hardware ID is authorised, so the customer's next activation succeeds without a support call.
+ */
+export interface TransferActivationInput {
+  newHardwareId: string;
+  // Kept in the audit trail and the hardware timeline
+  reason: string;
+}
+
+/**
+ * pending: authorised by a transfer, waiting for the new machine to activate
+ * transferred: replaced by a transfer
+ * deactivated: deactivated without a replacement
+ */
+export type HardwareBindingStatus = 'active' | 'pending' | 'transferred' | 'deactivated';
+
+/**
+ * One hardware ID a license has been bound to, as shown in the license's hardware timeline.
+ */
+export interface HardwareBinding {
+  hardwareId: string;
+  machineName: string | null;
+  activationId: number | null; // null until a pending binding is activated
+  status: HardwareBindingStatus;
+  boundAt: string; // Activation date, or authorisation date while pending
+  unboundAt: string | null;
+  reason: string | null; // Transfer reason, on both sides of a transfer
+  performedBy: string | null; // Admin who made the transfer or deactivation
+}
+
 /**
  * Subscription record for a license.
  *
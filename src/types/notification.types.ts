@@ -0,0 +1,26 @@
+/**
+ * Kinds of actionable events the server raises for admins.
+ *
+ * - grace_period: a subscription expired and entered its grace period
+ * - expiring_soon: a license is within the expiring-soon window
+ * - trial_ending: a free trial ends soon (freeTrialEndDate)
+ * - activation_failed: a POS failed to activate a license (e.g. user limit reached)
+ */
+export type NotificationType = 'grace_period' | 'expiring_soon' | 'trial_ending' | 'activation_failed';
+
+/**
+ * Notification shown in the header bell.
+ *
+ * - `readAt` is null until the admin opens it or marks all as read; read state is per admin
+ * - `subscriptionId` is set for grace_period notifications, which link to the subscription
+ */
+export interface AdminNotification {
+  id: number;
+  type: NotificationType;
+  title: string;
+  message: string;
+  licenseId: number;
+  subscriptionId: number | null;
+  createdAt: string;
+  readAt: string | null;
+}
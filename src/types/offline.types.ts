@@ -0,0 +1,31 @@
+import type { FetchArgs } from '@reduxjs/toolkit/query/react';
+
+/**
+ * Mutation stored in the offline outbox for replay.
+ *
+ * - `args` is the original request (url, method, body, headers), stored as-is in IndexedDB. Its
+ *   headers carry the idempotency key, so the server can drop a change it has already applied
+ * - `status` is 'sending' while a tab replays it, and 'conflict' once the server rejected the
+ *   replay; `conflictMessage` says why
+ */
+export interface OutboxItem {
+  id: number;
+  userId: number; // Only the admin who queued a change replays it
+  endpoint: string;
+  args: FetchArgs;
+  queuedAt: string;
+  status: 'pending' | 'sending' | 'conflict';
+  conflictMessage?: string;
+}
+
+/**
+ * Connectivity and outbox state.
+ *
+ * The outbox itself lives in IndexedDB; this mirrors what the UI needs to show.
+ */
+export interface OfflineState {
+  isOnline: boolean;
+  pendingCount: number;
+  conflicts: OutboxItem[];
+  isReplaying: boolean;
+}
@@ -0,0 +1,149 @@
+import type { HttpError } from '../api/httpClient';
+
+/**
+ * Typed view of an RTK Query error.
+ *
+ * API slices reject with `HttpError` (see api/httpClient.ts), whose `data` is the server's
+ * `ApiResponse` body. `parseApiError` turns that into something the UI can act on: what kind of
+ * failure it was, the server's reason, and per-field validation messages for forms.
+ *
+ * Server error bodies understood:
+ * - `{ success: false, message, error? }`
+ * - Validation: `errors: [{ field | path | param, message | msg }]` or `errors: { field: message | message[] }`
+ * - Rate limit: `retryAfter` seconds (also taken from the `Retry-After` header by the transport)
+ */
+
+export type ApiErrorKind =
+  | 'validation'
+  | 'unauthorized'
+  | 'forbidden'
+  | 'notFound'
+  | 'conflict'
+  | 'rateLimit'
+  | 'network'
+  | 'queued'
+  | 'server'
+  | 'unknown';
+
+export interface ApiError {
+  kind: ApiErrorKind;
+  // HTTP status, or null when no response was received
+  status: number | null;
+  // User-facing message: the server's reason when it gave one, otherwise the caller's fallback
+  message: string;
+  // Validation messages keyed by the server's field name
+  fieldErrors: Record<string, string>;
+  retryAfterSeconds: number | null;
+  requestId: string | null;
+}
+
+const isHttpError = (error: unknown): error is HttpError =>
+  !!error &&
+  typeof error === 'object' &&
+  'status' in error &&
+  'data' in error &&
+  !!error.data &&
+  typeof error.data === 'object';
+
+const getKind = (status: HttpError['status']): ApiErrorKind => {
+  if (status === 'FETCH_ERROR' || status === 'TIMEOUT_ERROR') return 'network';
+  if (status === 'QUEUED') return 'queued';
+  if (typeof status !== 'number') return 'server';
+  if (status === 400 || status === 422) return 'validation';
+  if (status === 401) return 'unauthorized';
+  if (status === 403) return 'forbidden';
+  if (status === 404) return 'notFound';
+  if (status === 409) return 'conflict';
+  if (status === 429) return 'rateLimit';
+  if (status >= 500) return 'server';
+  return 'unknown';
+};
+
+const getString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() !== '' ? value : undefined;
+
+/**
+ * Collect validation messages from either the array or the object form of `errors`.
+ * Only the first message per field is kept, since a form shows one helper text per field.
+ */
+const getFieldErrors = (errors: unknown): Record<string, string> => {
+  const fieldErrors: Record<string, string> = {};
+  if (Array.isArray(errors)) {
+    errors.forEach((item) => {
+      if (!item || typeof item !== 'object') return;
+      const entry = item as Record<string, unknown>;
+      const field = getString(entry.field) || getString(entry.path) || getString(entry.param);
+      const message = getString(entry.message) || getString(entry.msg);
+      if (field && message && !fieldErrors[field]) {
+        fieldErrors[field] = message;
+      }
+    });
+  } else if (errors && typeof errors === 'object') {
+    Object.entries(errors as Record<string, unknown>).forEach(([field, value]) => {
+      const message = Array.isArray(value) ? getString(value[0]) : getString(value);
+      if (message) {
+        fieldErrors[field] = message;
+      }
+    });
+  }
+  return fieldErrors;
+};
+
+const getRetryAfterMessage = (retryAfterSeconds: number | null): string =>
+  retryAfterSeconds
+    ? `Too many requests. Please try again in ${retryAfterSeconds} second${retryAfterSeconds !== 1 ? 's' : ''}.`
+    : 'Too many requests. Please wait a moment and try again.';
+
+/**
+ * Parse an error thrown by an RTK Query `unwrap()` (or returned as a hook's `error`).
+ *
+ * @param error - Caught error
+ * @param fallbackMessage - Message to show when the server gave no usable reason
+ * @returns Parsed error
+ */
+export const parseApiError = (error: unknown, fallbackMessage: string): ApiError => {
+  if (!isHttpError(error)) {
+    // SerializedError: a thrown exception (e.g. in transformResponse), not a server response
+    return {
+      kind: 'unknown',
+      status: null,
+      message: fallbackMessage,
+      fieldErrors: {},
+      retryAfterSeconds: null,
+      requestId: null,
+    };
+  }
+
+  const { data } = error;
+  const kind = getKind(error.status);
+  const retryAfter = Number(data.retryAfter);
+  const retryAfterSeconds = Number.isFinite(retryAfter) && retryAfter > 0 ? Math.ceil(retryAfter) : null;
+
+  // ApiResponse.error carries the specific reason; message is often a generic summary
+  const reason = getString(data.error) || getString(data.message);
+  let message: string;
+  switch (kind) {
+    case 'network':
+    case 'queued':
+      message = data.message;
+      break;
+    case 'rateLimit':
+      message = getRetryAfterMessage(retryAfterSeconds);
+      break;
+    // Server failures carry internals, not reasons the user can act on
+    case 'server':
+      message = fallbackMessage;
+      break;
+    default:
+      message = reason || fallbackMessage;
+  }
+
+  return {
+    kind,
+    status: typeof error.status === 'number' ? error.status : null,
+    message,
+    fieldErrors: getFieldErrors(data.errors),
+    retryAfterSeconds,
+    requestId: error.requestId ?? null,
+  };
+};
@@ -54,4 +54,17 @@ export const DATE_FORMATS = {
 export const CURRENCY = {
   SYMBOL: '$',
   DECIMAL_PLACES: 2,
-} as const;
\ No newline at end of file
+} as const;
+
+/**
+ * Stale activation detection.
+ *
+ * An active activation is stale when it hasn't validated with the server for
+ * `staleAfterDays` days (set in Preferences). Stale seats still count towards the
+ * license's user limit until they are deactivated.
+ */
+export const STALE_ACTIVATIONS = {
+  DEFAULT_AFTER_DAYS: 30,
+  MIN_AFTER_DAYS: 1,
+  MAX_AFTER_DAYS: 365,
+} as const;
@@ -172,7 +172,8 @@ export const dateToUTCISOString = (date: Date | null | undefined): string | unde
  * @returns UTC date string (YYYY-MM-DD), or undefined if invalid
  */
 export const dateToUTCDateString = (date: Date | null | undefined): string | undefined => {
-  if (!date) return undefined;
+  // Partially typed dates from range fields arrive as Invalid Date
+  if (!date || isNaN(date.getTime())) return undefined;
   try {
     const beirutMoment = moment.tz(date, TIMEZONE);
     return beirutMoment.utc().format('YYYY-MM-DD');
@@ -205,4 +206,42 @@ export const utcDateStringToDate = (dateString: string | null | undefined): Date
   } catch {
     return null;
   }
-};
\ No newline at end of file
+};
+/**
+ * Serialise a date picker value to a calendar date string (YYYY-MM-DD) for the URL.
+ * Uses the picker's own calendar day so the value round-trips without timezone drift.
+ *
+ * @param date - Date object from date picker
+ * @returns Calendar date string, or undefined if invalid
+ */
+export const dateToQueryParam = (date: Date | null | undefined): string | undefined => {
+  if (!date || isNaN(date.getTime())) return undefined;
+  return moment(date).format('YYYY-MM-DD');
+};
+
+/**
+ * Restore a date picker value from a calendar date string (YYYY-MM-DD) found in the URL.
+ *
+ * @param value - Calendar date string from the query string
+ * @returns Date object for date picker, or null if missing or malformed
+ */
+export const queryParamToDate = (value: string | null | undefined): Date | null => {
+  if (!value) return null;
+  // Performance: Strict parsing rejects malformed values without fallback heuristics
+  const parsed = moment(value, 'YYYY-MM-DD', true);
+  return parsed.isValid() ? parsed.toDate() : null;
+};
+
+/**
+ * Get the subscription period an annual payment starts (using Beirut timezone).
+ *
+ * Mirrors the server: recording an annual payment extends the subscription by one year
+ * from the payment date.
+ *
+ * @param paymentDate - Payment date
+ * @returns Start and end of the new subscription period
+ */
+export const getAnnualRenewalPeriod = (paymentDate: Date): { startDate: Date; endDate: Date } => {
+  const start = moment.tz(paymentDate, TIMEZONE);
+  return { startDate: start.toDate(), endDate: start.clone().add(1, 'year').toDate() };
+};
@@ -1,5 +1,7 @@
 import { DATE_FORMATS, CURRENCY } from './constants';
 import { toBeirutTime } from './dateUtils';
+import { AuditAction } from '../types/audit.types';
+import { AdminRole } from '../types/auth.types';
 
 /**
  * Formatting utility functions for dates, currency, and other data types.
@@ -168,4 +170,83 @@ export const getPaymentTypeColor = (
   }
   // Fallback for backward compatibility
   return isAnnualSubscription ? PAYMENT_TYPE_COLOR_MAP.annual : PAYMENT_TYPE_COLOR_MAP.initial;
-};
\ No newline at end of file
+};
+
+// Audit action lookup maps for O(1) access
+export const AUDIT_ACTION_LABEL_MAP: Record<AuditAction, string> = {
+  create: 'Created',
+  update: 'Edited',
+  revoke: 'Revoked',
+  delete: 'Deleted',
+  reactivate: 'Reactivated',
+  increase_user_limit: 'User Limit Increased',
+  suspend: 'Suspended',
+  unsuspend: 'Unsuspended',
+  renew: 'Renewed',
+  deactivate: 'Deactivated',
+  transfer: 'Transferred',
+};
+
+const AUDIT_ACTION_COLOR_MAP: Record<AuditAction, 'default' | 'primary' | 'success' | 'warning' | 'error' | 'info'> = {
+  create: 'success',
+  update: 'primary',
+  revoke: 'error',
+  delete: 'error',
+  reactivate: 'info',
+  increase_user_limit: 'primary',
+  suspend: 'warning',
+  unsuspend: 'success',
+  renew: 'success',
+  deactivate: 'warning',
+  transfer: 'info',
+};
+
+/**
+ * Get audit action label.
+ *
+ * @param action - Audit action
+ * @returns Human-readable label, or the raw action for unknown values
+ */
+export const getAuditActionLabel = (action: AuditAction): string => AUDIT_ACTION_LABEL_MAP[action] || action;
+
+/**
+ * Get audit action color for Chip component.
+ *
+ * @param action - Audit action
+ * @returns MUI Chip color value
+ */
+export const getAuditActionColor = (
+  action: AuditAction
+): 'default' | 'primary' | 'success' | 'warning' | 'error' | 'info' => AUDIT_ACTION_COLOR_MAP[action] || 'default';
+
+/**
+ * Format a before/after value from an audit entry for display.
+ *
+ * Performance considerations:
+ * - Early returns for empty and primitive values avoid JSON serialisation
+ *
+ * @param value - Raw value recorded by the audit trail
+ * @returns Display string, or '-' when empty
+ */
+export const formatAuditValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return DEFAULT_EMPTY_VALUE;
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (typeof value === 'string' || typeof value === 'number') return String(value);
+  return JSON.stringify(value);
+};
+
+// Admin role labels for O(1) access
+export const ADMIN_ROLE_LABEL_MAP: Record<AdminRole, string> = {
+  viewer: 'Viewer',
+  support: 'Support',
+  finance: 'Finance',
+  owner: 'Owner',
+};
+
+/**
+ * Get admin role label.
+ *
+ * @param role - Admin role
+ * @returns Human-readable label, or the raw role for unknown values
+ */
+export const getAdminRoleLabel = (role: AdminRole): string => ADMIN_ROLE_LABEL_MAP[role] || role;
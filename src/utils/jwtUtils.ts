@@ -1,7 +1,9 @@
+import { AdminRole } from '../types/auth.types';
+
 /**
  * JWT Token Utilities
  *
- * Utilities for decoding and checking JWT token expiry.
+ * Utilities for decoding and checking JWT token expiry and role claims.
  *
  * Performance optimizations:
  * 1. Early returns: Null/undefined checks happen before expensive operations
@@ -21,6 +23,9 @@ const BASE64_URL_REPLACEMENTS = [
 ] as const;
 const SECONDS_TO_MS = 1000;
 const MINUTES_TO_MS = 60 * 1000;
+const ADMIN_ROLES: readonly AdminRole[] = ['viewer', 'support', 'finance', 'owner'];
+// Least privilege for a missing role claim or one this app doesn't recognise
+const UNKNOWN_ADMIN_ROLE: AdminRole = 'viewer';
 
 interface JWTPayload {
   exp?: number; // Expiration time (Unix timestamp)
@@ -28,6 +33,7 @@ interface JWTPayload {
   id?: number;
   username?: string;
   phone?: string;
+  role?: string;
   [key: string]: unknown;
 }
 
@@ -185,4 +191,28 @@ export const isTokenExpiringSoon = (token: string | null, minutes: number = DEFA
   // Performance: Convert minutes to milliseconds using constant
   const threshold = minutes * MINUTES_TO_MS;
   return timeRemaining > 0 && timeRemaining <= threshold;
-};
\ No newline at end of file
+};
+
+/**
+ * Get the admin role from a JWT token's `role` claim.
+ *
+ * Performance considerations:
+ * - Early return for null/undefined tokens
+ * - Reuses decodeJWT() for consistent decoding
+ *
+ * @param token - JWT token string
+ * @returns Admin role ('viewer' when the claim is missing or unknown), or null if there is no valid token
+ */
+export const getTokenRole = (token: string | null): AdminRole | null => {
+  if (!token) {
+    return null;
+  }
+
+  const payload = decodeJWT(token);
+  if (!payload) {
+    return null;
+  }
+
+  const role = payload.role as AdminRole | undefined;
+  return role && ADMIN_ROLES.includes(role) ? role : UNKNOWN_ADMIN_ROLE;
+};
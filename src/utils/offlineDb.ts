@@ -0,0 +1,128 @@
+/**
+ * Minimal promise wrapper around the app's IndexedDB database.
+ *
+ * Object stores:
+ * - queryCache: last successful response per RTK Query cache key (see api/offlineCache.ts)
+ * - outbox: mutations queued while offline (see api/outbox.ts)
+ *
+ * Performance: The connection is opened once and shared by all callers.
+ */
+
+const DB_NAME = 'digitalizepos-offline';
+const DB_VERSION = 1;
+
+export const QUERY_CACHE_STORE = 'queryCache';
+export const OUTBOX_STORE = 'outbox';
+
+type StoreName = typeof QUERY_CACHE_STORE | typeof OUTBOX_STORE;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(QUERY_CACHE_STORE)) {
+          db.createObjectStore(QUERY_CACHE_STORE);
+        }
+        if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+          db.createObjectStore(OUTBOX_STORE, { keyPath: 'id', autoIncrement: true });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later call to retry (e.g. private browsing denied access once)
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+const toPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Run a single request against an object store.
+ *
+ * @param storeName - Object store
+ * @param mode - Transaction mode
+ * @param run - Builds the request from the store
+ * @returns Request result
+ */
+export const runDbRequest = async <T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  return toPromise(run(db.transaction(storeName, mode).objectStore(storeName)));
+};
+
+/**
+ * Read and rewrite one entry in a single readwrite transaction, so no other tab can change it in
+ * between (e.g. two tabs claiming the same outbox item).
+ *
+ * @param storeName - Object store
+ * @param key - Entry key
+ * @param update - Returns the new value, or undefined to leave the entry unchanged
+ * @returns The written value, or undefined if nothing was written
+ */
+export const updateDbEntry = async <T>(
+  storeName: StoreName,
+  key: IDBValidKey,
+  update: (value: T | undefined) => T | undefined
+): Promise<T | undefined> => {
+  const db = await openDb();
+  const transaction = db.transaction(storeName, 'readwrite');
+  const store = transaction.objectStore(storeName);
+  const request = store.get(key);
+  let written: T | undefined;
+  await new Promise<void>((resolve, reject) => {
+    // The put is issued from the get's callback, inside the same transaction
+    request.onsuccess = () => {
+      written = update(request.result as T | undefined);
+      if (written !== undefined) {
+        store.put(written);
+      }
+    };
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+  return written;
+};
+
+/**
+ * Iterate an object store with a cursor (e.g. to prune or filter entries).
+ *
+ * @param storeName - Object store
+ * @param onEntry - Called for each entry; the cursor allows deleting it
+ */
+export const forEachDbEntry = async (
+  storeName: StoreName,
+  onEntry: (cursor: IDBCursorWithValue) => void
+): Promise<void> => {
+  const db = await openDb();
+  const transaction = db.transaction(storeName, 'readwrite');
+  const request = transaction.objectStore(storeName).openCursor();
+  await new Promise<void>((resolve, reject) => {
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      onEntry(cursor);
+      cursor.continue();
+    };
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
@@ -0,0 +1,155 @@
+import { jsPDF } from 'jspdf';
+import type { PaymentWithLicense } from '../api/paymentApi';
+import { config } from '../config/env';
+import { formatCurrency, formatDate, formatDateTime, getPaymentTypeLabel } from './formatters';
+
+/**
+ * PDF generation for payment receipts and invoices.
+ *
+ * Performance optimizations:
+ * 1. Lazy generation: Documents are only built when the user requests a download
+ * 2. Built-in fonts: Uses jsPDF's standard Helvetica font, so no font files are fetched
+ * 3. Constants extracted: Layout values and brand colors are defined once at module load
+ */
+
+export type PaymentDocumentType = 'receipt' | 'invoice';
+
+// Brand colors (match the primary palette in styles/theme.ts)
+const BRAND_PRIMARY: [number, number, number] = [26, 35, 126];
+const TEXT_PRIMARY: [number, number, number] = [33, 33, 33];
+const TEXT_SECONDARY: [number, number, number] = [117, 117, 117];
+const DIVIDER_COLOR: [number, number, number] = [224, 224, 224];
+
+// Layout constants (millimetres, A4 portrait)
+const PAGE_MARGIN = 20;
+const HEADER_HEIGHT = 32;
+const ROW_HEIGHT = 9;
+const LABEL_COLUMN_WIDTH = 50;
+const DOCUMENT_NUMBER_PADDING = 6;
+const EMPTY_VALUE = '-';
+
+const DOCUMENT_TITLES: Record<PaymentDocumentType, string> = {
+  receipt: 'PAYMENT RECEIPT',
+  invoice: 'INVOICE',
+};
+
+const DOCUMENT_NUMBER_PREFIXES: Record<PaymentDocumentType, string> = {
+  receipt: 'RCPT',
+  invoice: 'INV',
+};
+
+/**
+ * Build the human-readable document number for a payment (e.g., "RCPT-000042").
+ *
+ * @param paymentId - Payment ID
+ * @param documentType - Receipt or invoice
+ * @returns Document number string
+ */
+export const getPaymentDocumentNumber = (
+  paymentId: number,
+  documentType: PaymentDocumentType
+): string => {
+  return `${DOCUMENT_NUMBER_PREFIXES[documentType]}-${String(paymentId).padStart(DOCUMENT_NUMBER_PADDING, '0')}`;
+};
+
+/**
+ * Generate a branded PDF document for a payment.
+ *
+ * All dates are rendered in Asia/Beirut time through the shared formatters.
+ *
+ * @param payment - Payment with its associated license (from getPaymentById)
+ * @param documentType - Receipt or invoice (default: receipt)
+ * @returns jsPDF document ready to be saved
+ */
+export const generatePaymentPdf = (
+  payment: PaymentWithLicense,
+  documentType: PaymentDocumentType = 'receipt'
+): jsPDF => {
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const documentNumber = getPaymentDocumentNumber(payment.id, documentType);
+
+  // Header band with application branding
+  doc.setFillColor(...BRAND_PRIMARY);
+  doc.rect(0, 0, pageWidth, HEADER_HEIGHT, 'F');
+  doc.setTextColor(255, 255, 255);
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(18);
+  doc.text(config.appName, PAGE_MARGIN, 15);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(11);
+  doc.text(DOCUMENT_TITLES[documentType], PAGE_MARGIN, 24);
+  doc.text(documentNumber, pageWidth - PAGE_MARGIN, 24, { align: 'right' });
+
+  // Document metadata
+  let y = HEADER_HEIGHT + 14;
+  doc.setTextColor(...TEXT_SECONDARY);
+  doc.setFontSize(10);
+  doc.text(`Issued: ${formatDateTime(new Date())} (Beirut time)`, PAGE_MARGIN, y);
+
+  // Amount highlight
+  y += 14;
+  doc.setTextColor(...TEXT_SECONDARY);
+  doc.text(documentType === 'receipt' ? 'Amount Paid' : 'Amount Invoiced', PAGE_MARGIN, y);
+  y += 10;
+  doc.setTextColor(...BRAND_PRIMARY);
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(24);
+  doc.text(formatCurrency(payment.amount), PAGE_MARGIN, y);
+
+  // Detail rows
+  const rows: [string, string][] = [
+    ['Payment ID', String(payment.id)],
+    ['Payment Date', formatDate(payment.paymentDate)],
+    ['Payment Type', getPaymentTypeLabel(payment.paymentType, payment.isAnnualSubscription)],
+    ['License Key', payment.license?.licenseKey || EMPTY_VALUE],
+    ['Customer', payment.license?.customerName || EMPTY_VALUE],
+    ['Location', payment.license?.locationName || EMPTY_VALUE],
+  ];
+
+  y += 12;
+  doc.setDrawColor(...DIVIDER_COLOR);
+  doc.line(PAGE_MARGIN, y, pageWidth - PAGE_MARGIN, y);
+  doc.setFontSize(11);
+  rows.forEach(([label, value]) => {
+    y += ROW_HEIGHT;
+    doc.setFont('helvetica', 'normal');
+    doc.setTextColor(...TEXT_SECONDARY);
+    doc.text(label, PAGE_MARGIN, y);
+    doc.setFont(label === 'License Key' ? 'courier' : 'helvetica', 'bold');
+    doc.setTextColor(...TEXT_PRIMARY);
+    doc.text(value, PAGE_MARGIN + LABEL_COLUMN_WIDTH, y);
+  });
+  y += ROW_HEIGHT / 2;
+  doc.line(PAGE_MARGIN, y, pageWidth - PAGE_MARGIN, y);
+
+  // Footer
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  doc.setTextColor(...TEXT_SECONDARY);
+  doc.text(
+    documentType === 'receipt'
+      ? 'Thank you for your payment. Keep this receipt for your records.'
+      : 'Please quote the invoice number in any correspondence about this payment.',
+    pageWidth / 2,
+    pageHeight - PAGE_MARGIN,
+    { align: 'center' }
+  );
+
+  return doc;
+};
+
+/**
+ * Generate a payment PDF and trigger a browser download.
+ *
+ * @param payment - Payment with its associated license (from getPaymentById)
+ * @param documentType - Receipt or invoice (default: receipt)
+ */
+export const downloadPaymentPdf = (
+  payment: PaymentWithLicense,
+  documentType: PaymentDocumentType = 'receipt'
+): void => {
+  const doc = generatePaymentPdf(payment, documentType);
+  doc.save(`${getPaymentDocumentNumber(payment.id, documentType).toLowerCase()}.pdf`);
+};
@@ -0,0 +1,31 @@
+import moment from 'moment-timezone';
+import { Activation } from '../types/license.types';
+
+/**
+ * Stale activation helpers (see STALE_ACTIVATIONS in constants.ts).
+ *
+ * The list filter and the cleanup preview ask the server for activations last seen before a
+ * cutoff; the table uses the same cutoff to flag rows, so both always agree.
+ */
+
+/**
+ * Get the stale cutoff for a threshold.
+ *
+ * @param staleAfterDays - Days without validation before an activation counts as stale
+ * @returns ISO timestamp; activations last seen before it are stale
+ */
+export const getStaleCutoff = (staleAfterDays: number): string =>
+  moment.utc().subtract(staleAfterDays, 'days').toISOString();
+
+/**
+ * Check whether an activation is stale.
+ *
+ * Activations that never validated are judged by their activation date, so a machine that was
+ * activated once and never came back is caught too.
+ *
+ * @param activation - Activation to check
+ * @param cutoff - Cutoff from getStaleCutoff
+ * @returns True for active activations last seen before the cutoff
+ */
+export const isActivationStale = (activation: Activation, cutoff: string): boolean =>
+  activation.isActive && moment.utc(activation.lastValidation ?? activation.activatedAt).isBefore(cutoff);
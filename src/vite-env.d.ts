@@ -30,6 +30,10 @@ interface ImportMetaEnv {
   readonly VITE_APP_NAME: string;
   /** Application version */
   readonly VITE_APP_VERSION: string;
+  /** Request timeout in milliseconds (default 30000) */
+  readonly VITE_API_TIMEOUT_MS?: string;
+  /** How many times failed GET requests are retried (default 3, 0 disables retries) */
+  readonly VITE_API_MAX_RETRIES?: string;
   /** Whether analytics is enabled (string 'true' or 'false') */
   readonly VITE_ENABLE_ANALYTICS: string;
 }